@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Audit trail chain export.
+ * `GET /api/exports/audit` downloads every audit entry as stored, with its hashes,
+ * so auditors can recompute the chain outside the system. The head hash is the hash of the
+ * last entry: kept outside the system, it shows whether entries were later cut from the end.
+ * Only a signed-in manager may download it.
+ * @module app/api/exports/audit/route
+ */
+
+import { NextResponse } from "next/server"
+import { format } from "date-fns"
+import { listAuditChain, verifyAuditChain } from "@/lib/db/repositories/audit"
+import { AUDIT_GENESIS_HASH } from "@/lib/auditHash"
+import { SIGN_IN_REQUIRED_ERROR, getSessionActor } from "@/lib/session"
+
+/** How to recompute each hash, included in the file for external checkers */
+const HASH_ALGORITHM =
+    "hash = SHA-256 hex of the JSON object {action, after, before, lotNumber, prevHash, role, timestamp, user} " +
+    "with keys sorted by code unit (not locale) and no whitespace, using the values exactly as exported (before/after are JSON text or null). " +
+    "prevHash is the hash of the entry before, or genesisHash for the first sealed entry. " +
+    "headHash is the hash of the last entry at export time; a later export whose chain does not contain it was truncated."
+
+export async function GET() {
+    const actor = await getSessionActor()
+    if (!actor) {
+        return NextResponse.json({ error: { code: "UNAUTHORIZED", message: SIGN_IN_REQUIRED_ERROR } }, { status: 401 })
+    }
+    if (actor.role !== "manager") {
+        return NextResponse.json(
+            { error: { code: "FORBIDDEN", message: "Only managers can export the audit trail" } },
+            { status: 403 }
+        )
+    }
+
+    const exportedAt = new Date()
+    const entries = listAuditChain()
+    const body = {
+        exportedAt: exportedAt.toISOString(),
+        algorithm: HASH_ALGORITHM,
+        genesisHash: AUDIT_GENESIS_HASH,
+        headHash: entries.at(-1)?.hash ?? null,
+        verification: verifyAuditChain(),
+        entries,
+    }
+
+    return new NextResponse(JSON.stringify(body, null, 2), {
+        headers: {
+            "Content-Type": "application/json",
+            "Content-Disposition": `attachment; filename="AuditChain_${format(exportedAt, "yyyyMMdd-HHmm")}.json"`,
+        },
+    })
+}
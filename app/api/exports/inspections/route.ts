@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Inspection records export.
+ * `GET /api/exports/inspections?lot=STD260305` exports one lot;
+ * `GET /api/exports/inspections?from=2026-02-01&to=2026-02-28` exports a date range (inclusive).
+ * Responds with an .xlsx workbook matching the plant's manual inspection workbook.
+ * @module app/api/exports/inspections/route
+ */
+
+import { NextResponse } from "next/server"
+import { addDays, isValid, parse } from "date-fns"
+import { listInspectionRecordsBetween, listInspectionRecordsByLot } from "@/lib/db/repositories/inspections"
+import { buildInspectionWorkbook } from "@/lib/excel/InspectionWorkbook"
+import { normalizeLotNumber } from "@/lib/lots"
+
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+
+function errorResponse(message: string) {
+    return NextResponse.json({ error: { code: "INVALID_QUERY", message } }, { status: 400 })
+}
+
+function parseDay(value: string | null): Date | undefined {
+    if (!value) return undefined
+    const date = parse(value, "yyyy-MM-dd", new Date())
+    return isValid(date) ? date : undefined
+}
+
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url)
+    const lot = searchParams.get("lot")
+
+    let records
+    let fileName
+    if (lot) {
+        const lotNumber = normalizeLotNumber(lot)
+        records = listInspectionRecordsByLot(lotNumber)
+        fileName = `Inspections_${lotNumber}.xlsx`
+    } else {
+        const from = parseDay(searchParams.get("from"))
+        const to = parseDay(searchParams.get("to"))
+        if (!from || !to) {
+            return errorResponse("Provide a lot or a from/to date range (yyyy-MM-dd).")
+        }
+        if (from > to) {
+            return errorResponse("The start date must not be after the end date.")
+        }
+        records = listInspectionRecordsBetween(from.toISOString(), addDays(to, 1).toISOString())
+        fileName = `Inspections_${searchParams.get("from")}_${searchParams.get("to")}.xlsx`
+    }
+
+    const workbook = await buildInspectionWorkbook(records)
+
+    return new NextResponse(new Uint8Array(workbook), {
+        headers: {
+            "Content-Type": XLSX_CONTENT_TYPE,
+            "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+    })
+}
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Lot lookup API.
+ * `GET /api/lots/:lotNumber` returns the LotInfo for a scanned lot and records the scan
+ * in the audit trail under the kiosk's signed-in user. Released lots are only returned
+ * to users who may ship them.
+ * @module app/api/lots/[lotNumber]/route
+ */
+
+import { NextResponse } from "next/server"
+import { findLot } from "@/lib/db/repositories/lots"
+import { appendAuditEntry } from "@/lib/db/repositories/audit"
+import { KIOSK_ACTOR, getSessionActor } from "@/lib/session"
+import { LOT_SCAN_ACTION, LOT_STATUS_ROLES } from "@/lib/lotLifecycle"
+import {
+    LOT_ERROR_MESSAGES,
+    isValidLotFormat,
+    normalizeLotNumber,
+    type LotErrorCode,
+    type LotLookupResponse,
+} from "@/lib/lots"
+
+/**
+ * Builds an error response with the shared error body shape
+ */
+function errorResponse(code: LotErrorCode, status: number) {
+    return NextResponse.json<LotLookupResponse>(
+        { error: { code, message: LOT_ERROR_MESSAGES[code] } },
+        { status }
+    )
+}
+
+export async function GET(
+    _request: Request,
+    { params }: { params: Promise<{ lotNumber: string }> }
+) {
+    const lotNumber = normalizeLotNumber((await params).lotNumber)
+
+    if (!isValidLotFormat(lotNumber)) {
+        return errorResponse("INVALID_FORMAT", 400)
+    }
+
+    const lot = findLot(lotNumber)
+
+    if (!lot) {
+        return errorResponse("LOT_NOT_FOUND", 404)
+    }
+
+    // A released lot only opens for roles that may ship it (the inspector view's ship-only state)
+    const sessionActor = await getSessionActor()
+    if (lot.status === "released" && !(sessionActor && LOT_STATUS_ROLES.shipped.includes(sessionActor.role))) {
+        return errorResponse("LOT_RELEASED", 409)
+    }
+
+    if (lot.status === "shipped") {
+        return errorResponse("LOT_SHIPPED", 409)
+    }
+
+    // Scrapped or returned by the Material Review Board
+    if (lot.status === "scrapped" || lot.status === "returned_to_supplier") {
+        return errorResponse("LOT_CLOSED", 409)
+    }
+
+    const actor = sessionActor ?? KIOSK_ACTOR
+    appendAuditEntry({ actor, action: LOT_SCAN_ACTION, lotNumber, after: { status: lot.status } })
+
+    return NextResponse.json<LotLookupResponse>({ lot })
+}
@@ -6,7 +6,7 @@
 
 "use client"
 
-import React, { useState, useCallback } from "react"
+import React, { useState, useCallback, useEffect, useMemo } from "react"
 import { RoleSwitcher } from "@/components/dashboard/role-switcher"
 import { LotContext } from "@/components/dashboard/lot-context"
 import { OperatorView } from "@/components/dashboard/operator-view"
@@ -15,8 +15,10 @@ import { ManagerView } from "@/components/dashboard/manager-view"
 import { EngineerView } from "@/components/dashboard/engineer-view"
 import { KioskView } from "@/components/kiosk/KioskView"
 import { SessionProvider, useSession } from "@/context/SessionContext"
-import { PartConfigProvider } from "@/context/PartConfigContext"
-import { INITIAL_SPECS, type Role, type InspectionSpec } from "@/lib/data"
+import { PartConfigProvider, usePartConfig } from "@/context/PartConfigContext"
+import { useDynamicInspection } from "@/components/features/quality/DynamicInspectionForm"
+import { getInspectionAttempts, getInspectionValues } from "@/lib/actions/inspections"
+import type { InspectionRecord, Role } from "@/lib/data"
 import { Badge } from "@/components/ui/badge"
 import { HardHat, ClipboardCheck, BarChart3, Settings2 } from "lucide-react"
 import { toast } from "sonner"
@@ -58,27 +60,59 @@ function DashboardContent() {
     switchToOperator,
     endShift,
   } = useSession()
+  const { getPartByNumber, getActiveRevision, isLoading: isPartConfigLoading } = usePartConfig()
 
-  // Local form state for operator view
-  const [finishQty, setFinishQty] = useState(3280)
-  const [scrapQty, setScrapQty] = useState(20)
-  const [selectedDefect, setSelectedDefect] = useState("Z03")
-  const [inspectionSpecs, setInspectionSpecs] = useState<InspectionSpec[]>(INITIAL_SPECS)
-  const [lotReleased, setLotReleased] = useState(false)
-  const [lotRejected, setLotRejected] = useState(false)
+  // Inspection fields come from the active revision of the scanned lot's part
+  const lotPart = scannedLot ? getPartByNumber(scannedLot.partNumber) : undefined
+  const activeRevision = lotPart ? getActiveRevision(lotPart.id) : undefined
+  const inspectionFields = useMemo(() => activeRevision?.fields ?? [], [activeRevision])
+  const inspection = useDynamicInspection(inspectionFields)
+  const resetInspection = inspection.reset
+  const updateInspectionValues = inspection.updateValues
 
-  /**
-   * Updates an inspection spec with a new actual value
-   */
-  const handleUpdateSpec = useCallback((id: number, actual: number | null) => {
-    setInspectionSpecs((prev) =>
-      prev.map((spec) => {
-        if (spec.id !== id) return spec
-        if (actual === null) return { ...spec, actual: null, status: "pending" as const }
-        const status = actual >= spec.min && actual <= spec.max ? ("pass" as const) : ("fail" as const)
-        return { ...spec, actual, status }
+  // Local form state for operator view (null = not entered yet)
+  const [finishQty, setFinishQty] = useState<number | null>(null)
+  const [scrapQty, setScrapQty] = useState<number | null>(null)
+  const [selectedDefect, setSelectedDefect] = useState("")
+  const [operatorName, setOperatorName] = useState("")
+  const [attempts, setAttempts] = useState<InspectionRecord[]>([])
+
+  // Load the scanned lot's attempts and the readings already on record (entered at
+  // any kiosk); the lot's status (scannedLot.status) drives what each role can do with it
+  const scannedLotNumber = scannedLot?.lotNumber
+  const reportedProduction = scannedLot?.production
+  useEffect(() => {
+    resetInspection()
+    setAttempts([])
+    if (!scannedLotNumber) return
+
+    let cancelled = false
+    getInspectionAttempts(scannedLotNumber)
+      .then((records) => {
+        if (!cancelled) setAttempts(records)
+      })
+      .catch((error) => console.error("Error loading inspection attempts:", error))
+    getInspectionValues(scannedLotNumber)
+      .then((values) => {
+        if (!cancelled) updateInspectionValues(values)
       })
-    )
+      .catch((error) => console.error("Error loading inspection readings:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [scannedLotNumber, resetInspection, updateInspectionValues])
+
+  // Show what the operator already reported for the lot; an unreported lot starts
+  // with empty quantities (the operator's name carries over to their next lot)
+  useEffect(() => {
+    setFinishQty(reportedProduction?.finishQty ?? null)
+    setScrapQty(reportedProduction?.scrapQty ?? null)
+    setSelectedDefect(reportedProduction?.defectCode ?? "")
+    if (reportedProduction) setOperatorName(reportedProduction.operatorName)
+  }, [scannedLotNumber, reportedProduction])
+
+  const handleAttemptRecorded = useCallback((record: InspectionRecord) => {
+    setAttempts((prev) => [...prev, record])
   }, [])
 
   /**
@@ -94,8 +128,8 @@ function DashboardContent() {
   /**
    * Handle authentication attempt
    */
-  const handleAuthenticate = useCallback((pin: string, role: Role) => {
-    const result = authenticate(pin, role)
+  const handleAuthenticate = useCallback(async (pin: string, role: Role) => {
+    const result = await authenticate(pin, role)
     if (result.success) {
       toast.success(`Autenticado como ${roleConfig[role].label}`, {
         description: "Acceso concedido al sistema.",
@@ -114,16 +148,16 @@ function DashboardContent() {
   const handleEndShift = useCallback(() => {
     endShift()
     // Reset local state
-    setInspectionSpecs(INITIAL_SPECS)
-    setLotReleased(false)
-    setLotRejected(false)
-    setFinishQty(3280)
-    setScrapQty(20)
-    setSelectedDefect("Z03")
+    resetInspection()
+    setAttempts([])
+    setFinishQty(null)
+    setScrapQty(null)
+    setSelectedDefect("")
+    setOperatorName("")
     toast.info("Turno Finalizado", {
       description: "Sistema reiniciado. Escanee un nuevo lote para continuar.",
     })
-  }, [endShift])
+  }, [endShift, resetInspection])
 
   const config = roleConfig[currentRole]
   const Icon = config.icon
@@ -179,21 +213,28 @@ function DashboardContent() {
                 setScrapQty={setScrapQty}
                 selectedDefect={selectedDefect}
                 setSelectedDefect={setSelectedDefect}
-                inspectionSpecs={inspectionSpecs}
+                operatorName={operatorName}
+                setOperatorName={setOperatorName}
+                inspectionFields={inspectionFields}
+                inspectionValues={inspection.values}
               />
             )}
 
-            {currentRole === "inspector" && (
+            {currentRole === "inspector" && scannedLot && (
               <InspectorView
-                finishQty={finishQty}
-                scrapQty={scrapQty}
+                finishQty={finishQty ?? 0}
+                scrapQty={scrapQty ?? 0}
                 selectedDefect={selectedDefect}
-                inspectionSpecs={inspectionSpecs}
-                onUpdateSpec={handleUpdateSpec}
-                lotReleased={lotReleased}
-                setLotReleased={setLotReleased}
-                lotRejected={lotRejected}
-                setLotRejected={setLotRejected}
+                operatorName={operatorName}
+                lot={scannedLot}
+                part={lotPart}
+                activeRevision={activeRevision}
+                isPartConfigLoading={isPartConfigLoading}
+                inspectionFields={inspectionFields}
+                inspectionValues={inspection.values}
+                onValuesChange={inspection.updateValues}
+                attempts={attempts}
+                onAttemptRecorded={handleAttemptRecorded}
                 isReadOnly={isInspectionReadOnly}
               />
             )}
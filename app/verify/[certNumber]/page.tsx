@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Certificate verification page.
+ * Opened from the QR code on a printed certificate: recomputes the content hash
+ * from the stored record and compares it with the hash printed on the paper copy.
+ * @module app/verify/[certNumber]/page
+ */
+
+import type { Metadata } from "next"
+import type { LucideIcon } from "lucide-react"
+import { ShieldCheck, ShieldAlert, ShieldQuestion, ShieldX } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { findCertificate } from "@/lib/db/repositories/certificates"
+import { computeCertificateHash } from "@/lib/certificateHash"
+import { cn } from "@/lib/utils"
+import type { CertificateRecord } from "@/lib/data"
+
+export const metadata: Metadata = {
+  title: "Certificate Verification | RBC Quality Control",
+}
+
+// ==========================================
+// VERIFICATION
+// ==========================================
+
+type VerificationStatus = "authentic" | "mismatch" | "record-altered" | "no-code" | "legacy" | "not-found"
+
+interface StatusInfo {
+  title: string
+  description: string
+  tone: "success" | "warning" | "destructive"
+  icon: LucideIcon
+}
+
+const STATUS_INFO: Record<VerificationStatus, StatusInfo> = {
+  authentic: {
+    title: "Authentic certificate",
+    description: "The printed copy matches the certificate issued by the system.",
+    tone: "success",
+    icon: ShieldCheck,
+  },
+  mismatch: {
+    title: "Copy does not match",
+    description: "The verification code on this copy differs from the issued certificate. The document may have been altered.",
+    tone: "destructive",
+    icon: ShieldX,
+  },
+  "record-altered": {
+    title: "Record integrity failure",
+    description: "The stored certificate no longer matches the hash assigned at issue. Contact Quality.",
+    tone: "destructive",
+    icon: ShieldX,
+  },
+  "no-code": {
+    title: "No verification code supplied",
+    description: "Scan the QR code on the certificate, or compare the details below with the paper copy.",
+    tone: "warning",
+    icon: ShieldAlert,
+  },
+  legacy: {
+    title: "Issued without verification code",
+    description: "This certificate predates QR verification. Compare the details below with the paper copy.",
+    tone: "warning",
+    icon: ShieldAlert,
+  },
+  "not-found": {
+    title: "Certificate not found",
+    description: "No certificate with this number was issued by the system.",
+    tone: "destructive",
+    icon: ShieldQuestion,
+  },
+}
+
+function verify(record: CertificateRecord | undefined, printedHash?: string): VerificationStatus {
+  if (!record) return "not-found"
+  if (!record.data.verificationHash) return "legacy"
+  if (computeCertificateHash(record.data) !== record.data.verificationHash) return "record-altered"
+  if (!printedHash) return "no-code"
+  return printedHash === record.data.verificationHash ? "authentic" : "mismatch"
+}
+
+// ==========================================
+// PAGE
+// ==========================================
+
+export default async function VerifyCertificatePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ certNumber: string }>
+  searchParams: Promise<{ h?: string }>
+}) {
+  const { certNumber } = await params
+  const { h } = await searchParams
+
+  const record = findCertificate(certNumber.trim().toUpperCase())
+  const status = verify(record, h?.trim().toLowerCase())
+  const info = STATUS_INFO[status]
+  const Icon = info.icon
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-lg border-border bg-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-semibold text-muted-foreground">
+            Certificate Verification
+          </CardTitle>
+          <CardDescription className="font-mono text-lg font-bold text-foreground">
+            {certNumber.toUpperCase()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div
+            className={cn(
+              "flex items-start gap-3 rounded-lg border p-4",
+              info.tone === "success" && "border-success/30 bg-success/10 text-success",
+              info.tone === "warning" && "border-amber-500/30 bg-amber-500/10 text-amber-600",
+              info.tone === "destructive" && "border-destructive/30 bg-destructive/10 text-destructive"
+            )}
+          >
+            <Icon className="h-6 w-6 shrink-0" />
+            <div>
+              <p className="font-semibold">{info.title}</p>
+              <p className="text-sm opacity-90">{info.description}</p>
+            </div>
+          </div>
+
+          {record && (
+            <div className="grid grid-cols-2 gap-3 rounded-lg border border-border bg-muted/30 p-4 text-xs">
+              <div>
+                <p className="text-muted-foreground">Customer</p>
+                <p className="font-medium text-foreground">{record.data.customer}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Part Number / Rev</p>
+                <p className="font-mono font-semibold text-foreground">
+                  {record.data.partNumber} Rev {record.data.revision}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Lot</p>
+                <p className="font-mono font-semibold text-foreground">{record.lotNumber}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Quantity</p>
+                <p className="font-mono font-semibold text-foreground">{record.data.quantity.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Quality Inspector</p>
+                <p className="font-medium text-foreground">{record.inspector}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Issued</p>
+                <p className="font-medium text-foreground">{new Date(record.issuedAt).toLocaleString()}</p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
@@ -27,8 +27,8 @@ interface AuthModalProps {
     onClose: () => void
     /** Target role to authenticate for */
     targetRole: Role
-    /** Callback when authentication succeeds */
-    onSuccess: (pin: string) => void
+    /** Callback with the entered PIN; the server validates it */
+    onSuccess: (pin: string) => Promise<void>
 }
 
 const ROLE_CONFIG: Record<Role, { label: string; color: string }> = {
@@ -80,11 +80,12 @@ export function AuthModal({ isOpen, onClose, targetRole, onSuccess }: AuthModalP
         setIsLoading(true)
         setError(null)
 
-        // Simulate auth delay
-        await new Promise(resolve => setTimeout(resolve, 500))
-
-        // Pass PIN to parent for validation
-        onSuccess(pin)
+        // Pass PIN to parent for validation; a refused PIN leaves the modal open to retry
+        try {
+            await onSuccess(pin)
+        } finally {
+            setIsLoading(false)
+        }
     }
 
     /**
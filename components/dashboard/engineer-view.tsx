@@ -1,12 +1,12 @@
 /**
  * @fileoverview Engineering Manager dashboard view.
- * Provides UI for Part Configuration, Versioning, and Blueprint Management.
+ * Provides UI for Part Configuration, Versioning, Blueprint and Certificate Template Management.
  * @module components/dashboard/engineer-view
  */
 
 "use client"
 
-import React, { useState, useCallback } from "react"
+import React, { useState, useCallback, useEffect } from "react"
 import {
     Settings2,
     Plus,
@@ -56,12 +56,337 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { toast } from "sonner"
 import { cn } from "@/lib/utils"
 import { usePartConfig } from "@/context/PartConfigContext"
-import type { PartConfig, FieldDefinition, FieldType } from "@/lib/data"
+import { CertificateTemplateManager } from "@/components/features/quality/CertificateTemplateManager"
+import { NcrTracker } from "@/components/features/quality/NcrTracker"
+import { ESignatureFields } from "@/components/features/quality/ESignatureFields"
+import { listCertificateTemplates } from "@/lib/actions/certificateTemplates"
+import { DEFAULT_CERTIFICATE_TEMPLATE_KEY } from "@/lib/data"
+import type {
+    PartConfig,
+    FieldDefinition,
+    FieldType,
+    CertificateTemplate,
+    SamplingPlan,
+    GeometricCharacteristic,
+    ToleranceSpec,
+} from "@/lib/data"
+import { AQL_LEVELS, type AqlLevel } from "@/lib/sampling"
+import { GEOMETRIC_CHARACTERISTICS, getToleranceLimits, roundLimit } from "@/lib/tolerance"
+import { DEFAULT_PRECISION, MEASUREMENT_UNITS, MEASUREMENT_UNIT_LABELS, type MeasurementUnit } from "@/lib/units"
 
 // ==========================================
 // FIELD EDITOR COMPONENT
 // ==========================================
 
+const DEFAULT_SAMPLING_PLANS: Record<SamplingPlan["type"], SamplingPlan> = {
+    fixed: { type: "fixed", sampleSize: 5, acceptNumber: 0 },
+    aql: { type: "aql", aql: 1.0 },
+}
+
+interface SamplingPlanEditorProps {
+    plan?: SamplingPlan
+    onChange: (plan: SamplingPlan | undefined) => void
+}
+
+function SamplingPlanEditor({ plan, onChange }: SamplingPlanEditorProps) {
+    return (
+        <>
+            <div>
+                <Label className="text-xs text-muted-foreground">Sampling</Label>
+                <Select
+                    value={plan?.type ?? "single"}
+                    onValueChange={(value) => onChange(value === "single" ? undefined : DEFAULT_SAMPLING_PLANS[value as SamplingPlan["type"]])}
+                >
+                    <SelectTrigger className="h-8 text-sm">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="single">Single reading</SelectItem>
+                        <SelectItem value="fixed">Fixed sample (n)</SelectItem>
+                        <SelectItem value="aql">ANSI Z1.4 AQL</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+            {plan?.type === "fixed" && (
+                <>
+                    <div>
+                        <Label className="text-xs text-muted-foreground">Pieces (n)</Label>
+                        <Input
+                            type="number"
+                            min={1}
+                            value={plan.sampleSize}
+                            onChange={(e) => onChange({ ...plan, sampleSize: Math.max(1, parseInt(e.target.value) || 1) })}
+                            className="h-8 text-sm font-mono"
+                        />
+                    </div>
+                    <div>
+                        <Label className="text-xs text-muted-foreground">Accept (Ac)</Label>
+                        <Input
+                            type="number"
+                            min={0}
+                            value={plan.acceptNumber}
+                            onChange={(e) => onChange({ ...plan, acceptNumber: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className="h-8 text-sm font-mono"
+                        />
+                    </div>
+                </>
+            )}
+            {plan?.type === "aql" && (
+                <div>
+                    <Label className="text-xs text-muted-foreground">AQL (Level II)</Label>
+                    <Select
+                        value={String(plan.aql)}
+                        onValueChange={(value) => onChange({ type: "aql", aql: Number(value) as AqlLevel })}
+                    >
+                        <SelectTrigger className="h-8 text-sm font-mono">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {AQL_LEVELS.map((level) => (
+                                <SelectItem key={level} value={String(level)} className="font-mono">{level}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            )}
+        </>
+    )
+}
+
+type ToleranceStyle = ToleranceSpec["style"] | "limits"
+
+const TOLERANCE_STYLE_LABELS: Record<ToleranceStyle, string> = {
+    limits: "Min / Max limits",
+    bilateral: "Nominal ± tolerance",
+    unilateral: "Unilateral",
+    max_only: "Max only / GD&T",
+    min_only: "Min only",
+}
+
+/**
+ * Field changes for a new tolerance style, carrying over the current limits
+ * (0.47 - 0.53 becomes 0.5 ± 0.03)
+ */
+function changeToleranceStyle(field: FieldDefinition, style: ToleranceStyle): Partial<FieldDefinition> {
+    const { min, max } = getToleranceLimits(field)
+    if (style === "limits") return { tolerance: undefined, min, max }
+
+    let tolerance: ToleranceSpec
+    switch (style) {
+        case "bilateral": {
+            const nominal = min !== undefined && max !== undefined ? roundLimit((min + max) / 2) : min ?? max ?? 0
+            const half = min !== undefined && max !== undefined ? roundLimit((max - min) / 2) : 0
+            tolerance = { style, nominal, plus: half, minus: half }
+            break
+        }
+        case "unilateral":
+            tolerance = {
+                style,
+                nominal: min ?? max ?? 0,
+                tolerance: min !== undefined && max !== undefined ? roundLimit(max - min) : 0,
+                direction: "plus",
+            }
+            break
+        case "max_only":
+            tolerance = { style, max: max ?? 0 }
+            break
+        case "min_only":
+            tolerance = { style, min: min ?? 0 }
+            break
+    }
+    return { tolerance, min: undefined, max: undefined }
+}
+
+interface ToleranceInputProps {
+    label: string
+    value: number | undefined
+    onChange: (value: number | undefined) => void
+}
+
+function ToleranceInput({ label, value, onChange }: ToleranceInputProps) {
+    return (
+        <div>
+            <Label className="text-xs text-muted-foreground">{label}</Label>
+            <Input
+                type="number"
+                step="0.001"
+                value={value ?? ""}
+                onChange={(e) => onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                className="h-8 text-sm font-mono"
+                placeholder="0.00"
+            />
+        </div>
+    )
+}
+
+interface ToleranceEditorProps {
+    field: FieldDefinition
+    onUpdate: (updates: Partial<FieldDefinition>) => void
+}
+
+function ToleranceEditor({ field, onUpdate }: ToleranceEditorProps) {
+    const tolerance = field.tolerance
+    const setTolerance = (spec: ToleranceSpec) => onUpdate({ tolerance: spec })
+
+    return (
+        <>
+            <div>
+                <Label className="text-xs text-muted-foreground">Tolerance</Label>
+                <Select
+                    value={tolerance?.style ?? "limits"}
+                    onValueChange={(value) => onUpdate(changeToleranceStyle(field, value as ToleranceStyle))}
+                >
+                    <SelectTrigger className="h-8 text-sm">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(Object.keys(TOLERANCE_STYLE_LABELS) as ToleranceStyle[]).map((style) => (
+                            <SelectItem key={style} value={style}>{TOLERANCE_STYLE_LABELS[style]}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            {!tolerance && (
+                <>
+                    <ToleranceInput label="Min" value={field.min} onChange={(min) => onUpdate({ min })} />
+                    <ToleranceInput label="Max" value={field.max} onChange={(max) => onUpdate({ max })} />
+                </>
+            )}
+            {tolerance?.style === "bilateral" && (
+                <>
+                    <ToleranceInput
+                        label="Nominal"
+                        value={tolerance.nominal}
+                        onChange={(nominal) => setTolerance({ ...tolerance, nominal: nominal ?? 0 })}
+                    />
+                    <ToleranceInput
+                        label="+ Tolerance"
+                        value={tolerance.plus}
+                        onChange={(plus) => setTolerance({ ...tolerance, plus: Math.abs(plus ?? 0) })}
+                    />
+                    <ToleranceInput
+                        label="- Tolerance"
+                        value={tolerance.minus}
+                        onChange={(minus) => setTolerance({ ...tolerance, minus: Math.abs(minus ?? 0) })}
+                    />
+                </>
+            )}
+            {tolerance?.style === "unilateral" && (
+                <>
+                    <ToleranceInput
+                        label="Nominal"
+                        value={tolerance.nominal}
+                        onChange={(nominal) => setTolerance({ ...tolerance, nominal: nominal ?? 0 })}
+                    />
+                    <ToleranceInput
+                        label="Tolerance"
+                        value={tolerance.tolerance}
+                        onChange={(value) => setTolerance({ ...tolerance, tolerance: Math.abs(value ?? 0) })}
+                    />
+                    <div>
+                        <Label className="text-xs text-muted-foreground">Direction</Label>
+                        <Select
+                            value={tolerance.direction}
+                            onValueChange={(value) => setTolerance({ ...tolerance, direction: value as "plus" | "minus" })}
+                        >
+                            <SelectTrigger className="h-8 text-sm">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="plus">+tol / -0</SelectItem>
+                                <SelectItem value="minus">+0 / -tol</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </>
+            )}
+            {tolerance?.style === "max_only" && (
+                <>
+                    <ToleranceInput
+                        label="Max"
+                        value={tolerance.max}
+                        onChange={(max) => setTolerance({ ...tolerance, max: max ?? 0 })}
+                    />
+                    <div>
+                        <Label className="text-xs text-muted-foreground">GD&T Characteristic</Label>
+                        <Select
+                            value={tolerance.feature ?? "none"}
+                            onValueChange={(value) => setTolerance({
+                                style: "max_only",
+                                max: tolerance.max,
+                                ...(value !== "none" && { feature: value as GeometricCharacteristic }),
+                            })}
+                        >
+                            <SelectTrigger className="h-8 text-sm">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="none">None (dimension)</SelectItem>
+                                {(Object.keys(GEOMETRIC_CHARACTERISTICS) as GeometricCharacteristic[]).map((feature) => (
+                                    <SelectItem key={feature} value={feature}>
+                                        {GEOMETRIC_CHARACTERISTICS[feature].label}
+                                        <span className="ml-2 font-mono text-muted-foreground">{GEOMETRIC_CHARACTERISTICS[feature].defectCode}</span>
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </>
+            )}
+            {tolerance?.style === "min_only" && (
+                <ToleranceInput
+                    label="Min"
+                    value={tolerance.min}
+                    onChange={(min) => setTolerance({ ...tolerance, min: min ?? 0 })}
+                />
+            )}
+        </>
+    )
+}
+
+interface UnitEditorProps {
+    field: FieldDefinition
+    onUpdate: (updates: Partial<FieldDefinition>) => void
+}
+
+function UnitEditor({ field, onUpdate }: UnitEditorProps) {
+    return (
+        <>
+            <div>
+                <Label className="text-xs text-muted-foreground">Unit</Label>
+                <Select
+                    value={field.unit ?? "none"}
+                    onValueChange={(value) => onUpdate({ unit: value === "none" ? undefined : value as MeasurementUnit })}
+                >
+                    <SelectTrigger className="h-8 text-sm">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="none">None (not converted)</SelectItem>
+                        {MEASUREMENT_UNITS.map((unit) => (
+                            <SelectItem key={unit} value={unit}>{MEASUREMENT_UNIT_LABELS[unit]}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div>
+                <Label className="text-xs text-muted-foreground">Decimals</Label>
+                <Input
+                    type="number"
+                    min={0}
+                    max={6}
+                    value={field.precision ?? ""}
+                    onChange={(e) => onUpdate({
+                        precision: e.target.value ? Math.min(6, Math.max(0, parseInt(e.target.value) || 0)) : undefined,
+                    })}
+                    className="h-8 text-sm font-mono"
+                    placeholder={String(DEFAULT_PRECISION)}
+                />
+            </div>
+        </>
+    )
+}
+
 interface FieldEditorProps {
     field: FieldDefinition
     onUpdate: (updates: Partial<FieldDefinition>) => void
@@ -103,28 +428,12 @@ function FieldEditor({ field, onUpdate, onRemove, index }: FieldEditorProps) {
                 </div>
                 {field.type === "numeric" && (
                     <>
-                        <div>
-                            <Label className="text-xs text-muted-foreground">Min</Label>
-                            <Input
-                                type="number"
-                                step="0.001"
-                                value={field.min ?? ""}
-                                onChange={(e) => onUpdate({ min: e.target.value ? parseFloat(e.target.value) : undefined })}
-                                className="h-8 text-sm font-mono"
-                                placeholder="0.00"
-                            />
-                        </div>
-                        <div>
-                            <Label className="text-xs text-muted-foreground">Max</Label>
-                            <Input
-                                type="number"
-                                step="0.001"
-                                value={field.max ?? ""}
-                                onChange={(e) => onUpdate({ max: e.target.value ? parseFloat(e.target.value) : undefined })}
-                                className="h-8 text-sm font-mono"
-                                placeholder="0.00"
-                            />
-                        </div>
+                        <ToleranceEditor field={field} onUpdate={onUpdate} />
+                        <UnitEditor field={field} onUpdate={onUpdate} />
+                        <SamplingPlanEditor
+                            plan={field.sampling}
+                            onChange={(sampling) => onUpdate({ sampling })}
+                        />
                     </>
                 )}
                 {field.type === "select" && (
@@ -168,6 +477,40 @@ function FieldEditor({ field, onUpdate, onRemove, index }: FieldEditorProps) {
     )
 }
 
+// ==========================================
+// CERTIFICATE TEMPLATE SELECT
+// ==========================================
+
+interface CertificateTemplateSelectProps {
+    templates: CertificateTemplate[]
+    value: string
+    onChange: (key: string) => void
+}
+
+function CertificateTemplateSelect({ templates, value, onChange }: CertificateTemplateSelectProps) {
+    // One option per key, labelled with its latest version
+    const latestByKey = new Map<string, CertificateTemplate>()
+    for (const template of templates) {
+        const current = latestByKey.get(template.key)
+        if (!current || template.version > current.version) latestByKey.set(template.key, template)
+    }
+
+    return (
+        <Select value={value} onValueChange={onChange}>
+            <SelectTrigger>
+                <SelectValue placeholder="Select template" />
+            </SelectTrigger>
+            <SelectContent>
+                {[...latestByKey.values()].map((template) => (
+                    <SelectItem key={template.key} value={template.key}>
+                        {template.name} ({template.certPrefix})
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+}
+
 // ==========================================
 // MAIN COMPONENT
 // ==========================================
@@ -182,18 +525,30 @@ export function EngineerView() {
     const [showRevisionDialog, setShowRevisionDialog] = useState(false)
     const [showHistoryDialog, setShowHistoryDialog] = useState(false)
     const [revisionNote, setRevisionNote] = useState("")
+    const [revisionPin, setRevisionPin] = useState("")
+    const [isPublishing, setIsPublishing] = useState(false)
+    const [templates, setTemplates] = useState<CertificateTemplate[]>([])
 
     // Form state for create/edit
     const [formData, setFormData] = useState<{
         partNumber: string
         name: string
+        certificateTemplateKey: string
         fields: FieldDefinition[]
     }>({
         partNumber: "",
         name: "",
+        certificateTemplateKey: DEFAULT_CERTIFICATE_TEMPLATE_KEY,
         fields: [],
     })
 
+    // Load certificate templates for the part template selector
+    useEffect(() => {
+        listCertificateTemplates()
+            .then(setTemplates)
+            .catch((error) => console.error("Error loading certificate templates:", error))
+    }, [])
+
     // Filter parts by search
     const filteredParts = parts.filter(part =>
         part.partNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -217,16 +572,17 @@ export function EngineerView() {
         createPart({
             partNumber: formData.partNumber.trim(),
             name: formData.name.trim(),
-            currentRevision: "Rev A",
+            currentRevision: "",
+            certificateTemplateKey: formData.certificateTemplateKey,
             fields: formData.fields,
         })
 
         toast.success("Part Created", {
-            description: `${formData.partNumber} has been added successfully.`,
+            description: `${formData.partNumber} has been added. Publish its first revision to release it for inspection.`,
         })
 
         setShowCreateDialog(false)
-        setFormData({ partNumber: "", name: "", fields: [] })
+        setFormData({ partNumber: "", name: "", certificateTemplateKey: DEFAULT_CERTIFICATE_TEMPLATE_KEY, fields: [] })
     }, [formData, createPart])
 
     // Handle save part changes
@@ -236,6 +592,7 @@ export function EngineerView() {
         updatePart(selectedPart.id, {
             partNumber: formData.partNumber,
             name: formData.name,
+            certificateTemplateKey: formData.certificateTemplateKey,
             fields: formData.fields,
         })
 
@@ -244,31 +601,51 @@ export function EngineerView() {
         })
     }, [selectedPart, formData, updatePart])
 
-    // Handle create revision
-    const handleCreateRevision = useCallback(() => {
+    // Handle create revision (e-signed by the approving engineer)
+    const handleCreateRevision = useCallback(async () => {
         if (!selectedPart || !revisionNote.trim()) {
             toast.error("Change note is required")
             return
         }
+        if (!revisionPin) {
+            toast.error("Sign the revision with your PIN")
+            return
+        }
 
         // First save current changes
         updatePart(selectedPart.id, {
             partNumber: formData.partNumber,
             name: formData.name,
+            certificateTemplateKey: formData.certificateTemplateKey,
             fields: formData.fields,
         })
 
-        const newRev = createRevision(selectedPart.id, revisionNote.trim(), "Ing. Sistema")
+        setIsPublishing(true)
+        try {
+            const result = await createRevision(selectedPart.id, revisionNote.trim(), revisionPin)
+            if (!result.success) {
+                toast.error("Revision not published", { description: result.error })
+                setRevisionPin("")
+                return
+            }
+            const newRev = result.revision
 
-        toast.success("New Revision Created", {
-            description: `${formData.partNumber} is now at ${newRev.revision}`,
-        })
+            toast.success("New Revision Created", {
+                description: `${formData.partNumber} is now at ${newRev.revision}, signed by ${result.signature.signerName}`,
+            })
 
-        // Update selected part with new revision
-        setSelectedPart(prev => prev ? { ...prev, currentRevision: newRev.revision } : null)
-        setShowRevisionDialog(false)
-        setRevisionNote("")
-    }, [selectedPart, formData, revisionNote, updatePart, createRevision])
+            // Update selected part with new revision
+            setSelectedPart(prev => prev ? { ...prev, currentRevision: newRev.revision } : null)
+            setShowRevisionDialog(false)
+            setRevisionNote("")
+            setRevisionPin("")
+        } catch (error) {
+            console.error("Error publishing revision:", error)
+            toast.error("Error publishing revision")
+        } finally {
+            setIsPublishing(false)
+        }
+    }, [selectedPart, formData, revisionNote, revisionPin, updatePart, createRevision])
 
     // Handle delete part
     const handleDeletePart = useCallback(() => {
@@ -292,6 +669,7 @@ export function EngineerView() {
         setFormData({
             partNumber: part.partNumber,
             name: part.name,
+            certificateTemplateKey: part.certificateTemplateKey ?? DEFAULT_CERTIFICATE_TEMPLATE_KEY,
             fields: [...part.fields],
         })
     }
@@ -358,7 +736,7 @@ export function EngineerView() {
                             <Button
                                 size="sm"
                                 onClick={() => {
-                                    setFormData({ partNumber: "", name: "", fields: [] })
+                                    setFormData({ partNumber: "", name: "", certificateTemplateKey: DEFAULT_CERTIFICATE_TEMPLATE_KEY, fields: [] })
                                     setShowCreateDialog(true)
                                 }}
                                 className="h-8 gap-1"
@@ -404,7 +782,7 @@ export function EngineerView() {
                                             </div>
                                             <div className="flex items-center gap-2">
                                                 <Badge variant="secondary" className="text-[10px]">
-                                                    {part.currentRevision}
+                                                    {part.currentRevision || "Unpublished"}
                                                 </Badge>
                                                 <Badge variant="outline" className="text-[10px]">
                                                     {part.fields.length} fields
@@ -481,6 +859,14 @@ export function EngineerView() {
                                                     onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
                                                 />
                                             </div>
+                                            <div className="col-span-2">
+                                                <Label>Certificate Template</Label>
+                                                <CertificateTemplateSelect
+                                                    templates={templates}
+                                                    value={formData.certificateTemplateKey}
+                                                    onChange={(key) => setFormData(prev => ({ ...prev, certificateTemplateKey: key }))}
+                                                />
+                                            </div>
                                         </div>
 
                                         {/* Fields */}
@@ -573,6 +959,15 @@ export function EngineerView() {
                 </Card>
             </div>
 
+            {/* Certificate Templates */}
+            <CertificateTemplateManager
+                templates={templates}
+                onTemplateCreated={(template) => setTemplates(prev => [template, ...prev])}
+            />
+
+            {/* Nonconformance Reports / MRB */}
+            <NcrTracker />
+
             {/* Create Part Dialog */}
             <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
                 <DialogContent className="bg-card border-border max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -601,6 +996,14 @@ export function EngineerView() {
                                     placeholder="e.g., Bushing Assembly"
                                 />
                             </div>
+                            <div className="col-span-2">
+                                <Label>Certificate Template</Label>
+                                <CertificateTemplateSelect
+                                    templates={templates}
+                                    value={formData.certificateTemplateKey}
+                                    onChange={(key) => setFormData(prev => ({ ...prev, certificateTemplateKey: key }))}
+                                />
+                            </div>
                         </div>
                         <div className="space-y-3">
                             <div className="flex items-center justify-between">
@@ -664,29 +1067,46 @@ export function EngineerView() {
             </Dialog>
 
             {/* New Revision Dialog */}
-            <Dialog open={showRevisionDialog} onOpenChange={setShowRevisionDialog}>
+            <Dialog
+                open={showRevisionDialog}
+                onOpenChange={(open) => {
+                    setShowRevisionDialog(open)
+                    if (!open) setRevisionPin("")
+                }}
+            >
                 <DialogContent className="bg-card border-border">
                     <DialogHeader>
                         <DialogTitle>Create New Revision</DialogTitle>
                         <DialogDescription>
-                            Save current changes as a new revision. Current revision: {selectedPart?.currentRevision}
+                            Save current changes as a new revision. Current revision: {selectedPart?.currentRevision || "none (unpublished)"}
                         </DialogDescription>
                     </DialogHeader>
-                    <div className="py-4">
-                        <Label>Change Note *</Label>
-                        <Textarea
-                            value={revisionNote}
-                            onChange={(e) => setRevisionNote(e.target.value)}
-                            placeholder="Describe what changed in this revision (e.g., Increased tolerance per ECO-2026-015)"
-                            rows={3}
-                        />
+                    <div className="space-y-4 py-4">
+                        <div>
+                            <Label>Change Note *</Label>
+                            <Textarea
+                                value={revisionNote}
+                                onChange={(e) => setRevisionNote(e.target.value)}
+                                placeholder="Describe what changed in this revision (e.g., Increased tolerance per ECO-2026-015)"
+                                rows={3}
+                            />
+                        </div>
+                        {selectedPart && (
+                            <ESignatureFields
+                                id="revision-pin"
+                                meaning="revision_approval"
+                                subject={`${selectedPart.partNumber} next revision`}
+                                pin={revisionPin}
+                                onPinChange={setRevisionPin}
+                            />
+                        )}
                     </div>
                     <DialogFooter>
-                        <Button variant="outline" onClick={() => setShowRevisionDialog(false)}>
+                        <Button variant="outline" onClick={() => setShowRevisionDialog(false)} disabled={isPublishing}>
                             Cancel
                         </Button>
-                        <Button onClick={handleCreateRevision}>
-                            Create Revision
+                        <Button onClick={handleCreateRevision} disabled={isPublishing || !revisionNote.trim() || !revisionPin}>
+                            Sign & Create Revision
                         </Button>
                     </DialogFooter>
                 </DialogContent>
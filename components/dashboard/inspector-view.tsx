@@ -9,19 +9,15 @@ import {
   ShieldX,
   Eye,
   FileDown,
+  Loader2,
+  Play,
+  Truck,
 } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
 import {
   Dialog,
   DialogContent,
@@ -31,21 +27,52 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { toast } from "sonner"
-import { cn } from "@/lib/utils"
-import type { InspectionSpec } from "@/lib/data"
-import { useState } from "react"
-import { generateCertificatePDF, DEMO_CERTIFICATE_DATA } from "@/lib/pdf/CertificatePDFGenerator"
+import type {
+  FieldDefinition,
+  InspectionRecord,
+  InspectionValue,
+  InspectionVerdict,
+  LotInfo,
+  LotStatus,
+  PartConfig,
+  PartRevision,
+} from "@/lib/data"
+import { useEffect, useState } from "react"
+import { DynamicInspectionForm } from "@/components/features/quality/DynamicInspectionForm"
+import { ESignatureFields } from "@/components/features/quality/ESignatureFields"
+import { InspectionAttemptHistory } from "@/components/features/quality/InspectionAttemptHistory"
+import { summarizeInspection } from "@/lib/inspection"
+import { generateCertificatePDF } from "@/lib/pdf/CertificatePDFGenerator"
+import { buildFPIReportData, generateFPIReportPDF } from "@/lib/pdf/FPIReportPDFGenerator"
+import { recordInspectionResult, recordInspectionValues } from "@/lib/actions/inspections"
+import { getVerificationBaseUrl } from "@/lib/actions/certificates"
+import { getCertificateTemplate } from "@/lib/actions/certificateTemplates"
+import { transitionLot } from "@/lib/actions/lots"
+import { LOT_STATUS_LABELS, isLotInspectionClosed } from "@/lib/lotLifecycle"
+import { useSession } from "@/context/SessionContext"
 
 interface InspectorViewProps {
   finishQty: number
   scrapQty: number
   selectedDefect: string
-  inspectionSpecs: InspectionSpec[]
-  onUpdateSpec: (id: number, actual: number | null) => void
-  lotReleased: boolean
-  setLotReleased: (v: boolean) => void
-  lotRejected: boolean
-  setLotRejected: (v: boolean) => void
+  /** Operator who reported the production data */
+  operatorName?: string
+  /** Scanned lot under inspection */
+  lot: LotInfo
+  /** Part configuration for the lot's part number */
+  part?: PartConfig
+  /** Active revision of the part (undefined = part not configured) */
+  activeRevision?: PartRevision
+  /** Whether part configurations are still loading */
+  isPartConfigLoading?: boolean
+  /** Inspection fields from the part's active revision */
+  inspectionFields: FieldDefinition[]
+  inspectionValues: InspectionValue[]
+  onValuesChange: (values: InspectionValue[]) => void
+  /** Previous and current inspection attempts of the lot, oldest first */
+  attempts: InspectionRecord[]
+  /** Called with the stored attempt once a verdict is recorded */
+  onAttemptRecorded: (record: InspectionRecord) => void
   /** If true, inspection inputs are read-only (RBAC enforcement) */
   isReadOnly?: boolean
 }
@@ -54,48 +81,177 @@ export function InspectorView({
   finishQty,
   scrapQty,
   selectedDefect,
-  inspectionSpecs,
-  onUpdateSpec,
-  lotReleased,
-  setLotReleased,
-  lotRejected,
-  setLotRejected,
+  operatorName,
+  lot,
+  part,
+  activeRevision,
+  isPartConfigLoading = false,
+  inspectionFields,
+  inspectionValues,
+  onValuesChange,
+  attempts,
+  onAttemptRecorded,
   isReadOnly = false,
 }: InspectorViewProps) {
   const [confirmDialog, setConfirmDialog] = useState<"approve" | "reject" | null>(null)
+  const [signaturePin, setSignaturePin] = useState("")
+  const [includeResults, setIncludeResults] = useState(false)
+  const [ncrNumber, setNcrNumber] = useState<string | null>(null)
+  const [isTransitioning, setIsTransitioning] = useState(false)
+  // Readings changed here and not yet on record (null = nothing to save)
+  const [unsavedValues, setUnsavedValues] = useState<InspectionValue[] | null>(null)
+  const { updateScannedLot, entryUnit } = useSession()
+
+  const { hasFailures, allInspected } = summarizeInspection(inspectionFields, inspectionValues)
+  const partNumber = lot.partNumber
+  const revision = activeRevision?.revision
+  const isPartConfigured = revision !== undefined && inspectionFields.length > 0
+  const isInspectionClosed = isLotInspectionClosed(lot.status)
+  const latestAttempt = attempts.at(-1)
+  // The attempt being inspected, or the one that decided the verdict
+  const hasVerdict = !["scanned", "production_reported", "in_inspection", "reworked"].includes(lot.status)
+  const currentAttempt = hasVerdict ? latestAttempt?.attempt ?? 1 : attempts.length + 1
+
+  /**
+   * Puts the readings on record so another kiosk that scans the lot resumes from them.
+   * Returns false if the server refused them.
+   */
+  async function saveReadings(values: InspectionValue[]) {
+    try {
+      const result = await recordInspectionValues(lot.lotNumber, values)
+      if (!result.success) {
+        toast.error("Readings not saved", { description: result.error })
+      }
+      return result.success
+    } catch (error) {
+      console.error("Error saving readings:", error)
+      toast.error("Error saving readings")
+      return false
+    }
+  }
+
+  function handleValuesChange(values: InspectionValue[]) {
+    onValuesChange(values)
+    setUnsavedValues(values)
+  }
+
+  // Save the readings once typing pauses
+  useEffect(() => {
+    if (!unsavedValues) return
+    const timer = setTimeout(() => {
+      setUnsavedValues(null)
+      void saveReadings(unsavedValues)
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [unsavedValues])
+
+  /**
+   * Saves readings still waiting on the typing pause before the verdict is signed
+   */
+  async function flushReadings() {
+    if (!unsavedValues) return true
+    setUnsavedValues(null)
+    return saveReadings(unsavedValues)
+  }
+
+  /**
+   * Moves the lot through its lifecycle as the current inspector
+   */
+  async function moveLot(to: LotStatus) {
+    setIsTransitioning(true)
+    try {
+      const result = await transitionLot(lot.lotNumber, to)
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+      updateScannedLot(result.lot)
+      toast.success(`Lot #${lot.lotNumber}: ${LOT_STATUS_LABELS[to]}`)
+    } catch (error) {
+      console.error("Error updating lot:", error)
+      toast.error("Error updating lot status")
+    } finally {
+      setIsTransitioning(false)
+    }
+  }
+
+  /**
+   * Records the verdict as the lot's next attempt (source of the workbook export), e-signed
+   * with the PIN entered in the confirmation dialog. The server builds the record from the
+   * readings on record. Returns null if the signature is refused or the lot cannot take the verdict.
+   */
+  async function recordResult(verdict: InspectionVerdict) {
+    const result = await recordInspectionResult(lot.lotNumber, verdict, signaturePin, includeResults)
+    setSignaturePin("")
+    if (!result.success) {
+      toast.error(`Cannot record ${verdict} verdict`, { description: result.error })
+      return null
+    }
+    onAttemptRecorded(result.record)
+    updateScannedLot(result.lot)
+    return { attempt: result.record, certificate: result.certificate, ncr: result.ncr }
+  }
 
-  const hasFailures = inspectionSpecs.some((s) => s.status === "fail")
-  const allInspected = inspectionSpecs.every((s) => s.actual !== null)
-  const allPass = allInspected && !hasFailures
-  const passCount = inspectionSpecs.filter((s) => s.status === "pass").length
-  const failCount = inspectionSpecs.filter((s) => s.status === "fail").length
+  function closeConfirmDialog() {
+    setConfirmDialog(null)
+    setSignaturePin("")
+  }
 
-  function handleActualChange(id: number, value: string) {
-    const num = value === "" ? null : Number.parseFloat(value)
-    onUpdateSpec(id, num)
+  /**
+   * Prints the internal First Piece Inspection report from the stored (signed) record
+   */
+  function printFPIReport(record: InspectionRecord, certNumber?: string) {
+    generateFPIReportPDF(buildFPIReportData({
+      lot,
+      partName: part?.name,
+      fields: inspectionFields,
+      record,
+      certNumber,
+      operatorName: lot.production?.operatorName,
+    }))
   }
 
-  function handleApprove() {
+  async function handleApprove() {
+    if (!isPartConfigured) {
+      toast.error("Cannot approve: part has no inspection configuration", {
+        description: `Part ${partNumber} must be configured by Engineering before inspection.`,
+      })
+      closeConfirmDialog()
+      return
+    }
     if (hasFailures) {
       toast.error("Cannot approve: there are out-of-tolerance readings", {
         description: "All dimensional inspections must pass before release.",
       })
-      setConfirmDialog(null)
+      closeConfirmDialog()
       return
     }
     if (!allInspected) {
       toast.error("Cannot approve: not all characteristics inspected", {
         description: "Please enter actual readings for all characteristics.",
       })
-      setConfirmDialog(null)
+      closeConfirmDialog()
       return
     }
 
-    // Generate Certificate of Conformance PDF
+    // Sign the release (the server issues the certificate with it), then generate the PDFs
     try {
-      generateCertificatePDF(DEMO_CERTIFICATE_DATA)
-      toast.success("Lot #296039 APPROVED for release", {
-        description: "Certificate of Conformance generated and downloaded.",
+      if (!(await flushReadings())) return
+      const signed = await recordResult("released")
+      // A refused signature keeps the dialog open to retry the PIN
+      if (!signed) return
+      const { attempt, certificate } = signed
+      if (certificate) {
+        const template = certificate.data.templateId
+          ? await getCertificateTemplate(certificate.data.templateId)
+          : null
+        generateCertificatePDF(certificate.data, template ?? undefined, await getVerificationBaseUrl())
+      }
+      printFPIReport(attempt, certificate?.certNumber)
+      toast.success(`Lot #${lot.lotNumber} APPROVED for release on attempt ${attempt.attempt}`, {
+        description: certificate
+          ? `Certificate ${certificate.certNumber} and FPI report generated and downloaded.`
+          : "FPI report generated and downloaded.",
         icon: <FileDown className="h-4 w-4" />,
       })
     } catch (error) {
@@ -104,16 +260,27 @@ export function InspectorView({
       })
     }
 
-    setLotReleased(true)
-    setConfirmDialog(null)
+    closeConfirmDialog()
   }
 
-  function handleReject() {
-    setLotRejected(true)
-    setConfirmDialog(null)
-    toast.error("Lot #296039 REJECTED", {
-      description: "Non-conformance report will be generated.",
-    })
+  async function handleReject() {
+    try {
+      if (!(await flushReadings())) return
+      const signed = await recordResult("rejected")
+      if (!signed) return
+      closeConfirmDialog()
+      const { attempt, ncr } = signed
+      printFPIReport(attempt)
+      setNcrNumber(ncr?.ncrNumber ?? null)
+      toast.error(`Lot #${lot.lotNumber} REJECTED`, {
+        description: ncr && `Nonconformance report ${ncr.ncrNumber} opened.`,
+      })
+    } catch (error) {
+      console.error("Error rejecting lot:", error)
+      toast.error("Error rejecting lot", {
+        description: "Please try again or contact support.",
+      })
+    }
   }
 
   return (
@@ -127,6 +294,9 @@ export function InspectorView({
           </CardTitle>
         </CardHeader>
         <CardContent>
+          <p className="mb-3 text-xs text-muted-foreground">
+            Operator: <span className="font-medium text-foreground">{operatorName || "---"}</span>
+          </p>
           <div className="grid grid-cols-3 gap-4">
             <div className="rounded-lg border border-border bg-muted/30 p-3 text-center">
               <p className="text-xs text-muted-foreground">Finish Qty</p>
@@ -151,106 +321,41 @@ export function InspectorView({
             <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
               <ClipboardCheck className="h-4 w-4 text-primary" />
               First Piece Inspection Report
-            </CardTitle>
-            <div className="flex items-center gap-2">
-              {passCount > 0 && (
-                <Badge className="bg-success/20 text-success border-0 text-[10px]">
-                  {passCount} PASS
-                </Badge>
+              {currentAttempt > 1 && (
+                <Badge className="border-0 bg-warning/15 text-[10px] text-warning">Attempt {currentAttempt}</Badge>
               )}
-              {failCount > 0 && (
-                <Badge className="bg-destructive/20 text-destructive border-0 text-[10px]">
-                  {failCount} FAIL
-                </Badge>
-              )}
-            </div>
+            </CardTitle>
+            {revision && (
+              <Badge variant="secondary" className="text-[10px] bg-secondary text-secondary-foreground">
+                {partNumber} · {revision}
+              </Badge>
+            )}
           </div>
         </CardHeader>
         <CardContent>
-          <div className="overflow-x-auto rounded-lg border border-border">
-            <Table>
-              <TableHeader>
-                <TableRow className="border-border bg-muted/30 hover:bg-muted/30">
-                  <TableHead className="text-xs text-muted-foreground">#</TableHead>
-                  <TableHead className="text-xs text-muted-foreground">Characteristic</TableHead>
-                  <TableHead className="text-xs text-muted-foreground">Tool</TableHead>
-                  <TableHead className="text-xs text-muted-foreground text-right">Min</TableHead>
-                  <TableHead className="text-xs text-muted-foreground text-right">Max</TableHead>
-                  <TableHead className="text-xs text-muted-foreground text-right">Actual Reading</TableHead>
-                  <TableHead className="text-xs text-muted-foreground text-center">Status</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {inspectionSpecs.map((spec) => (
-                  <TableRow
-                    key={spec.id}
-                    className={cn(
-                      "border-border transition-colors",
-                      spec.status === "fail" && "bg-destructive/5",
-                      spec.status === "pass" && "bg-success/5"
-                    )}
-                  >
-                    <TableCell className="font-mono text-muted-foreground">{spec.id}</TableCell>
-                    <TableCell className="font-medium text-foreground">{spec.characteristic}</TableCell>
-                    <TableCell className="text-muted-foreground">{spec.tool}</TableCell>
-                    <TableCell className="text-right font-mono text-muted-foreground">{spec.min}</TableCell>
-                    <TableCell className="text-right font-mono text-muted-foreground">{spec.max}</TableCell>
-                    <TableCell className="text-right">
-                      <Input
-                        type="number"
-                        step="0.01"
-                        value={spec.actual ?? ""}
-                        onChange={(e) => handleActualChange(spec.id, e.target.value)}
-                        disabled={lotReleased || lotRejected || isReadOnly}
-                        placeholder="Enter..."
-                        className={cn(
-                          "h-10 w-24 ml-auto text-right font-mono border-border bg-muted/30 text-foreground placeholder:text-muted-foreground/50",
-                          spec.status === "fail" && "border-destructive bg-destructive/10 text-destructive",
-                          spec.status === "pass" && "border-success bg-success/10 text-success"
-                        )}
-                      />
-                    </TableCell>
-                    <TableCell className="text-center">
-                      {spec.status === "pending" && (
-                        <Badge variant="secondary" className="text-[10px] bg-muted text-muted-foreground">
-                          PENDING
-                        </Badge>
-                      )}
-                      {spec.status === "pass" && (
-                        <div className="flex items-center justify-center gap-1">
-                          <CheckCircle2 className="h-4 w-4 text-success" />
-                          <span className="text-xs font-semibold text-success">PASS</span>
-                        </div>
-                      )}
-                      {spec.status === "fail" && (
-                        <div className="flex items-center justify-center gap-1">
-                          <AlertTriangle className="h-4 w-4 text-destructive" />
-                          <span className="text-xs font-semibold text-destructive">FAIL</span>
-                        </div>
-                      )}
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
-
-          {hasFailures && (
-            <div className="mt-3 flex items-center gap-2 rounded-lg border border-destructive/30 bg-destructive/10 p-3">
-              <XCircle className="h-4 w-4 text-destructive" />
-              <span className="text-xs font-medium text-destructive">
-                OUT OF TOLERANCE detected. Review readings before proceeding.
-              </span>
+          {isPartConfigLoading ? (
+            <div className="flex items-center justify-center gap-2 rounded-lg border border-dashed border-border p-6">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Loading part configuration...</span>
             </div>
-          )}
-
-          {allPass && (
-            <div className="mt-3 flex items-center gap-2 rounded-lg border border-success/30 bg-success/10 p-3">
-              <CheckCircle2 className="h-4 w-4 text-success" />
-              <span className="text-xs font-medium text-success">
-                All characteristics within tolerance. Lot is eligible for release.
+          ) : !isPartConfigured ? (
+            <div className="flex items-center gap-2 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+              <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+              <span className="text-xs font-medium text-destructive">
+                Part {partNumber} has no active inspection configuration. Inspection is BLOCKED until
+                Engineering configures this part.
               </span>
             </div>
+          ) : (
+            <DynamicInspectionForm
+              fields={inspectionFields}
+              values={inspectionValues}
+              onValuesChange={handleValuesChange}
+              isReadOnly={isReadOnly}
+              isLotFinalized={isInspectionClosed}
+              lotSize={lot.qtyRequired}
+              entryUnit={entryUnit}
+            />
           )}
         </CardContent>
       </Card>
@@ -261,25 +366,66 @@ export function InspectorView({
           <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
             <ShieldCheck className="h-4 w-4 text-primary" />
             Final Verdict
+            <Badge variant="secondary" className="ml-auto text-[10px] bg-secondary text-secondary-foreground">
+              {LOT_STATUS_LABELS[lot.status].toUpperCase()}
+            </Badge>
           </CardTitle>
         </CardHeader>
         <CardContent>
-          {lotReleased ? (
+          {lot.status === "released" || lot.status === "shipped" ? (
             <div className="rounded-lg border-2 border-success bg-success/10 p-6 text-center">
               <CheckCircle2 className="mx-auto mb-2 h-12 w-12 text-success" />
-              <h3 className="text-lg font-bold text-success">LOT APPROVED</h3>
-              <p className="text-sm text-success/80">Released for shipment at {new Date().toLocaleTimeString()}</p>
+              <h3 className="text-lg font-bold text-success">
+                {lot.status === "shipped" ? "LOT SHIPPED" : "LOT APPROVED"}
+              </h3>
+              <p className="text-sm text-success/80">
+                Released for shipment at {new Date(latestAttempt?.recordedAt ?? Date.now()).toLocaleTimeString()}
+                {currentAttempt > 1 && ` · passed on attempt ${currentAttempt}`}
+              </p>
+              {lot.status === "released" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => moveLot("shipped")}
+                  disabled={isTransitioning}
+                  className="mt-4 gap-2 border-success/40 text-success"
+                >
+                  <Truck className="h-4 w-4" />
+                  Mark as Shipped
+                </Button>
+              )}
             </div>
-          ) : lotRejected ? (
+          ) : lot.status === "rejected" || lot.status === "on_hold" ? (
             <div className="rounded-lg border-2 border-destructive bg-destructive/10 p-6 text-center">
               <XCircle className="mx-auto mb-2 h-12 w-12 text-destructive" />
               <h3 className="text-lg font-bold text-destructive">LOT REJECTED</h3>
-              <p className="text-sm text-destructive/80">Non-conformance report generated at {new Date().toLocaleTimeString()}</p>
+              <p className="text-sm text-destructive/80">
+                {ncrNumber ? `${ncrNumber} opened` : "Nonconformance report opened"} at{" "}
+                {new Date(latestAttempt?.recordedAt ?? Date.now()).toLocaleTimeString()} · attempt {currentAttempt}. Awaiting MRB disposition.
+              </p>
+            </div>
+          ) : lot.status === "scanned" ? (
+            <div className="flex items-center gap-2 rounded-lg border border-warning/30 bg-warning/10 p-4">
+              <AlertTriangle className="h-4 w-4 shrink-0 text-warning" />
+              <span className="text-xs font-medium text-warning">
+                The operator has not reported production for this lot. Inspection cannot start until the
+                production data is saved.
+              </span>
             </div>
+          ) : lot.status === "production_reported" || lot.status === "reworked" ? (
+            <Button
+              onClick={() => moveLot("in_inspection")}
+              disabled={isTransitioning || isReadOnly}
+              className="h-14 w-full gap-2 text-sm font-bold"
+            >
+              <Play className="h-5 w-5" />
+              {lot.status === "reworked" ? `START RE-INSPECTION (ATTEMPT ${currentAttempt})` : "START INSPECTION"}
+            </Button>
           ) : (
             <div className="grid grid-cols-2 gap-4">
               <Button
                 onClick={() => setConfirmDialog("approve")}
+                disabled={!isPartConfigured}
                 className="h-14 gap-2 bg-success text-sm font-bold text-success-foreground hover:bg-success/90"
               >
                 <ShieldCheck className="h-5 w-5" />
@@ -297,8 +443,11 @@ export function InspectorView({
         </CardContent>
       </Card>
 
+      {/* Previous attempts (lots reopened by an MRB rework disposition) */}
+      <InspectionAttemptHistory attempts={attempts} />
+
       {/* Confirmation Dialog */}
-      <Dialog open={confirmDialog !== null} onOpenChange={() => setConfirmDialog(null)}>
+      <Dialog open={confirmDialog !== null} onOpenChange={closeConfirmDialog}>
         <DialogContent className="bg-card border-border text-foreground">
           <DialogHeader>
             <DialogTitle className="text-foreground">
@@ -306,25 +455,53 @@ export function InspectorView({
             </DialogTitle>
             <DialogDescription className="text-muted-foreground">
               {confirmDialog === "approve"
-                ? "You are about to approve Lot #296039 for release. This action will be logged in the audit trail."
-                : "You are about to reject Lot #296039. A non-conformance report will be generated automatically."}
+                ? `You are about to approve Lot #${lot.lotNumber} for release. This action will be logged in the audit trail.`
+                : `You are about to reject Lot #${lot.lotNumber}. A nonconformance report (NCR) will be opened automatically.`}
             </DialogDescription>
           </DialogHeader>
+          {confirmDialog === "approve" && (
+            <div className="flex items-center gap-2 rounded-lg border border-border bg-muted/30 p-3">
+              <Checkbox
+                id="include-results"
+                checked={includeResults}
+                onCheckedChange={(checked) => setIncludeResults(checked === true)}
+              />
+              <Label htmlFor="include-results" className="text-sm text-foreground">
+                Attach inspection results page to the certificate
+              </Label>
+            </div>
+          )}
+          {confirmDialog !== null && (
+            <ESignatureFields
+              meaning={confirmDialog === "approve" ? "release" : "rejection"}
+              subject={`Lot #${lot.lotNumber}, attempt ${currentAttempt}`}
+              pin={signaturePin}
+              onPinChange={setSignaturePin}
+            />
+          )}
           <DialogFooter className="gap-2">
             <Button
               variant="outline"
-              onClick={() => setConfirmDialog(null)}
+              onClick={closeConfirmDialog}
               className="border-border text-foreground"
             >
               Cancel
             </Button>
             {confirmDialog === "approve" ? (
-              <Button onClick={handleApprove} className="bg-success text-success-foreground hover:bg-success/90">
-                Confirm Approval
+              <Button
+                onClick={handleApprove}
+                disabled={!signaturePin}
+                className="bg-success text-success-foreground hover:bg-success/90"
+              >
+                Sign & Approve
               </Button>
             ) : (
-              <Button onClick={handleReject} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-                Confirm Rejection
+              <Button
+                onClick={handleReject}
+                disabled={!signaturePin}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Sign & Reject
               </Button>
             )}
           </DialogFooter>
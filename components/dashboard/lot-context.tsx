@@ -12,6 +12,7 @@ interface LotContextProps {
 }
 
 const infoItems = [
+  { key: "lotNumber", label: "Lot #", icon: QrCode },
   { key: "partNumber", label: "Part #", icon: Hash },
   { key: "orderNumber", label: "Order #", icon: ClipboardList },
   { key: "lotHeatNumber", label: "Lot (Heat) #", icon: Layers },
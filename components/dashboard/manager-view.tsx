@@ -1,88 +1,196 @@
 "use client"
 
+import { useCallback, useEffect, useState } from "react"
+import { format, parseISO, subDays } from "date-fns"
 import {
   Timer,
   Package,
   TrendingUp,
   AlertTriangle,
-  FileText,
-  ArrowDown,
+  ClipboardList,
 } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { DEFECT_CODES } from "@/lib/data"
+import type { CapaRecord } from "@/lib/data"
+import { CertificateLookup } from "@/components/features/quality/CertificateLookup"
+import { InspectionExport } from "@/components/features/quality/InspectionExport"
+import { NcrTracker } from "@/components/features/quality/NcrTracker"
+import { CapaTracker } from "@/components/features/quality/CapaTracker"
+import { CapaOverdueActions } from "@/components/features/quality/CapaOverdueActions"
+import { AuditTrail } from "@/components/features/quality/AuditTrail"
+import { KpiFilterBar } from "@/components/features/quality/KpiFilterBar"
+import { DefectPareto } from "@/components/features/quality/DefectPareto"
+import { SpcControlChart } from "@/components/features/quality/SpcControlChart"
+import { CapabilityReport } from "@/components/features/quality/CapabilityReport"
+import { getCapas, openCapaFromTrend } from "@/lib/actions/capas"
+import { getKpiReport } from "@/lib/actions/kpi"
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table"
-import { MOCK_KPI, MOCK_AUDIT_LOG, DEFECT_CODES } from "@/lib/data"
+  FPY_TARGET,
+  MANUAL_CYCLE_MINUTES,
+  formatCycleTime,
+  type KpiFilter,
+  type KpiReport,
+} from "@/lib/kpi"
+import { toast } from "sonner"
 import {
   Bar,
-  BarChart,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  Cell,
+  ComposedChart,
+  Line,
 } from "recharts"
 
-const BAR_COLORS = [
-  "hsl(0, 72%, 51%)",
-  "hsl(0, 72%, 58%)",
-  "hsl(38, 92%, 50%)",
-  "hsl(38, 92%, 58%)",
-  "hsl(213, 94%, 52%)",
-  "hsl(213, 94%, 60%)",
-]
+const EMPTY_REPORT: KpiReport = {
+  lotsReleased: 0,
+  avgCycleSeconds: null,
+  firstPassYield: null,
+  firstAttempts: 0,
+  topDefects: [],
+  daily: [],
+  partNumbers: [],
+}
+
+/** Default dashboard range: the last 30 days including today */
+function defaultKpiFilter(): KpiFilter {
+  const today = new Date()
+  return { from: format(subDays(today, 29), "yyyy-MM-dd"), to: format(today, "yyyy-MM-dd") }
+}
 
-const kpiCards = [
-  {
-    label: "Cycle Time Reduction",
-    value: "40m → 5m",
-    subtext: "87.5% reduction",
-    icon: Timer,
-    color: "text-primary",
-    bgColor: "bg-primary/10",
-  },
-  {
-    label: "Lots Released Today",
-    value: String(MOCK_KPI.lotsReleasedToday),
-    subtext: "Avg cycle: " + MOCK_KPI.avgCycleTime,
-    icon: Package,
-    color: "text-success",
-    bgColor: "bg-success/10",
-  },
-  {
-    label: "First Pass Yield",
-    value: MOCK_KPI.firstPassYield,
-    subtext: "Target: 95%",
-    icon: TrendingUp,
-    color: "text-success",
-    bgColor: "bg-success/10",
-  },
-  {
-    label: "Top Defect",
-    value: "Z03",
-    subtext: DEFECT_CODES.find((d) => d.code === "Z03")?.description || "",
-    icon: AlertTriangle,
-    color: "text-destructive",
-    bgColor: "bg-destructive/10",
-  },
-]
+function describeDefect(code: string): string {
+  return DEFECT_CODES.find((d) => d.code === code)?.description || ""
+}
 
-const paretoData = MOCK_KPI.topDefects.map((d) => ({
-  name: d.code,
-  count: d.count,
-  desc: DEFECT_CODES.find((dc) => dc.code === d.code)?.description || "",
-}))
+/**
+ * KPI cards for the computed report
+ */
+function buildKpiCards(report: KpiReport, rangeLabel: string) {
+  const cycleReduction = report.avgCycleSeconds !== null
+    ? 100 - (report.avgCycleSeconds / (MANUAL_CYCLE_MINUTES * 60)) * 100
+    : null
+  const topDefect = report.topDefects[0]
+  const meetsFpyTarget = report.firstPassYield !== null && report.firstPassYield >= FPY_TARGET
+
+  return [
+    {
+      label: "Avg Cycle Time (Scan → Release)",
+      value: report.avgCycleSeconds !== null ? formatCycleTime(report.avgCycleSeconds) : "—",
+      subtext: cycleReduction !== null
+        ? `vs ${MANUAL_CYCLE_MINUTES}m manual · ${cycleReduction.toFixed(1)}% reduction`
+        : "No scanned lots released in range",
+      icon: Timer,
+      color: "text-primary",
+      bgColor: "bg-primary/10",
+    },
+    {
+      label: "Lots Released",
+      value: String(report.lotsReleased),
+      subtext: rangeLabel,
+      icon: Package,
+      color: "text-success",
+      bgColor: "bg-success/10",
+    },
+    {
+      label: "First Pass Yield",
+      value: report.firstPassYield !== null ? `${report.firstPassYield.toFixed(1)}%` : "—",
+      subtext: `Target: ${FPY_TARGET}% · ${report.firstAttempts} first inspections`,
+      icon: TrendingUp,
+      color: meetsFpyTarget ? "text-success" : "text-warning",
+      bgColor: meetsFpyTarget ? "bg-success/10" : "bg-warning/10",
+    },
+    {
+      label: "Top Defect",
+      value: topDefect?.code ?? "None",
+      subtext: topDefect ? `${describeDefect(topDefect.code)} · ${topDefect.count}x` : "No defects recorded",
+      icon: AlertTriangle,
+      color: "text-destructive",
+      bgColor: "bg-destructive/10",
+    },
+  ]
+}
 
 export function ManagerView() {
+  const [capas, setCapas] = useState<CapaRecord[]>([])
+  const [isCapaLoading, setIsCapaLoading] = useState(true)
+  const [selectedCapa, setSelectedCapa] = useState<string | null>(null)
+  const [kpiFilter, setKpiFilter] = useState<KpiFilter>(defaultKpiFilter)
+  const [report, setReport] = useState<KpiReport>(EMPTY_REPORT)
+  const [isKpiLoading, setIsKpiLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsKpiLoading(true)
+    getKpiReport(kpiFilter)
+      .then((result) => {
+        if (!cancelled) setReport(result)
+      })
+      .catch((error) => {
+        console.error("Error loading KPIs:", error)
+        toast.error("Error loading dashboard KPIs")
+      })
+      .finally(() => {
+        if (!cancelled) setIsKpiLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [kpiFilter])
+
+  const rangeLabel = `${format(parseISO(kpiFilter.from), "MMM d")} – ${format(parseISO(kpiFilter.to), "MMM d, yyyy")}`
+  const kpiCards = buildKpiCards(report, rangeLabel)
+  const dailyData = report.daily.map((day) => ({ ...day, label: format(parseISO(day.date), "MM/dd") }))
+
+  useEffect(() => {
+    getCapas()
+      .then(setCapas)
+      .catch((error) => {
+        console.error("Error loading CAPAs:", error)
+        toast.error("Error loading corrective actions")
+      })
+      .finally(() => setIsCapaLoading(false))
+  }, [])
+
+  /**
+   * Adds or replaces a CAPA in the list and shows it in the tracker
+   */
+  const handleCapaChange = useCallback((capa: CapaRecord) => {
+    setCapas((prev) =>
+      prev.some((c) => c.capaNumber === capa.capaNumber)
+        ? prev.map((c) => (c.capaNumber === capa.capaNumber ? capa : c))
+        : [capa, ...prev]
+    )
+    setSelectedCapa(capa.capaNumber)
+  }, [])
+
+  const handleOpenTrendCapa = async (defectCode: string, occurrences: number) => {
+    try {
+      const result = await openCapaFromTrend(defectCode, occurrences)
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+      handleCapaChange(result.capa)
+      toast.success(`${result.capa.capaNumber} opened for ${defectCode}`)
+    } catch (error) {
+      console.error("Error opening CAPA:", error)
+      toast.error("Error opening CAPA")
+    }
+  }
+
   return (
     <div className="space-y-4">
+      {/* KPI Filters */}
+      <KpiFilterBar
+        filter={kpiFilter}
+        onChange={setKpiFilter}
+        partNumbers={report.partNumbers}
+        isLoading={isKpiLoading}
+      />
+
       {/* KPI Cards */}
       <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
         {kpiCards.map((kpi) => {
@@ -106,61 +214,82 @@ export function ManagerView() {
         })}
       </div>
 
+      {/* Daily Trend */}
+      <Card className="border-border bg-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+            <TrendingUp className="h-4 w-4 text-primary" />
+            Daily First Pass Yield &amp; Releases
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={dailyData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+                <CartesianGrid
+                  strokeDasharray="3 3"
+                  stroke="hsl(215, 20%, 20%)"
+                  vertical={false}
+                />
+                <XAxis
+                  dataKey="label"
+                  tick={{ fill: "hsl(215, 15%, 55%)", fontSize: 11 }}
+                  axisLine={{ stroke: "hsl(215, 20%, 20%)" }}
+                  tickLine={false}
+                />
+                <YAxis
+                  yAxisId="count"
+                  allowDecimals={false}
+                  tick={{ fill: "hsl(215, 15%, 55%)", fontSize: 11 }}
+                  axisLine={{ stroke: "hsl(215, 20%, 20%)" }}
+                  tickLine={false}
+                />
+                <YAxis
+                  yAxisId="fpy"
+                  orientation="right"
+                  domain={[0, 100]}
+                  unit="%"
+                  tick={{ fill: "hsl(215, 15%, 55%)", fontSize: 11 }}
+                  axisLine={{ stroke: "hsl(215, 20%, 20%)" }}
+                  tickLine={false}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(215, 25%, 11%)",
+                    border: "1px solid hsl(215, 20%, 20%)",
+                    borderRadius: "8px",
+                    color: "hsl(210, 20%, 92%)",
+                    fontSize: 12,
+                  }}
+                  formatter={(value, name) =>
+                    name === "FPY" ? [`${Number(value).toFixed(1)}%`, name] : [value, name]
+                  }
+                />
+                <Bar
+                  yAxisId="count"
+                  dataKey="released"
+                  name="Released"
+                  fill="hsl(142, 71%, 45%)"
+                  radius={[4, 4, 0, 0]}
+                />
+                <Line
+                  yAxisId="fpy"
+                  dataKey="fpy"
+                  name="FPY"
+                  stroke="hsl(213, 94%, 52%)"
+                  strokeWidth={2}
+                  dot={{ r: 2 }}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
       <div className="grid gap-4 lg:grid-cols-2">
         {/* Pareto Chart */}
-        <Card className="border-border bg-card">
-          <CardHeader className="pb-3">
-            <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
-              <ArrowDown className="h-4 w-4 text-primary" />
-              Pareto of Defects
-              <Badge variant="secondary" className="ml-auto text-[10px] bg-secondary text-secondary-foreground">
-                LAST 30 DAYS
-              </Badge>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="h-64">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={paretoData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
-                  <CartesianGrid
-                    strokeDasharray="3 3"
-                    stroke="hsl(215, 20%, 20%)"
-                    vertical={false}
-                  />
-                  <XAxis
-                    dataKey="name"
-                    tick={{ fill: "hsl(215, 15%, 55%)", fontSize: 11 }}
-                    axisLine={{ stroke: "hsl(215, 20%, 20%)" }}
-                    tickLine={false}
-                  />
-                  <YAxis
-                    tick={{ fill: "hsl(215, 15%, 55%)", fontSize: 11 }}
-                    axisLine={{ stroke: "hsl(215, 20%, 20%)" }}
-                    tickLine={false}
-                  />
-                  <Tooltip
-                    contentStyle={{
-                      backgroundColor: "hsl(215, 25%, 11%)",
-                      border: "1px solid hsl(215, 20%, 20%)",
-                      borderRadius: "8px",
-                      color: "hsl(210, 20%, 92%)",
-                      fontSize: 12,
-                    }}
-                    formatter={(value: number, _name: string, props: { payload: { desc: string } }) => [
-                      `${value} occurrences`,
-                      props.payload.desc,
-                    ]}
-                  />
-                  <Bar dataKey="count" radius={[4, 4, 0, 0]}>
-                    {paretoData.map((_entry, index) => (
-                      <Cell key={`cell-${index}`} fill={BAR_COLORS[index % BAR_COLORS.length]} />
-                    ))}
-                  </Bar>
-                </BarChart>
-              </ResponsiveContainer>
-            </div>
-          </CardContent>
-        </Card>
+        <DefectPareto defects={report.topDefects} filter={kpiFilter} rangeLabel={rangeLabel} />
 
         {/* Top Defects Table */}
         <Card className="border-border bg-card">
@@ -172,10 +301,13 @@ export function ManagerView() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {MOCK_KPI.topDefects.map((defect, idx) => {
-                const maxCount = MOCK_KPI.topDefects[0].count
+              {report.topDefects.length === 0 && (
+                <p className="py-6 text-center text-xs text-muted-foreground">No defects recorded in this range</p>
+              )}
+              {report.topDefects.slice(0, 6).map((defect, idx) => {
+                const maxCount = report.topDefects[0].count
                 const pct = (defect.count / maxCount) * 100
-                const desc = DEFECT_CODES.find((d) => d.code === defect.code)?.description
+                const desc = describeDefect(defect.code)
                 return (
                   <div key={defect.code} className="space-y-1">
                     <div className="flex items-center justify-between">
@@ -186,9 +318,21 @@ export function ManagerView() {
                         <span className="text-xs font-mono font-semibold text-primary">{defect.code}</span>
                         <span className="text-xs text-muted-foreground">{desc}</span>
                       </div>
-                      <Badge variant="secondary" className="text-[10px] font-mono bg-secondary text-secondary-foreground">
-                        {defect.count}
-                      </Badge>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="secondary" className="text-[10px] font-mono bg-secondary text-secondary-foreground">
+                          {defect.count}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleOpenTrendCapa(defect.code, defect.count)}
+                          className="h-6 gap-1 px-2 text-[10px]"
+                          title={`Open an 8D for recurring ${defect.code}`}
+                        >
+                          <ClipboardList className="h-3 w-3" />
+                          8D
+                        </Button>
+                      </div>
                     </div>
                     <div className="ml-7 h-1.5 rounded-full bg-muted">
                       <div
@@ -212,59 +356,35 @@ export function ManagerView() {
         </Card>
       </div>
 
+      {/* SPC */}
+      <SpcControlChart />
+
+      {/* Process Capability */}
+      <CapabilityReport />
+
       {/* Audit Log */}
-      <Card className="border-border bg-card">
-        <CardHeader className="pb-3">
-          <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
-            <FileText className="h-4 w-4 text-primary" />
-            Audit Log
-            <Badge variant="secondary" className="ml-auto text-[10px] bg-secondary text-secondary-foreground">
-              {MOCK_AUDIT_LOG.length} ENTRIES
-            </Badge>
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="overflow-x-auto rounded-lg border border-border">
-            <Table>
-              <TableHeader>
-                <TableRow className="border-border bg-muted/30 hover:bg-muted/30">
-                  <TableHead className="text-xs text-muted-foreground">Timestamp</TableHead>
-                  <TableHead className="text-xs text-muted-foreground">User</TableHead>
-                  <TableHead className="text-xs text-muted-foreground">Role</TableHead>
-                  <TableHead className="text-xs text-muted-foreground">Action</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {MOCK_AUDIT_LOG.map((entry) => (
-                  <TableRow key={entry.id} className="border-border">
-                    <TableCell className="font-mono text-xs text-muted-foreground">
-                      {entry.timestamp}
-                    </TableCell>
-                    <TableCell className="text-xs text-foreground font-medium">
-                      {entry.user}
-                    </TableCell>
-                    <TableCell>
-                      <Badge
-                        variant="secondary"
-                        className={
-                          entry.role === "Operator"
-                            ? "bg-primary/15 text-primary border-0 text-[10px]"
-                            : entry.role === "Inspector"
-                              ? "bg-success/15 text-success border-0 text-[10px]"
-                              : "bg-warning/15 text-warning border-0 text-[10px]"
-                        }
-                      >
-                        {entry.role}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-xs text-foreground">{entry.action}</TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
-        </CardContent>
-      </Card>
+      <AuditTrail />
+
+      {/* Overdue CAPA actions */}
+      <CapaOverdueActions capas={capas} onSelect={setSelectedCapa} />
+
+      {/* Nonconformance Reports */}
+      <NcrTracker onCapaOpened={handleCapaChange} />
+
+      {/* Corrective and Preventive Actions (8D) */}
+      <CapaTracker
+        capas={capas}
+        isLoading={isCapaLoading}
+        onCapaChange={handleCapaChange}
+        selectedCapaNumber={selectedCapa}
+        onSelect={setSelectedCapa}
+      />
+
+      {/* Inspection Records Export */}
+      <InspectionExport />
+
+      {/* Certificate Lookup / Reprint */}
+      <CertificateLookup />
     </div>
   )
 }
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState } from "react"
-import { Package, Trash2, AlertTriangle, Save, Lock } from "lucide-react"
+import { Package, Trash2, AlertTriangle, Save, Lock, Loader2 } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -13,26 +13,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { toast } from "sonner"
-import { DEFECT_CODES, type InspectionSpec } from "@/lib/data"
+import { DEFECT_CODES, type FieldDefinition, type InspectionValue } from "@/lib/data"
+import { DynamicInspectionForm } from "@/components/features/quality/DynamicInspectionForm"
+import { useSession } from "@/context/SessionContext"
+import { reportProduction } from "@/lib/actions/lots"
+import { LOT_STATUS_LABELS, canTransitionLot } from "@/lib/lotLifecycle"
 
 interface OperatorViewProps {
-  finishQty: number
-  setFinishQty: (v: number) => void
-  scrapQty: number
-  setScrapQty: (v: number) => void
+  /** Entered quantities (null = not entered yet) */
+  finishQty: number | null
+  setFinishQty: (v: number | null) => void
+  scrapQty: number | null
+  setScrapQty: (v: number | null) => void
   selectedDefect: string
   setSelectedDefect: (v: string) => void
-  inspectionSpecs: InspectionSpec[]
+  /** Operator who reports the production data (printed on the FPI report) */
+  operatorName: string
+  setOperatorName: (v: string) => void
+  inspectionFields: FieldDefinition[]
+  inspectionValues: InspectionValue[]
 }
 
 export function OperatorView({
@@ -42,19 +43,58 @@ export function OperatorView({
   setScrapQty,
   selectedDefect,
   setSelectedDefect,
-  inspectionSpecs,
+  operatorName,
+  setOperatorName,
+  inspectionFields,
+  inspectionValues,
 }: OperatorViewProps) {
-  const [saved, setSaved] = useState(false)
+  const { scannedLot, updateScannedLot, entryUnit } = useSession()
+  const [isSaving, setIsSaving] = useState(false)
+  // The operator can report (or correct the report) until inspection starts
+  const canReport = scannedLot !== null && canTransitionLot(scannedLot.status, "production_reported")
+  const reportedAt = scannedLot?.production?.reportedAt
 
-  function handleSave() {
-    if (finishQty <= 0) {
-      toast.error("Finish Qty must be greater than 0")
+  async function handleSave() {
+    if (!operatorName.trim()) {
+      toast.error("Operator name is required")
+      return
+    }
+    if (finishQty === null || !Number.isInteger(finishQty) || finishQty <= 0) {
+      toast.error("Finish Qty must be a whole number greater than 0")
+      return
+    }
+    if (scrapQty === null || !Number.isInteger(scrapQty) || scrapQty < 0) {
+      toast.error("Scrap Qty must be a whole number", { description: "Enter 0 if no parts were scrapped." })
+      return
+    }
+    if (scrapQty > 0 && !selectedDefect) {
+      toast.error("Select the defect code of the scrapped parts")
       return
     }
-    setSaved(true)
-    toast.success("Production data saved successfully", {
-      description: `Finish: ${finishQty} | Scrap: ${scrapQty} | Defect: ${selectedDefect || "None"}`,
-    })
+    if (!scannedLot) return
+
+    setIsSaving(true)
+    try {
+      const result = await reportProduction(scannedLot.lotNumber, {
+        finishQty,
+        scrapQty,
+        defectCode: selectedDefect || null,
+        operatorName,
+      })
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+      updateScannedLot(result.lot)
+      toast.success("Production data saved successfully", {
+        description: `Finish: ${finishQty} | Scrap: ${scrapQty} | Defect: ${selectedDefect || "None"}`,
+      })
+    } catch (error) {
+      console.error("Error reporting production:", error)
+      toast.error("Error saving production data")
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   return (
@@ -68,6 +108,18 @@ export function OperatorView({
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="operator-name" className="text-xs text-muted-foreground">
+              Operator Name
+            </Label>
+            <Input
+              id="operator-name"
+              value={operatorName}
+              onChange={(e) => setOperatorName(e.target.value)}
+              placeholder="e.g., Juan Pérez"
+              className="h-12 border-border bg-muted/30 text-foreground placeholder:text-muted-foreground"
+            />
+          </div>
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="finish-qty" className="text-xs text-muted-foreground">
@@ -76,8 +128,10 @@ export function OperatorView({
               <Input
                 id="finish-qty"
                 type="number"
-                value={finishQty || ""}
-                onChange={(e) => setFinishQty(Number(e.target.value))}
+                min={0}
+                step={1}
+                value={finishQty ?? ""}
+                onChange={(e) => setFinishQty(e.target.value === "" ? null : Number(e.target.value))}
                 placeholder="0"
                 className="h-12 border-border bg-muted/30 text-lg font-mono text-foreground placeholder:text-muted-foreground"
               />
@@ -89,19 +143,21 @@ export function OperatorView({
               <Input
                 id="scrap-qty"
                 type="number"
-                value={scrapQty || ""}
-                onChange={(e) => setScrapQty(Number(e.target.value))}
+                min={0}
+                step={1}
+                value={scrapQty ?? ""}
+                onChange={(e) => setScrapQty(e.target.value === "" ? null : Number(e.target.value))}
                 placeholder="0"
                 className="h-12 border-border bg-muted/30 text-lg font-mono text-foreground placeholder:text-muted-foreground"
               />
             </div>
           </div>
 
-          {scrapQty > 0 && (
+          {scrapQty !== null && scrapQty > 0 && (
             <div className="flex items-center gap-2 rounded-lg border border-warning/30 bg-warning/10 p-3">
               <AlertTriangle className="h-4 w-4 text-warning" />
               <span className="text-xs text-warning">
-                Scrap reported: {scrapQty} units ({((scrapQty / (finishQty + scrapQty)) * 100).toFixed(1)}% scrap rate)
+                Scrap reported: {scrapQty} units ({((scrapQty / ((finishQty ?? 0) + scrapQty)) * 100).toFixed(1)}% scrap rate)
               </span>
             </div>
           )}
@@ -146,14 +202,20 @@ export function OperatorView({
 
           <Button
             onClick={handleSave}
+            disabled={!canReport || isSaving}
             className="h-12 w-full gap-2 bg-primary text-sm font-semibold text-primary-foreground hover:bg-primary/90"
           >
-            <Save className="h-4 w-4" />
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
             Save Production Data
           </Button>
 
-          {saved && (
-            <p className="text-center text-xs text-success">Data saved at {new Date().toLocaleTimeString()}</p>
+          {reportedAt && (
+            <p className="text-center text-xs text-success">Data saved at {new Date(reportedAt).toLocaleTimeString()}</p>
+          )}
+          {scannedLot && !canReport && (
+            <p className="text-center text-xs text-muted-foreground">
+              Lot is {LOT_STATUS_LABELS[scannedLot.status]}; production data can no longer be changed.
+            </p>
           )}
         </CardContent>
       </Card>
@@ -170,42 +232,14 @@ export function OperatorView({
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="overflow-x-auto rounded-lg border border-border">
-            <Table>
-              <TableHeader>
-                <TableRow className="border-border bg-muted/30 hover:bg-muted/30">
-                  <TableHead className="text-xs text-muted-foreground">Characteristic</TableHead>
-                  <TableHead className="text-xs text-muted-foreground">Tool</TableHead>
-                  <TableHead className="text-xs text-muted-foreground text-right">Min</TableHead>
-                  <TableHead className="text-xs text-muted-foreground text-right">Max</TableHead>
-                  <TableHead className="text-xs text-muted-foreground text-right">Actual</TableHead>
-                  <TableHead className="text-xs text-muted-foreground text-center">Status</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {inspectionSpecs.map((spec) => (
-                  <TableRow key={spec.id} className="border-border hover:bg-transparent">
-                    <TableCell className="font-medium text-foreground">{spec.characteristic}</TableCell>
-                    <TableCell className="text-muted-foreground">{spec.tool}</TableCell>
-                    <TableCell className="text-right font-mono text-muted-foreground">{spec.min}</TableCell>
-                    <TableCell className="text-right font-mono text-muted-foreground">{spec.max}</TableCell>
-                    <TableCell className="text-right">
-                      <Input
-                        disabled
-                        value={spec.actual ?? ""}
-                        className="h-8 w-20 ml-auto text-right font-mono bg-muted/20 border-border text-muted-foreground cursor-not-allowed"
-                      />
-                    </TableCell>
-                    <TableCell className="text-center">
-                      <Badge variant="secondary" className="text-[10px] bg-muted text-muted-foreground">
-                        LOCKED
-                      </Badge>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
+          <DynamicInspectionForm
+            fields={inspectionFields}
+            values={inspectionValues}
+            onValuesChange={() => {}}
+            isReadOnly
+            lotSize={scannedLot?.qtyRequired}
+            entryUnit={entryUnit}
+          />
         </CardContent>
       </Card>
     </div>
@@ -11,6 +11,7 @@ import { HardHat, ClipboardCheck, BarChart3, Clock, LogOut, User, Settings2 } fr
 import { Button } from "@/components/ui/button"
 import { ThemeToggle } from "@/components/ui/theme-toggle"
 import { AuthModal } from "@/components/auth/AuthModal"
+import { EntryUnitSelect } from "@/components/kiosk/EntryUnitSelect"
 import { cn } from "@/lib/utils"
 import { format } from "date-fns"
 import type { Role } from "@/lib/data"
@@ -33,7 +34,7 @@ interface RoleSwitcherProps {
   /** Callback when role changes */
   onRoleChange: (role: Role) => void
   /** Callback to authenticate for a role */
-  onAuthenticate: (pin: string, role: Role) => { success: boolean; error?: string }
+  onAuthenticate: (pin: string, role: Role) => Promise<{ success: boolean; error?: string }>
   /** Callback when shift ends */
   onEndShift: () => void
   /** Whether a lot is currently scanned */
@@ -98,8 +99,8 @@ export function RoleSwitcher({
   /**
    * Handle successful authentication
    */
-  const handleAuthSuccess = (pin: string) => {
-    const result = onAuthenticate(pin, targetRole)
+  const handleAuthSuccess = async (pin: string) => {
+    const result = await onAuthenticate(pin, targetRole)
     if (result.success) {
       setAuthModalOpen(false)
     }
@@ -192,6 +193,9 @@ export function RoleSwitcher({
               </Button>
             )}
 
+            {/* Kiosk Entry Unit */}
+            <EntryUnitSelect />
+
             {/* Theme Toggle */}
             <ThemeToggle />
           </div>
@@ -0,0 +1,316 @@
+/**
+ * @fileoverview Audit trail table for the manager dashboard.
+ * Reads the persisted audit log page by page, filtered by user, lot and date,
+ * and shows whether the hash chain still verifies.
+ * @module components/features/quality/AuditTrail
+ */
+
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import { format, parseISO } from "date-fns"
+import {
+    ChevronLeft,
+    ChevronRight,
+    Download,
+    FileText,
+    Loader2,
+    RefreshCw,
+    ShieldAlert,
+    ShieldCheck,
+} from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+import { toast } from "sonner"
+import { getAuditLog, verifyAuditLog } from "@/lib/actions/audit"
+import {
+    AUDIT_PAGE_SIZE,
+    AUDIT_ROLE_LABELS,
+    describeAuditValue,
+    type AuditChainStatus,
+    type AuditFilter,
+    type AuditPage,
+} from "@/lib/audit"
+import type { Role } from "@/lib/data"
+
+const ALL_USERS = "all"
+
+const ROLE_BADGE_STYLES: Record<Role, string> = {
+    operator: "bg-primary/15 text-primary",
+    inspector: "bg-success/15 text-success",
+    manager: "bg-warning/15 text-warning",
+    admin_engineer: "bg-warning/15 text-warning",
+}
+
+export function AuditTrail() {
+    const [filter, setFilter] = useState<AuditFilter>({})
+    const [lotInput, setLotInput] = useState("")
+    const [page, setPage] = useState(0)
+    const [data, setData] = useState<AuditPage>({ entries: [], total: 0, users: [] })
+    const [isLoading, setIsLoading] = useState(true)
+    const [chainStatus, setChainStatus] = useState<AuditChainStatus | null>(null)
+    const [isVerifying, setIsVerifying] = useState(false)
+
+    const pageCount = Math.max(1, Math.ceil(data.total / AUDIT_PAGE_SIZE))
+
+    /**
+     * Any filter change starts again from the newest entries
+     */
+    const updateFilter = (updates: AuditFilter) => {
+        setFilter((prev) => ({ ...prev, ...updates }))
+        setPage(0)
+    }
+
+    // Apply the lot filter once typing pauses
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            const lotNumber = lotInput.trim() || undefined
+            setFilter((prev) => (prev.lotNumber === lotNumber ? prev : { ...prev, lotNumber }))
+            setPage(0)
+        }, 300)
+        return () => clearTimeout(timer)
+    }, [lotInput])
+
+    useEffect(() => {
+        let cancelled = false
+        setIsLoading(true)
+        getAuditLog(filter, page)
+            .then((result) => {
+                if (!cancelled) setData(result)
+            })
+            .catch((error) => {
+                console.error("Error loading audit log:", error)
+                toast.error("Error loading audit log")
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [filter, page])
+
+    const handleVerify = useCallback(async () => {
+        setIsVerifying(true)
+        try {
+            setChainStatus(await verifyAuditLog())
+        } catch (error) {
+            console.error("Error verifying audit chain:", error)
+            toast.error("Error verifying audit chain")
+        } finally {
+            setIsVerifying(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        handleVerify()
+    }, [handleVerify])
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                    <FileText className="h-4 w-4 text-primary" />
+                    Audit Log
+                    {isLoading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                    <Badge variant="secondary" className="ml-auto bg-secondary text-[10px] text-secondary-foreground">
+                        {data.total} ENTRIES
+                    </Badge>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {/* Hash chain verification */}
+                <div
+                    className={`flex flex-wrap items-center gap-2 rounded-lg border px-3 py-2 text-xs ${
+                        chainStatus && !chainStatus.intact
+                            ? "border-destructive/40 bg-destructive/10 text-destructive"
+                            : "border-success/30 bg-success/5 text-success"
+                    }`}
+                >
+                    {chainStatus === null ? (
+                        <span className="text-muted-foreground">Verifying hash chain...</span>
+                    ) : chainStatus.intact ? (
+                        <>
+                            <ShieldCheck className="h-4 w-4" />
+                            <span className="font-semibold">CHAIN INTACT</span>
+                            <span className="text-muted-foreground">
+                                {chainStatus.checked} entries verified
+                                {chainStatus.unsealed > 0 && ` · ${chainStatus.unsealed} older entries predate the chain`}
+                            </span>
+                        </>
+                    ) : (
+                        <>
+                            <ShieldAlert className="h-4 w-4" />
+                            <span className="font-semibold">CHAIN BROKEN AT ENTRY {chainStatus.brokenAt}</span>
+                            <span>{chainStatus.reason}</span>
+                        </>
+                    )}
+                    <div className="ml-auto flex gap-2">
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleVerify}
+                            disabled={isVerifying}
+                            className="h-7 gap-1 text-xs"
+                        >
+                            <RefreshCw className={`h-3 w-3 ${isVerifying ? "animate-spin" : ""}`} />
+                            Verify
+                        </Button>
+                        <Button variant="outline" size="sm" asChild className="h-7 gap-1 text-xs">
+                            <a href="/api/exports/audit" download>
+                                <Download className="h-3 w-3" />
+                                Export Chain
+                            </a>
+                        </Button>
+                    </div>
+                </div>
+
+                {/* Filters */}
+                <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+                    <Select
+                        value={filter.user ?? ALL_USERS}
+                        onValueChange={(value) => updateFilter({ user: value === ALL_USERS ? undefined : value })}
+                    >
+                        <SelectTrigger className="h-9 text-xs">
+                            <SelectValue placeholder="All users" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL_USERS}>All users</SelectItem>
+                            {data.users.map((user) => (
+                                <SelectItem key={user} value={user}>{user}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Input
+                        value={lotInput}
+                        onChange={(e) => setLotInput(e.target.value.toUpperCase())}
+                        placeholder="Lot number"
+                        className="h-9 font-mono text-xs"
+                    />
+                    <Input
+                        type="date"
+                        value={filter.from ?? ""}
+                        max={filter.to}
+                        onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+                        className="h-9 text-xs"
+                        aria-label="From date"
+                    />
+                    <Input
+                        type="date"
+                        value={filter.to ?? ""}
+                        min={filter.from}
+                        onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+                        className="h-9 text-xs"
+                        aria-label="To date"
+                    />
+                </div>
+
+                <div className="overflow-x-auto rounded-lg border border-border">
+                    <Table>
+                        <TableHeader>
+                            <TableRow className="border-border bg-muted/30 hover:bg-muted/30">
+                                <TableHead className="text-xs text-muted-foreground">Timestamp</TableHead>
+                                <TableHead className="text-xs text-muted-foreground">User</TableHead>
+                                <TableHead className="text-xs text-muted-foreground">Role</TableHead>
+                                <TableHead className="text-xs text-muted-foreground">Lot</TableHead>
+                                <TableHead className="text-xs text-muted-foreground">Action</TableHead>
+                                <TableHead className="text-xs text-muted-foreground">Before</TableHead>
+                                <TableHead className="text-xs text-muted-foreground">After</TableHead>
+                                <TableHead className="text-xs text-muted-foreground">Hash</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {data.entries.length === 0 ? (
+                                <TableRow className="border-border">
+                                    <TableCell colSpan={8} className="py-6 text-center text-xs text-muted-foreground">
+                                        {isLoading ? "Loading..." : "No audit entries match the filters"}
+                                    </TableCell>
+                                </TableRow>
+                            ) : (
+                                data.entries.map((entry) => (
+                                    <TableRow key={entry.id} className="border-border">
+                                        <TableCell className="whitespace-nowrap font-mono text-xs text-muted-foreground">
+                                            {format(parseISO(entry.timestamp), "yyyy-MM-dd HH:mm:ss")}
+                                        </TableCell>
+                                        <TableCell className="text-xs font-medium text-foreground">{entry.user}</TableCell>
+                                        <TableCell>
+                                            <Badge
+                                                variant="secondary"
+                                                className={`border-0 text-[10px] ${ROLE_BADGE_STYLES[entry.role] ?? ""}`}
+                                            >
+                                                {AUDIT_ROLE_LABELS[entry.role] ?? entry.role}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell className="font-mono text-xs text-foreground">
+                                            {entry.lotNumber ?? "—"}
+                                        </TableCell>
+                                        <TableCell className="text-xs text-foreground">{entry.action}</TableCell>
+                                        <AuditValueCell value={entry.before} />
+                                        <AuditValueCell value={entry.after} />
+                                        <TableCell className="font-mono text-[11px] text-muted-foreground" title={entry.hash}>
+                                            {entry.hash ? entry.hash.slice(0, 8) : "—"}
+                                        </TableCell>
+                                    </TableRow>
+                                ))
+                            )}
+                        </TableBody>
+                    </Table>
+                </div>
+
+                {/* Pagination */}
+                <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+                    <span>Page {page + 1} of {pageCount}</span>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPage((p) => p - 1)}
+                        disabled={page === 0 || isLoading}
+                        className="h-7 w-7 p-0"
+                        aria-label="Previous page"
+                    >
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPage((p) => p + 1)}
+                        disabled={page + 1 >= pageCount || isLoading}
+                        className="h-7 w-7 p-0"
+                        aria-label="Next page"
+                    >
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
+
+/**
+ * Before/after value, truncated with the full text on hover
+ */
+function AuditValueCell({ value }: { value: unknown }) {
+    const text = describeAuditValue(value)
+    return (
+        <TableCell className="max-w-48 truncate font-mono text-[11px] text-muted-foreground" title={text}>
+            {text}
+        </TableCell>
+    )
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Overdue CAPA corrective actions for the manager dashboard.
+ * @module components/features/quality/CapaOverdueActions
+ */
+
+"use client"
+
+import React from "react"
+import { differenceInCalendarDays, parseISO } from "date-fns"
+import { AlarmClock } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { collectOverdueActions } from "@/lib/capa"
+import type { CapaRecord } from "@/lib/data"
+
+interface CapaOverdueActionsProps {
+    capas: CapaRecord[]
+    /** Opens the CAPA in the tracker */
+    onSelect?: (capaNumber: string) => void
+}
+
+export function CapaOverdueActions({ capas, onSelect }: CapaOverdueActionsProps) {
+    const overdue = collectOverdueActions(capas)
+    const today = new Date()
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                    <AlarmClock className="h-4 w-4 text-destructive" />
+                    Overdue Corrective Actions
+                    <Badge
+                        variant="secondary"
+                        className={overdue.length > 0 ? "ml-auto border-0 bg-destructive/15 text-[10px] text-destructive" : "ml-auto text-[10px]"}
+                    >
+                        {overdue.length}
+                    </Badge>
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                {overdue.length === 0 ? (
+                    <p className="py-2 text-center text-xs text-muted-foreground">No overdue actions</p>
+                ) : (
+                    <div className="space-y-1">
+                        {overdue.map(({ capaNumber, title, action }) => (
+                            <button
+                                key={action.id}
+                                onClick={() => onSelect?.(capaNumber)}
+                                className="flex w-full items-center gap-3 rounded border border-destructive/30 bg-destructive/5 px-3 py-2 text-left text-xs transition-colors hover:bg-destructive/10"
+                            >
+                                <span className="font-mono font-semibold text-foreground">{capaNumber}</span>
+                                <span className="min-w-0 flex-1 truncate text-foreground" title={title}>{action.description}</span>
+                                <span className="text-muted-foreground">{action.owner}</span>
+                                <Badge className="border-0 bg-destructive/15 text-[10px] text-destructive">
+                                    {differenceInCalendarDays(today, parseISO(action.dueDate))}d late
+                                </Badge>
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
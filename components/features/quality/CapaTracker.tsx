@@ -0,0 +1,480 @@
+/**
+ * @fileoverview Corrective and Preventive Action (CAPA / 8D) tracker.
+ * Lists CAPAs opened from NCRs or defect trends and edits their 8D record:
+ * team, containment, root cause (5-Why / Ishikawa), corrective actions,
+ * preventive actions and verification of effectiveness.
+ * @module components/features/quality/CapaTracker
+ */
+
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { ClipboardList, ArrowRight, Plus, Save, Trash2, Loader2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+    Accordion,
+    AccordionContent,
+    AccordionItem,
+    AccordionTrigger,
+} from "@/components/ui/accordion"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+import { useSession } from "@/context/SessionContext"
+import { saveCapa, transitionCapa } from "@/lib/actions/capas"
+import {
+    CAPA_STATUS_LABELS,
+    CAPA_TRANSITIONS,
+    FIVE_WHY_STEPS,
+    ISHIKAWA_CATEGORIES,
+    describeCapaSource,
+    isActionOverdue,
+} from "@/lib/capa"
+import type { CapaAction, CapaRecord, CapaStatus, CapaVerification } from "@/lib/data"
+
+// ==========================================
+// STATUS BADGE
+// ==========================================
+
+const STATUS_STYLES: Record<CapaStatus, string> = {
+    open: "bg-destructive/15 text-destructive",
+    in_progress: "bg-warning/15 text-warning",
+    verification: "bg-primary/15 text-primary",
+    closed: "bg-success/15 text-success",
+}
+
+export function CapaStatusBadge({ status }: { status: CapaStatus }) {
+    return (
+        <Badge className={cn("border-0 text-[10px]", STATUS_STYLES[status])}>
+            {CAPA_STATUS_LABELS[status]}
+        </Badge>
+    )
+}
+
+// ==========================================
+// 8D EDITOR
+// ==========================================
+
+const generateActionId = () => `act-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 5)}`
+
+interface CapaEditorProps {
+    capa: CapaRecord
+    onCapaChange: (capa: CapaRecord) => void
+}
+
+function CapaEditor({ capa, onCapaChange }: CapaEditorProps) {
+    const { currentUser } = useSession()
+    const [draft, setDraft] = useState<CapaRecord>(capa)
+    const [teamText, setTeamText] = useState(capa.team.join(", "))
+    const [isSaving, setIsSaving] = useState(false)
+    const isClosed = capa.status === "closed"
+
+    useEffect(() => {
+        setDraft(capa)
+        setTeamText(capa.team.join(", "))
+    }, [capa])
+
+    const update = (patch: Partial<CapaRecord>) => setDraft((prev) => ({ ...prev, ...patch }))
+
+    const updateAction = (id: string, patch: Partial<CapaAction>) =>
+        update({ actions: draft.actions.map((action) => (action.id === id ? { ...action, ...patch } : action)) })
+
+    const updateVerification = (patch: Partial<CapaVerification>) => update({
+        verification: {
+            method: draft.verification?.method ?? "",
+            result: draft.verification?.result ?? "",
+            effective: draft.verification?.effective ?? false,
+            ...patch,
+            verifiedBy: currentUser?.name ?? "Unknown",
+            verifiedAt: new Date().toISOString(),
+        },
+    })
+
+    const whys = Array.from({ length: FIVE_WHY_STEPS }, (_, index) => draft.rootCause.whys[index] ?? "")
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        try {
+            const result = await saveCapa(draft)
+            if (!result.success) {
+                toast.error(result.error)
+                return
+            }
+            onCapaChange(result.capa)
+            toast.success(`${result.capa.capaNumber} saved`)
+        } catch (error) {
+            console.error("Error saving CAPA:", error)
+            toast.error("Error saving CAPA")
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleTransition = async (to: CapaStatus) => {
+        setIsSaving(true)
+        try {
+            const result = await transitionCapa(capa.capaNumber, to)
+            if (!result.success) {
+                toast.error(result.error)
+                return
+            }
+            onCapaChange(result.capa)
+            toast.success(`${result.capa.capaNumber} is now ${CAPA_STATUS_LABELS[to]}`)
+        } catch (error) {
+            console.error("Error updating CAPA:", error)
+            toast.error("Error updating CAPA")
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="space-y-3 rounded-lg border border-border bg-muted/30 p-4">
+            <div className="flex items-center justify-between gap-2">
+                <div>
+                    <p className="font-mono text-sm font-bold text-foreground">{capa.capaNumber}</p>
+                    <p className="text-[10px] text-muted-foreground">
+                        Source: {describeCapaSource(capa.source)}
+                        {capa.partNumber && ` · Part ${capa.partNumber}`}
+                    </p>
+                </div>
+                <CapaStatusBadge status={capa.status} />
+            </div>
+
+            <Input
+                value={draft.title}
+                onChange={(e) => update({ title: e.target.value })}
+                disabled={isClosed}
+                className="text-xs"
+            />
+
+            <Accordion type="multiple" defaultValue={["d1"]} className="text-xs">
+                <AccordionItem value="d1">
+                    <AccordionTrigger className="py-2 text-xs">D1 · Team</AccordionTrigger>
+                    <AccordionContent>
+                        <Input
+                            value={teamText}
+                            onChange={(e) => {
+                                setTeamText(e.target.value)
+                                update({ team: e.target.value.split(",").map((name) => name.trim()).filter(Boolean) })
+                            }}
+                            placeholder="Comma-separated names"
+                            disabled={isClosed}
+                            className="text-xs"
+                        />
+                    </AccordionContent>
+                </AccordionItem>
+
+                <AccordionItem value="d2">
+                    <AccordionTrigger className="py-2 text-xs">D2 · Problem Description</AccordionTrigger>
+                    <AccordionContent>
+                        <Textarea
+                            value={draft.problemDescription}
+                            onChange={(e) => update({ problemDescription: e.target.value })}
+                            rows={3}
+                            disabled={isClosed}
+                            className="text-xs"
+                        />
+                    </AccordionContent>
+                </AccordionItem>
+
+                <AccordionItem value="d3">
+                    <AccordionTrigger className="py-2 text-xs">D3 · Containment</AccordionTrigger>
+                    <AccordionContent>
+                        <Textarea
+                            value={draft.containment}
+                            onChange={(e) => update({ containment: e.target.value })}
+                            placeholder="Interim actions protecting the customer"
+                            rows={2}
+                            disabled={isClosed}
+                            className="text-xs"
+                        />
+                    </AccordionContent>
+                </AccordionItem>
+
+                <AccordionItem value="d4">
+                    <AccordionTrigger className="py-2 text-xs">D4 · Root Cause</AccordionTrigger>
+                    <AccordionContent className="space-y-3">
+                        <div className="space-y-1">
+                            <Label className="text-[10px] uppercase text-muted-foreground">5-Why</Label>
+                            {whys.map((why, index) => (
+                                <Input
+                                    key={index}
+                                    value={why}
+                                    onChange={(e) => {
+                                        const next = [...whys]
+                                        next[index] = e.target.value
+                                        update({ rootCause: { ...draft.rootCause, whys: next } })
+                                    }}
+                                    placeholder={`Why ${index + 1}?`}
+                                    disabled={isClosed}
+                                    className="h-8 text-xs"
+                                />
+                            ))}
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-[10px] uppercase text-muted-foreground">Ishikawa</Label>
+                            <div className="grid grid-cols-2 gap-2">
+                                {ISHIKAWA_CATEGORIES.map((category) => (
+                                    <Input
+                                        key={category.value}
+                                        value={draft.rootCause.ishikawa[category.value] ?? ""}
+                                        onChange={(e) => update({
+                                            rootCause: {
+                                                ...draft.rootCause,
+                                                ishikawa: { ...draft.rootCause.ishikawa, [category.value]: e.target.value },
+                                            },
+                                        })}
+                                        placeholder={category.label}
+                                        disabled={isClosed}
+                                        className="h-8 text-xs"
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                        <Textarea
+                            value={draft.rootCause.statement}
+                            onChange={(e) => update({ rootCause: { ...draft.rootCause, statement: e.target.value } })}
+                            placeholder="Confirmed root cause"
+                            rows={2}
+                            disabled={isClosed}
+                            className="text-xs"
+                        />
+                    </AccordionContent>
+                </AccordionItem>
+
+                <AccordionItem value="d5">
+                    <AccordionTrigger className="py-2 text-xs">D5/D6 · Corrective Actions ({draft.actions.length})</AccordionTrigger>
+                    <AccordionContent className="space-y-2">
+                        {draft.actions.map((action) => (
+                            <div
+                                key={action.id}
+                                className={cn(
+                                    "space-y-2 rounded border border-border p-2",
+                                    isActionOverdue(action) && "border-destructive/40 bg-destructive/5"
+                                )}
+                            >
+                                <Input
+                                    value={action.description}
+                                    onChange={(e) => updateAction(action.id, { description: e.target.value })}
+                                    placeholder="Action"
+                                    disabled={isClosed}
+                                    className="h-8 text-xs"
+                                />
+                                <div className="flex items-center gap-2">
+                                    <Input
+                                        value={action.owner}
+                                        onChange={(e) => updateAction(action.id, { owner: e.target.value })}
+                                        placeholder="Owner"
+                                        disabled={isClosed}
+                                        className="h-8 text-xs"
+                                    />
+                                    <Input
+                                        type="date"
+                                        value={action.dueDate}
+                                        onChange={(e) => updateAction(action.id, { dueDate: e.target.value })}
+                                        disabled={isClosed}
+                                        className="h-8 w-36 text-xs"
+                                    />
+                                    <Checkbox
+                                        checked={!!action.completedAt}
+                                        onCheckedChange={(checked) => updateAction(action.id, {
+                                            completedAt: checked === true ? new Date().toISOString() : undefined,
+                                        })}
+                                        disabled={isClosed}
+                                        aria-label="Completed"
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => update({ actions: draft.actions.filter((a) => a.id !== action.id) })}
+                                        disabled={isClosed}
+                                        className="h-8 w-8 shrink-0"
+                                    >
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                        {!isClosed && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => update({
+                                    actions: [...draft.actions, { id: generateActionId(), description: "", owner: "", dueDate: "" }],
+                                })}
+                                className="w-full gap-1 text-xs"
+                            >
+                                <Plus className="h-3 w-3" />
+                                Add Action
+                            </Button>
+                        )}
+                    </AccordionContent>
+                </AccordionItem>
+
+                <AccordionItem value="d7">
+                    <AccordionTrigger className="py-2 text-xs">D7 · Preventive Actions</AccordionTrigger>
+                    <AccordionContent>
+                        <Textarea
+                            value={draft.preventiveActions}
+                            onChange={(e) => update({ preventiveActions: e.target.value })}
+                            placeholder="System changes that prevent recurrence (PFMEA, control plan, work instructions)"
+                            rows={2}
+                            disabled={isClosed}
+                            className="text-xs"
+                        />
+                    </AccordionContent>
+                </AccordionItem>
+
+                <AccordionItem value="d8">
+                    <AccordionTrigger className="py-2 text-xs">D8 · Verification of Effectiveness</AccordionTrigger>
+                    <AccordionContent className="space-y-2">
+                        <Input
+                            value={draft.verification?.method ?? ""}
+                            onChange={(e) => updateVerification({ method: e.target.value })}
+                            placeholder="Method (e.g. 3 consecutive lots without the defect)"
+                            disabled={isClosed}
+                            className="h-8 text-xs"
+                        />
+                        <Textarea
+                            value={draft.verification?.result ?? ""}
+                            onChange={(e) => updateVerification({ result: e.target.value })}
+                            placeholder="Result"
+                            rows={2}
+                            disabled={isClosed}
+                            className="text-xs"
+                        />
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id={`effective-${capa.capaNumber}`}
+                                checked={draft.verification?.effective ?? false}
+                                onCheckedChange={(checked) => updateVerification({ effective: checked === true })}
+                                disabled={isClosed || capa.status !== "verification"}
+                            />
+                            <Label htmlFor={`effective-${capa.capaNumber}`} className="text-xs">
+                                Actions verified effective
+                            </Label>
+                        </div>
+                        {capa.verification && (
+                            <p className="text-[10px] text-muted-foreground">
+                                Verified by {capa.verification.verifiedBy} · {new Date(capa.verification.verifiedAt).toLocaleString()}
+                            </p>
+                        )}
+                    </AccordionContent>
+                </AccordionItem>
+            </Accordion>
+
+            {!isClosed && (
+                <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={handleSave} disabled={isSaving} className="gap-1">
+                        {isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                        Save 8D
+                    </Button>
+                    {CAPA_TRANSITIONS[capa.status].map((to) => (
+                        <Button key={to} size="sm" onClick={() => handleTransition(to)} disabled={isSaving} className="gap-1">
+                            <ArrowRight className="h-3 w-3" />
+                            {CAPA_STATUS_LABELS[to]}
+                        </Button>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+// ==========================================
+// MAIN COMPONENT
+// ==========================================
+
+interface CapaTrackerProps {
+    capas: CapaRecord[]
+    isLoading?: boolean
+    /** Called with a created or updated CAPA */
+    onCapaChange: (capa: CapaRecord) => void
+    /** CAPA to show, e.g. right after it was opened from an NCR */
+    selectedCapaNumber?: string | null
+    onSelect?: (capaNumber: string) => void
+}
+
+export function CapaTracker({
+    capas,
+    isLoading = false,
+    onCapaChange,
+    selectedCapaNumber,
+    onSelect,
+}: CapaTrackerProps) {
+    const [localSelection, setLocalSelection] = useState<string | null>(null)
+    const selectedNumber = selectedCapaNumber ?? localSelection
+    const selected = capas.find((capa) => capa.capaNumber === selectedNumber)
+    const openCount = capas.filter((capa) => capa.status !== "closed").length
+
+    const handleSelect = (capaNumber: string) => {
+        setLocalSelection(capaNumber)
+        onSelect?.(capaNumber)
+    }
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                        <ClipboardList className="h-4 w-4 text-primary" />
+                        Corrective Actions (CAPA / 8D)
+                    </CardTitle>
+                    <Badge variant="secondary" className="text-[10px]">
+                        {openCount} open
+                    </Badge>
+                </div>
+            </CardHeader>
+            <CardContent className="grid gap-4 lg:grid-cols-2">
+                {/* CAPA List */}
+                <div className="space-y-1">
+                    {isLoading ? (
+                        <Loader2 className="mx-auto my-6 h-4 w-4 animate-spin text-muted-foreground" />
+                    ) : capas.length === 0 ? (
+                        <p className="py-6 text-center text-xs text-muted-foreground">
+                            No CAPAs. Open one from an NCR or from a defect in the Pareto.
+                        </p>
+                    ) : (
+                        capas.map((capa) => {
+                            const overdue = capa.status !== "closed" && capa.actions.some((action) => isActionOverdue(action))
+                            return (
+                                <button
+                                    key={capa.capaNumber}
+                                    onClick={() => handleSelect(capa.capaNumber)}
+                                    className={cn(
+                                        "flex w-full items-center gap-3 rounded-lg border border-border p-2 text-left transition-colors hover:bg-muted/50",
+                                        selected?.capaNumber === capa.capaNumber && "bg-primary/10"
+                                    )}
+                                >
+                                    <div className="min-w-0 flex-1">
+                                        <p className="font-mono text-xs font-semibold text-foreground">{capa.capaNumber}</p>
+                                        <p className="truncate text-[10px] text-muted-foreground">{capa.title}</p>
+                                    </div>
+                                    {overdue && (
+                                        <Badge className="border-0 bg-destructive/15 text-[10px] text-destructive">OVERDUE</Badge>
+                                    )}
+                                    <CapaStatusBadge status={capa.status} />
+                                </button>
+                            )
+                        })
+                    )}
+                </div>
+
+                {/* 8D Detail */}
+                {selected ? (
+                    <CapaEditor capa={selected} onCapaChange={onCapaChange} />
+                ) : (
+                    <div className="flex items-center justify-center rounded-lg border border-dashed border-border p-6 text-xs text-muted-foreground">
+                        Select a CAPA to edit its 8D
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
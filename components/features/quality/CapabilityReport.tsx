@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Process capability card for a part characteristic.
+ * Shows Cp/Cpk/Pp/Ppk with a histogram and normal curve against the spec limits,
+ * and prints the study to PDF with the part's current revision.
+ * @module components/features/quality/CapabilityReport
+ */
+
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { Gauge, Loader2, Printer } from "lucide-react"
+import {
+    Area,
+    CartesianGrid,
+    ComposedChart,
+    Line,
+    ReferenceLine,
+    ResponsiveContainer,
+    XAxis,
+    YAxis,
+} from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { CharacteristicPicker, useNumericCharacteristic } from "./CharacteristicPicker"
+import { getCapabilityStudy } from "@/lib/actions/capability"
+import {
+    CAPABILITY_PRELIMINARY_READINGS,
+    CAPABILITY_RATING_LABELS,
+    CAPABILITY_TARGET,
+    buildNormalCurve,
+    formatIndex,
+    formatMeasurement,
+    getCapabilityRating,
+    type CapabilityRating,
+    type CapabilityStudy,
+} from "@/lib/capability"
+import { generateCapabilityReportPDF } from "@/lib/pdf/CapabilityReportPDFGenerator"
+import { cn } from "@/lib/utils"
+
+const RATING_STYLES: Record<CapabilityRating, string> = {
+    capable: "border-success/40 bg-success/10 text-success",
+    marginal: "border-warning/40 bg-warning/10 text-warning",
+    not_capable: "border-destructive/40 bg-destructive/10 text-destructive",
+}
+
+const AXIS_TICK = { fill: "hsl(215, 15%, 55%)", fontSize: 11 }
+const AXIS_LINE = { stroke: "hsl(215, 20%, 20%)" }
+const SPEC_COLOR = "hsl(0, 72%, 51%)"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * Histogram steps (one point per bin edge) merged with the normal curve on a numeric axis
+ */
+function buildChartData(study: CapabilityStudy) {
+    const { histogram } = study
+    if (histogram.length === 0) return []
+
+    const steps = [
+        ...histogram.map((bin) => ({ x: bin.start, count: bin.count })),
+        { x: histogram[histogram.length - 1].end, count: histogram[histogram.length - 1].count },
+    ]
+    const curve = buildNormalCurve(study).map((point) => ({ x: point.x, expected: point.expected }))
+    return [...steps, ...curve].sort((a, b) => a.x - b.x)
+}
+
+// ==========================================
+// MAIN COMPONENT
+// ==========================================
+
+export function CapabilityReport() {
+    const characteristic = useNumericCharacteristic()
+    const { numericParts, part, field } = characteristic
+    const [study, setStudy] = useState<CapabilityStudy | null>(null)
+    const [isLoading, setIsLoading] = useState(false)
+
+    useEffect(() => {
+        if (!part || !field) return
+        let cancelled = false
+        setIsLoading(true)
+        getCapabilityStudy(part.partNumber, field.id)
+            .then((result) => {
+                if (cancelled) return
+                if (result.success) {
+                    setStudy(result.study)
+                } else {
+                    setStudy(null)
+                    toast.error(result.error)
+                }
+            })
+            .catch((error) => {
+                console.error("Error loading capability study:", error)
+                toast.error("Error loading capability study")
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [part?.partNumber, field?.id])
+
+    const indices = study
+        ? [
+            { label: "Cp", value: study.cp, basis: "within" },
+            { label: "Cpk", value: study.cpk, basis: "within" },
+            { label: "Pp", value: study.pp, basis: "overall" },
+            { label: "Ppk", value: study.ppk, basis: "overall" },
+        ]
+        : []
+    const data = study ? buildChartData(study) : []
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex flex-wrap items-center gap-2 text-sm font-semibold text-foreground">
+                    <Gauge className="h-4 w-4 text-primary" />
+                    Process Capability
+                    {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                    <div className="ml-auto flex gap-2">
+                        <CharacteristicPicker {...characteristic} />
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => study && generateCapabilityReportPDF(study)}
+                            disabled={!study || study.readings === 0}
+                            className="h-8 gap-2 text-xs"
+                        >
+                            <Printer className="h-3 w-3" />
+                            PDF
+                        </Button>
+                    </div>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {!study || study.readings === 0 ? (
+                    <p className="py-8 text-center text-xs text-muted-foreground">
+                        {numericParts.length === 0 ? "No parts with numeric characteristics" : "No readings recorded for this characteristic"}
+                    </p>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                            {indices.map((index) => {
+                                const rating = getCapabilityRating(index.value)
+                                return (
+                                    <div
+                                        key={index.label}
+                                        className={cn(
+                                            "rounded-lg border p-3",
+                                            rating ? RATING_STYLES[rating] : "border-border text-muted-foreground"
+                                        )}
+                                    >
+                                        <p className="text-[10px] uppercase">{index.label} · σ {index.basis}</p>
+                                        <p className="font-mono text-2xl font-bold">{formatIndex(index.value)}</p>
+                                        <p className="text-[10px]">{rating ? CAPABILITY_RATING_LABELS[rating] : "Needs both spec limits"}</p>
+                                    </div>
+                                )
+                            })}
+                        </div>
+
+                        <p className="text-[11px] text-muted-foreground">
+                            {study.readings} readings from {study.lots} lots{study.unit && ` (${study.unit})`} · Mean {formatMeasurement(study.mean)} ·
+                            σ within {formatMeasurement(study.sigmaWithin)} · σ overall {formatMeasurement(study.sigmaOverall)} ·
+                            Spec {study.tolerance ?? "N/A"} ({study.revision}) ·
+                            Target ≥ {CAPABILITY_TARGET}
+                        </p>
+                        {study.readings < CAPABILITY_PRELIMINARY_READINGS && (
+                            <p className="text-[11px] text-warning">
+                                Preliminary study: fewer than {CAPABILITY_PRELIMINARY_READINGS} readings on record.
+                            </p>
+                        )}
+
+                        <div className="h-56">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <ComposedChart data={data} margin={{ top: 15, right: 10, left: -20, bottom: 5 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(215, 20%, 20%)" vertical={false} />
+                                    <XAxis
+                                        dataKey="x"
+                                        type="number"
+                                        domain={["dataMin", "dataMax"]}
+                                        tickFormatter={(value: number) => formatMeasurement(value)}
+                                        tick={AXIS_TICK}
+                                        axisLine={AXIS_LINE}
+                                        tickLine={false}
+                                    />
+                                    <YAxis allowDecimals={false} tick={AXIS_TICK} axisLine={AXIS_LINE} tickLine={false} />
+                                    <Area
+                                        dataKey="count"
+                                        type="stepAfter"
+                                        stroke="hsl(213, 94%, 52%)"
+                                        fill="hsl(213, 94%, 52%)"
+                                        fillOpacity={0.35}
+                                        connectNulls
+                                        isAnimationActive={false}
+                                    />
+                                    <Line
+                                        dataKey="expected"
+                                        type="monotone"
+                                        stroke="hsl(142, 71%, 45%)"
+                                        strokeWidth={2}
+                                        dot={false}
+                                        connectNulls
+                                        isAnimationActive={false}
+                                    />
+                                    {study.spec.min !== undefined && (
+                                        <ReferenceLine x={study.spec.min} stroke={SPEC_COLOR} strokeDasharray="4 3" label={{ value: "LSL", position: "top", fill: SPEC_COLOR, fontSize: 10 }} />
+                                    )}
+                                    {study.spec.max !== undefined && (
+                                        <ReferenceLine x={study.spec.max} stroke={SPEC_COLOR} strokeDasharray="4 3" label={{ value: "USL", position: "top", fill: SPEC_COLOR, fontSize: 10 }} />
+                                    )}
+                                </ComposedChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
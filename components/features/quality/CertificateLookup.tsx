@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Certificate lookup and reprint card.
+ * Finds an issued Certificate of Conformance by number and reprints it exactly as issued.
+ * @module components/features/quality/CertificateLookup
+ */
+
+"use client"
+
+import React, { useState } from "react"
+import { FileSearch, Printer, Search, Loader2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { getCertificate, getVerificationBaseUrl } from "@/lib/actions/certificates"
+import { getCertificateTemplate } from "@/lib/actions/certificateTemplates"
+import { generateCertificatePDF } from "@/lib/pdf/CertificatePDFGenerator"
+import type { CertificateRecord } from "@/lib/data"
+
+// ==========================================
+// MAIN COMPONENT
+// ==========================================
+
+export function CertificateLookup() {
+    const [query, setQuery] = useState("")
+    const [record, setRecord] = useState<CertificateRecord | null>(null)
+    const [isSearching, setIsSearching] = useState(false)
+
+    const handleSearch = async (e?: React.FormEvent) => {
+        e?.preventDefault()
+        if (!query.trim()) return
+
+        setIsSearching(true)
+        try {
+            const found = await getCertificate(query)
+            setRecord(found)
+            if (!found) {
+                toast.error("Certificate not found", {
+                    description: `No certificate was issued with number ${query.trim().toUpperCase()}.`,
+                })
+            }
+        } catch (error) {
+            console.error("Error looking up certificate:", error)
+            toast.error("Error looking up certificate")
+        } finally {
+            setIsSearching(false)
+        }
+    }
+
+    const handleReprint = async () => {
+        if (!record) return
+        // Reprint with the template version the certificate was issued with
+        const template = record.data.templateId
+            ? await getCertificateTemplate(record.data.templateId)
+            : null
+        generateCertificatePDF(record.data, template ?? undefined, await getVerificationBaseUrl())
+        toast.success("Certificate reprinted", {
+            description: `${record.certNumber} downloaded.`,
+        })
+    }
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                    <FileSearch className="h-4 w-4 text-primary" />
+                    Certificate Lookup
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <form onSubmit={handleSearch} className="flex gap-2">
+                    <Input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value.toUpperCase())}
+                        placeholder="e.g., BO-060226-01"
+                        className="h-10 font-mono"
+                    />
+                    <Button type="submit" disabled={!query.trim() || isSearching} className="h-10 gap-2">
+                        {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                        Search
+                    </Button>
+                </form>
+
+                {record && (
+                    <div className="rounded-lg border border-border bg-muted/30 p-4 space-y-3">
+                        <div className="grid grid-cols-2 gap-3 text-xs">
+                            <div>
+                                <p className="text-muted-foreground">Certificate</p>
+                                <p className="font-mono font-semibold text-foreground">{record.certNumber}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Lot</p>
+                                <p className="font-mono font-semibold text-foreground">{record.lotNumber}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Inspector</p>
+                                <p className="font-medium text-foreground">{record.inspector}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Issued</p>
+                                <p className="font-medium text-foreground">{new Date(record.issuedAt).toLocaleString()}</p>
+                            </div>
+                        </div>
+                        <Button variant="outline" onClick={handleReprint} className="w-full gap-2">
+                            <Printer className="h-4 w-4" />
+                            Reprint Certificate
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,435 @@
+/**
+ * @fileoverview Certificate template manager for engineering.
+ * Edits the certificate layout per process/customer. Every save publishes a new
+ * immutable version; certificates keep pointing at the version they were issued with.
+ * @module components/features/quality/CertificateTemplateManager
+ */
+
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { FileText, History, Plus, Save, Trash2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+import {
+    createCertificateTemplateVersion,
+    type CertificateTemplateDraft,
+} from "@/lib/actions/certificateTemplates"
+import { DEFAULT_CERTIFICATE_TEMPLATE_KEY } from "@/lib/data"
+import type { CertificateTemplate, CertificateTemplateRow } from "@/lib/data"
+
+// ==========================================
+// TYPES & HELPERS
+// ==========================================
+
+interface CertificateTemplateManagerProps {
+    /** All template versions */
+    templates: CertificateTemplate[]
+    /** Called after a new version is published */
+    onTemplateCreated: (template: CertificateTemplate) => void
+}
+
+function toDraft(template: CertificateTemplate): CertificateTemplateDraft {
+    const { id: _id, version: _version, createdAt: _createdAt, createdBy: _createdBy, ...draft } = template
+    return { ...draft, changeNote: "" }
+}
+
+/**
+ * Normalizes a template name into a stable key ("Zinc Plating" -> "zinc-plating")
+ */
+function toTemplateKey(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+}
+
+const splitLines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean)
+
+// ==========================================
+// MAIN COMPONENT
+// ==========================================
+
+export function CertificateTemplateManager({ templates, onTemplateCreated }: CertificateTemplateManagerProps) {
+
+    const [selectedKey, setSelectedKey] = useState<string | null>(null)
+    const [draft, setDraft] = useState<CertificateTemplateDraft | null>(null)
+    const [isNew, setIsNew] = useState(false)
+    const [showSaveDialog, setShowSaveDialog] = useState(false)
+    const [showHistoryDialog, setShowHistoryDialog] = useState(false)
+    const [changeNote, setChangeNote] = useState("")
+    const [isSaving, setIsSaving] = useState(false)
+
+    // Latest version per key (templates arrive newest-first within each key)
+    const latestTemplates = useMemo(() => {
+        const latest = new Map<string, CertificateTemplate>()
+        for (const template of templates) {
+            const current = latest.get(template.key)
+            if (!current || template.version > current.version) latest.set(template.key, template)
+        }
+        return [...latest.values()]
+    }, [templates])
+
+    const history = templates
+        .filter((template) => template.key === selectedKey)
+        .sort((a, b) => b.version - a.version)
+
+    const handleSelect = (template: CertificateTemplate) => {
+        setSelectedKey(template.key)
+        setDraft(toDraft(template))
+        setIsNew(false)
+    }
+
+    const handleNewTemplate = () => {
+        // Start from the default layout so only the process data has to be filled in
+        const base = latestTemplates.find((t) => t.key === DEFAULT_CERTIFICATE_TEMPLATE_KEY) ?? latestTemplates[0]
+        if (!base) return
+        setSelectedKey(null)
+        setDraft({
+            ...toDraft(base),
+            key: "",
+            name: "",
+            processName: "",
+            certPrefix: "",
+            processRows: [{ label: "Specifications:", value: "" }],
+        })
+        setIsNew(true)
+    }
+
+    const updateDraft = (updates: Partial<CertificateTemplateDraft>) => {
+        setDraft((prev) => (prev ? { ...prev, ...updates } : prev))
+    }
+
+    const updateRow = (
+        list: "infoRows" | "processRows",
+        index: number,
+        updates: Partial<CertificateTemplateRow>
+    ) => {
+        setDraft((prev) => prev
+            ? { ...prev, [list]: prev[list].map((row, i) => (i === index ? { ...row, ...updates } : row)) }
+            : prev
+        )
+    }
+
+    const removeProcessRow = (index: number) => {
+        setDraft((prev) => prev
+            ? { ...prev, processRows: prev.processRows.filter((_, i) => i !== index) }
+            : prev
+        )
+    }
+
+    const handleSave = async () => {
+        if (!draft) return
+        if (!changeNote.trim()) {
+            toast.error("Change note is required")
+            return
+        }
+
+        const key = isNew ? toTemplateKey(draft.name) : draft.key
+        if (!key || !draft.processName.trim() || !draft.certPrefix.trim()) {
+            toast.error("Name, process and certificate prefix are required")
+            return
+        }
+        if (isNew && latestTemplates.some((t) => t.key === key)) {
+            toast.error("A template with this name already exists")
+            return
+        }
+
+        setIsSaving(true)
+        try {
+            const created = await createCertificateTemplateVersion({
+                ...draft,
+                key,
+                certPrefix: draft.certPrefix.trim().toUpperCase(),
+                changeNote: changeNote.trim(),
+            })
+            onTemplateCreated(created)
+            setSelectedKey(created.key)
+            setDraft(toDraft(created))
+            setIsNew(false)
+            setShowSaveDialog(false)
+            setChangeNote("")
+            toast.success("Template Published", {
+                description: `${created.name} is now at version ${created.version}.`,
+            })
+        } catch (error) {
+            console.error("Error saving certificate template:", error)
+            toast.error("Error saving certificate template")
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+                            <FileText className="h-4 w-4 text-primary" />
+                            Certificate Templates
+                        </CardTitle>
+                        <CardDescription>
+                            Certificate of Conformance layouts per process and customer
+                        </CardDescription>
+                    </div>
+                    <Button size="sm" onClick={handleNewTemplate} className="h-8 gap-1">
+                        <Plus className="h-3 w-3" />
+                        New Template
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent>
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                    {/* Template List */}
+                    <div className="space-y-1">
+                        {latestTemplates.length === 0 ? (
+                            <p className="text-center text-sm text-muted-foreground py-8">
+                                No templates found
+                            </p>
+                        ) : (
+                            latestTemplates.map((template) => (
+                                <button
+                                    key={template.key}
+                                    onClick={() => handleSelect(template)}
+                                    className={cn(
+                                        "w-full flex items-center gap-3 rounded-lg p-3 text-left transition-colors hover:bg-muted/50",
+                                        selectedKey === template.key && "bg-primary/10 border border-primary/30"
+                                    )}
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-semibold text-sm text-foreground truncate">{template.name}</p>
+                                        <p className="text-xs text-muted-foreground truncate">{template.formRevision}</p>
+                                    </div>
+                                    <Badge variant="outline" className="font-mono text-[10px]">{template.certPrefix}</Badge>
+                                    <Badge variant="secondary" className="text-[10px]">v{template.version}</Badge>
+                                </button>
+                            ))
+                        )}
+                    </div>
+
+                    {/* Template Editor */}
+                    <div className="lg:col-span-2">
+                        {draft ? (
+                            <div className="space-y-4">
+                                <div className="grid grid-cols-3 gap-3">
+                                    <div>
+                                        <Label>Template Name</Label>
+                                        <Input
+                                            value={draft.name}
+                                            onChange={(e) => updateDraft({ name: e.target.value })}
+                                            placeholder="e.g., Zinc Plating - Standard"
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label>Process</Label>
+                                        <Input
+                                            value={draft.processName}
+                                            onChange={(e) => updateDraft({ processName: e.target.value })}
+                                            placeholder="e.g., Zinc Plating"
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label>Cert. Prefix</Label>
+                                        <Input
+                                            value={draft.certPrefix}
+                                            onChange={(e) => updateDraft({ certPrefix: e.target.value.toUpperCase() })}
+                                            placeholder="e.g., ZP"
+                                            className="font-mono"
+                                            maxLength={4}
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label>Title</Label>
+                                        <Input value={draft.title} onChange={(e) => updateDraft({ title: e.target.value })} />
+                                    </div>
+                                    <div>
+                                        <Label>Subtitle</Label>
+                                        <Input value={draft.subtitle} onChange={(e) => updateDraft({ subtitle: e.target.value })} />
+                                    </div>
+                                    <div>
+                                        <Label>Form Revision</Label>
+                                        <Input
+                                            value={draft.formRevision}
+                                            onChange={(e) => updateDraft({ formRevision: e.target.value })}
+                                            className="font-mono"
+                                        />
+                                    </div>
+                                </div>
+
+                                {/* Customer / Lot Rows (values come from the lot) */}
+                                <div className="space-y-2">
+                                    <Label>Lot Information Labels</Label>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {draft.infoRows.map((row, index) => (
+                                            <Input
+                                                key={index}
+                                                value={row.label}
+                                                onChange={(e) => updateRow("infoRows", index, { label: e.target.value })}
+                                                className="h-8 text-sm"
+                                            />
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <Label>Certification Statement</Label>
+                                    <Textarea
+                                        value={draft.statement}
+                                        onChange={(e) => updateDraft({ statement: e.target.value })}
+                                        rows={3}
+                                    />
+                                </div>
+
+                                {/* Process Rows */}
+                                <div className="space-y-2">
+                                    <div className="flex items-center justify-between">
+                                        <Label>Process Specifications</Label>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => updateDraft({ processRows: [...draft.processRows, { label: "", value: "" }] })}
+                                            className="h-7 gap-1 text-xs"
+                                        >
+                                            <Plus className="h-3 w-3" />
+                                            Add Row
+                                        </Button>
+                                    </div>
+                                    {draft.processRows.map((row, index) => (
+                                        <div key={index} className="flex items-center gap-2">
+                                            <Input
+                                                value={row.label}
+                                                onChange={(e) => updateRow("processRows", index, { label: e.target.value })}
+                                                className="h-8 w-48 text-sm"
+                                                placeholder="e.g., Method:"
+                                            />
+                                            <Input
+                                                value={row.value ?? ""}
+                                                onChange={(e) => updateRow("processRows", index, { value: e.target.value })}
+                                                className="h-8 flex-1 text-sm"
+                                                placeholder="Printed value"
+                                            />
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => removeProcessRow(index)}
+                                                className="h-8 w-8 shrink-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <Label>Footer Disclaimer (one line each)</Label>
+                                        <Textarea
+                                            value={draft.disclaimerLines.join("\n")}
+                                            onChange={(e) => updateDraft({ disclaimerLines: splitLines(e.target.value) })}
+                                            rows={3}
+                                            className="text-xs"
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label>Address (one line each)</Label>
+                                        <Textarea
+                                            value={draft.addressLines.join("\n")}
+                                            onChange={(e) => updateDraft({ addressLines: splitLines(e.target.value) })}
+                                            rows={3}
+                                            className="text-xs"
+                                        />
+                                    </div>
+                                </div>
+
+                                {/* Action Buttons */}
+                                <div className="flex items-center gap-2 pt-4 border-t border-border">
+                                    <Button onClick={() => setShowSaveDialog(true)} className="gap-1">
+                                        <Save className="h-4 w-4" />
+                                        {isNew ? "Create Template" : "Save as New Version"}
+                                    </Button>
+                                    {!isNew && (
+                                        <Button variant="outline" onClick={() => setShowHistoryDialog(true)} className="gap-1">
+                                            <History className="h-4 w-4" />
+                                            History
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="rounded-lg border border-dashed border-border p-8 text-center">
+                                <FileText className="mx-auto h-10 w-10 text-muted-foreground/50 mb-2" />
+                                <p className="text-sm text-muted-foreground">
+                                    Select a template to edit or create a new one
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </CardContent>
+
+            {/* Save Version Dialog */}
+            <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+                <DialogContent className="bg-card border-border">
+                    <DialogHeader>
+                        <DialogTitle>{isNew ? "Create Certificate Template" : "Publish New Version"}</DialogTitle>
+                        <DialogDescription>
+                            Certificates already issued keep the version they were printed with.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="py-4">
+                        <Label>Change Note *</Label>
+                        <Textarea
+                            value={changeNote}
+                            onChange={(e) => setChangeNote(e.target.value)}
+                            placeholder="e.g., Updated specification per customer PO requirements"
+                            className="mt-2"
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setShowSaveDialog(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSave} disabled={isSaving}>
+                            {isNew ? "Create" : "Publish"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Version History Dialog */}
+            <Dialog open={showHistoryDialog} onOpenChange={setShowHistoryDialog}>
+                <DialogContent className="bg-card border-border">
+                    <DialogHeader>
+                        <DialogTitle>Template Version History</DialogTitle>
+                        <DialogDescription>{draft?.name}</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2 py-2">
+                        {history.map((template) => (
+                            <div key={template.id} className="rounded-lg border border-border p-3">
+                                <div className="flex items-center justify-between">
+                                    <Badge variant="secondary">v{template.version}</Badge>
+                                    <span className="text-xs text-muted-foreground">
+                                        {new Date(template.createdAt).toLocaleString()} · {template.createdBy}
+                                    </span>
+                                </div>
+                                <p className="mt-2 text-sm text-foreground">{template.changeNote}</p>
+                            </div>
+                        ))}
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    )
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Part and numeric characteristic selectors shared by the SPC and capability cards.
+ * @module components/features/quality/CharacteristicPicker
+ */
+
+"use client"
+
+import React, { useState } from "react"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { usePartConfig } from "@/context/PartConfigContext"
+import type { FieldDefinition, PartConfig } from "@/lib/data"
+
+// ==========================================
+// HOOK FOR THE SELECTED CHARACTERISTIC
+// ==========================================
+
+/**
+ * Selected part and numeric characteristic of its current published revision;
+ * defaults to the first of each
+ */
+export function useNumericCharacteristic() {
+    const { parts, getActiveRevision } = usePartConfig()
+    const [partNumber, setPartNumber] = useState("")
+    const [fieldId, setFieldId] = useState("")
+
+    const publishedFields = (p: PartConfig) => getActiveRevision(p.id)?.fields ?? []
+    const numericParts = parts.filter((p) => publishedFields(p).some((f) => f.type === "numeric"))
+    const part = numericParts.find((p) => p.partNumber === partNumber) ?? numericParts[0]
+    const numericFields = part ? publishedFields(part).filter((f) => f.type === "numeric") : []
+    const field = numericFields.find((f) => f.id === fieldId) ?? numericFields[0]
+
+    const selectPart = (value: string) => {
+        setPartNumber(value)
+        setFieldId("")
+    }
+
+    return { numericParts, part, numericFields, field, selectPart, selectField: setFieldId }
+}
+
+// ==========================================
+// MAIN COMPONENT
+// ==========================================
+
+interface CharacteristicPickerProps {
+    numericParts: PartConfig[]
+    part?: PartConfig
+    numericFields: FieldDefinition[]
+    field?: FieldDefinition
+    selectPart: (partNumber: string) => void
+    selectField: (fieldId: string) => void
+}
+
+export function CharacteristicPicker({
+    numericParts,
+    part,
+    numericFields,
+    field,
+    selectPart,
+    selectField,
+}: CharacteristicPickerProps) {
+    return (
+        <div className="flex gap-2">
+            <Select value={part?.partNumber ?? ""} onValueChange={selectPart}>
+                <SelectTrigger className="h-8 w-40 font-mono text-xs">
+                    <SelectValue placeholder="Part" />
+                </SelectTrigger>
+                <SelectContent>
+                    {numericParts.map((p) => (
+                        <SelectItem key={p.id} value={p.partNumber} className="font-mono">{p.partNumber}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <Select value={field?.id ?? ""} onValueChange={selectField}>
+                <SelectTrigger className="h-8 w-44 text-xs">
+                    <SelectValue placeholder="Characteristic" />
+                </SelectTrigger>
+                <SelectContent>
+                    {numericFields.map((f) => (
+                        <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    )
+}
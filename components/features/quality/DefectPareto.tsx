@@ -0,0 +1,377 @@
+/**
+ * @fileoverview Pareto chart of recorded defects for the manager dashboard.
+ * Bars are clickable to drill down to the lots, parts and operators behind a defect code;
+ * the chart exports as PNG and the data as CSV.
+ * @module components/features/quality/DefectPareto
+ */
+
+"use client"
+
+import React, { useRef, useState } from "react"
+import { format, parseISO } from "date-fns"
+import { ArrowDown, FileText, ImageDown, Loader2 } from "lucide-react"
+import {
+    Bar,
+    CartesianGrid,
+    Cell,
+    ComposedChart,
+    Line,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+import { toast } from "sonner"
+import { getDefectDrillDown } from "@/lib/actions/kpi"
+import { SHIFTS, buildPareto, type DefectBreakdown, type DefectDrillDown, type KpiFilter } from "@/lib/kpi"
+import { DEFECT_CODES } from "@/lib/data"
+
+const BAR_COLORS = [
+    "hsl(0, 72%, 51%)",
+    "hsl(0, 72%, 58%)",
+    "hsl(38, 92%, 50%)",
+    "hsl(38, 92%, 58%)",
+    "hsl(213, 94%, 52%)",
+    "hsl(213, 94%, 60%)",
+]
+
+/** Height of the title band added above the chart in the PNG export */
+const PNG_TITLE_HEIGHT = 32
+const PNG_SCALE = 2
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+function describeDefect(code: string): string {
+    return DEFECT_CODES.find((d) => d.code === code)?.description || ""
+}
+
+function shiftLabel(key: string): string {
+    return SHIFTS.find((s) => s.value === key)?.label ?? key
+}
+
+function saveBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = fileName
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+function csvCell(value: string | number): string {
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Rasterizes the chart's SVG on the card background with a title band
+ */
+async function renderChartPng(container: HTMLElement, title: string): Promise<Blob> {
+    const svg = container.querySelector("svg.recharts-surface")
+    if (!svg) throw new Error("Chart is not rendered")
+
+    const { width, height } = svg.getBoundingClientRect()
+    const clone = svg.cloneNode(true) as SVGSVGElement
+    clone.setAttribute("xmlns", "http://www.w3.org/2000/svg")
+    clone.setAttribute("width", String(width))
+    clone.setAttribute("height", String(height))
+
+    const svgUrl = URL.createObjectURL(
+        new Blob([new XMLSerializer().serializeToString(clone)], { type: "image/svg+xml;charset=utf-8" })
+    )
+    try {
+        const image = new Image()
+        await new Promise<void>((resolve, reject) => {
+            image.onload = () => resolve()
+            image.onerror = () => reject(new Error("Chart image could not be drawn"))
+            image.src = svgUrl
+        })
+
+        const style = getComputedStyle(container)
+        const canvas = document.createElement("canvas")
+        canvas.width = width * PNG_SCALE
+        canvas.height = (height + PNG_TITLE_HEIGHT) * PNG_SCALE
+        const context = canvas.getContext("2d")
+        if (!context) throw new Error("Canvas is not available")
+
+        context.scale(PNG_SCALE, PNG_SCALE)
+        context.fillStyle = style.backgroundColor
+        context.fillRect(0, 0, width, height + PNG_TITLE_HEIGHT)
+        context.fillStyle = style.color
+        context.font = `600 13px ${style.fontFamily}`
+        context.fillText(title, 8, 20)
+        context.drawImage(image, 0, PNG_TITLE_HEIGHT, width, height)
+
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG export failed"))), "image/png")
+        })
+    } finally {
+        URL.revokeObjectURL(svgUrl)
+    }
+}
+
+// ==========================================
+// SUB-COMPONENTS
+// ==========================================
+
+function BreakdownList({ title, items, labelOf = (key) => key }: {
+    title: string
+    items: DefectBreakdown[]
+    labelOf?: (key: string) => string
+}) {
+    return (
+        <div className="space-y-1 rounded-lg border border-border p-2">
+            <p className="text-[10px] font-semibold uppercase text-muted-foreground">{title}</p>
+            {items.map((item) => (
+                <div key={item.key} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate text-foreground">{labelOf(item.key)}</span>
+                    <Badge variant="secondary" className="font-mono text-[10px]">{item.count}</Badge>
+                </div>
+            ))}
+        </div>
+    )
+}
+
+// ==========================================
+// MAIN COMPONENT
+// ==========================================
+
+interface DefectParetoProps {
+    /** Defect counts, most frequent first */
+    defects: { code: string; count: number }[]
+    /** Filter the counts were computed with; the drill-down uses the same one */
+    filter: KpiFilter
+    rangeLabel: string
+}
+
+export function DefectPareto({ defects, filter, rangeLabel }: DefectParetoProps) {
+    const chartRef = useRef<HTMLDivElement>(null)
+    const [selectedCode, setSelectedCode] = useState<string | null>(null)
+    const [drillDown, setDrillDown] = useState<DefectDrillDown | null>(null)
+    const [isExporting, setIsExporting] = useState(false)
+
+    const paretoData = buildPareto(defects).map((bar) => ({ ...bar, desc: describeDefect(bar.code) }))
+    const fileBase = `DefectPareto_${filter.from}_${filter.to}`
+
+    const openDrillDown = async (code: string) => {
+        setSelectedCode(code)
+        setDrillDown(null)
+        try {
+            setDrillDown(await getDefectDrillDown(filter, code))
+        } catch (error) {
+            console.error("Error loading defect drill-down:", error)
+            toast.error("Error loading defect details")
+            setSelectedCode(null)
+        }
+    }
+
+    const handleExportCsv = () => {
+        const lines = [
+            ["Rank", "Defect Code", "Description", "Count", "Cumulative %"].join(","),
+            ...paretoData.map((bar, index) =>
+                [index + 1, bar.code, bar.desc, bar.count, bar.cumulativePercent.toFixed(1)].map(csvCell).join(",")
+            ),
+        ]
+        // BOM so spreadsheet apps read the Spanish descriptions as UTF-8
+        saveBlob(new Blob(["\uFEFF" + lines.join("\n")], { type: "text/csv;charset=utf-8" }), `${fileBase}.csv`)
+    }
+
+    const handleExportPng = async () => {
+        if (!chartRef.current) return
+        setIsExporting(true)
+        try {
+            saveBlob(await renderChartPng(chartRef.current, `Pareto of Defects · ${rangeLabel}`), `${fileBase}.png`)
+        } catch (error) {
+            console.error("Error exporting Pareto chart:", error)
+            toast.error("Error exporting chart image")
+        } finally {
+            setIsExporting(false)
+        }
+    }
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                    <ArrowDown className="h-4 w-4 text-primary" />
+                    Pareto of Defects
+                    <Badge variant="secondary" className="ml-auto text-[10px] bg-secondary text-secondary-foreground">
+                        {rangeLabel.toUpperCase()}
+                    </Badge>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleExportPng}
+                        disabled={paretoData.length === 0 || isExporting}
+                        className="h-7 gap-1 px-2 text-[10px]"
+                        title="Export chart as PNG"
+                    >
+                        {isExporting ? <Loader2 className="h-3 w-3 animate-spin" /> : <ImageDown className="h-3 w-3" />}
+                        PNG
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleExportCsv}
+                        disabled={paretoData.length === 0}
+                        className="h-7 gap-1 px-2 text-[10px]"
+                        title="Export data as CSV"
+                    >
+                        <FileText className="h-3 w-3" />
+                        CSV
+                    </Button>
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                <div ref={chartRef} className="h-64 bg-card text-card-foreground">
+                    {paretoData.length === 0 ? (
+                        <p className="flex h-full items-center justify-center text-xs text-muted-foreground">
+                            No defects recorded in this range
+                        </p>
+                    ) : (
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ComposedChart data={paretoData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="hsl(215, 20%, 20%)" vertical={false} />
+                                <XAxis
+                                    dataKey="code"
+                                    tick={{ fill: "hsl(215, 15%, 55%)", fontSize: 11 }}
+                                    axisLine={{ stroke: "hsl(215, 20%, 20%)" }}
+                                    tickLine={false}
+                                />
+                                <YAxis
+                                    yAxisId="count"
+                                    allowDecimals={false}
+                                    tick={{ fill: "hsl(215, 15%, 55%)", fontSize: 11 }}
+                                    axisLine={{ stroke: "hsl(215, 20%, 20%)" }}
+                                    tickLine={false}
+                                />
+                                <YAxis
+                                    yAxisId="cumulative"
+                                    orientation="right"
+                                    domain={[0, 100]}
+                                    unit="%"
+                                    tick={{ fill: "hsl(215, 15%, 55%)", fontSize: 11 }}
+                                    axisLine={{ stroke: "hsl(215, 20%, 20%)" }}
+                                    tickLine={false}
+                                />
+                                <Tooltip
+                                    contentStyle={{
+                                        backgroundColor: "hsl(215, 25%, 11%)",
+                                        border: "1px solid hsl(215, 20%, 20%)",
+                                        borderRadius: "8px",
+                                        color: "hsl(210, 20%, 92%)",
+                                        fontSize: 12,
+                                    }}
+                                    formatter={(value, name, item) =>
+                                        name === "Cumulative"
+                                            ? [`${Number(value).toFixed(1)}%`, "Cumulative"]
+                                            : [`${value} occurrences`, item.payload?.desc]
+                                    }
+                                />
+                                <Bar
+                                    yAxisId="count"
+                                    dataKey="count"
+                                    name="Count"
+                                    radius={[4, 4, 0, 0]}
+                                    cursor="pointer"
+                                    onClick={(bar: { code: string }) => openDrillDown(bar.code)}
+                                >
+                                    {paretoData.map((bar, index) => (
+                                        <Cell key={bar.code} fill={BAR_COLORS[Math.min(index, BAR_COLORS.length - 1)]} />
+                                    ))}
+                                </Bar>
+                                <Line
+                                    yAxisId="cumulative"
+                                    dataKey="cumulativePercent"
+                                    name="Cumulative"
+                                    stroke="hsl(142, 71%, 45%)"
+                                    strokeWidth={2}
+                                    dot={{ r: 3 }}
+                                />
+                            </ComposedChart>
+                        </ResponsiveContainer>
+                    )}
+                </div>
+                {paretoData.length > 0 && (
+                    <p className="mt-2 text-[10px] text-muted-foreground">
+                        Click a bar to see the lots, parts and operators behind a defect code.
+                    </p>
+                )}
+            </CardContent>
+
+            <Dialog open={selectedCode !== null} onOpenChange={(open) => !open && setSelectedCode(null)}>
+                <DialogContent className="max-w-3xl">
+                    <DialogHeader>
+                        <DialogTitle className="font-mono">
+                            {selectedCode} — {selectedCode && describeDefect(selectedCode)}
+                        </DialogTitle>
+                        <DialogDescription>
+                            {drillDown ? `${drillDown.occurrences.length} occurrences` : "Loading"} · {rangeLabel}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {!drillDown ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            <div className="grid gap-2 sm:grid-cols-3">
+                                <BreakdownList title="By part" items={drillDown.byPart} />
+                                <BreakdownList title="By operator" items={drillDown.byOperator} />
+                                <BreakdownList title="By shift" items={drillDown.byShift} labelOf={shiftLabel} />
+                            </div>
+                            <div className="max-h-72 overflow-y-auto rounded-lg border border-border">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow className="border-border bg-muted/30 hover:bg-muted/30">
+                                            <TableHead className="text-xs text-muted-foreground">Recorded</TableHead>
+                                            <TableHead className="text-xs text-muted-foreground">Lot</TableHead>
+                                            <TableHead className="text-xs text-muted-foreground">Part</TableHead>
+                                            <TableHead className="text-xs text-muted-foreground">Operator</TableHead>
+                                            <TableHead className="text-xs text-muted-foreground">Shift</TableHead>
+                                            <TableHead className="text-xs text-muted-foreground">Attempt</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {drillDown.occurrences.map((occurrence) => (
+                                            <TableRow key={occurrence.recordId} className="border-border">
+                                                <TableCell className="whitespace-nowrap font-mono text-xs text-muted-foreground">
+                                                    {format(parseISO(occurrence.recordedAt), "yyyy-MM-dd HH:mm")}
+                                                </TableCell>
+                                                <TableCell className="font-mono text-xs text-foreground">{occurrence.lotNumber}</TableCell>
+                                                <TableCell className="font-mono text-xs text-foreground">{occurrence.partNumber}</TableCell>
+                                                <TableCell className="text-xs text-foreground">{occurrence.operator}</TableCell>
+                                                <TableCell className="text-xs text-muted-foreground">{shiftLabel(occurrence.shift)}</TableCell>
+                                                <TableCell className="font-mono text-xs text-foreground">#{occurrence.attempt}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </Card>
+    )
+}
@@ -8,11 +8,12 @@
 "use client"
 
 import React, { useState, useCallback, useMemo } from "react"
-import { CheckCircle2, AlertTriangle, Info } from "lucide-react"
+import { CheckCircle2, AlertTriangle, Info, ChevronDown, ChevronRight } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
 import {
     Select,
     SelectContent,
@@ -29,6 +30,28 @@ import {
     TableRow,
 } from "@/components/ui/table"
 import { cn } from "@/lib/utils"
+import {
+    describeResolvedPlan,
+    evaluateSamples,
+    getFieldSamplingPlan,
+    type ResolvedSamplingPlan,
+} from "@/lib/sampling"
+import {
+    describeNumericTolerance,
+    getFeatureDefectCode,
+    getToleranceLimits,
+    isWithinTolerance,
+    type ToleranceLimits,
+} from "@/lib/tolerance"
+import {
+    formatFieldNumber,
+    getEntryUnit,
+    getFieldPrecision,
+    toEntryUnit,
+    toSpecifiedUnit,
+    withFieldUnit,
+    type MeasurementUnit,
+} from "@/lib/units"
 import type { FieldDefinition, InspectionValue } from "@/lib/data"
 
 // ==========================================
@@ -46,6 +69,10 @@ interface DynamicInspectionFormProps {
     isReadOnly?: boolean
     /** Whether lot has been finalized */
     isLotFinalized?: boolean
+    /** Lot quantity (qtyRequired) that sampling plans are sized from */
+    lotSize?: number
+    /** Kiosk's preferred entry unit; readings are converted to each field's specified unit */
+    entryUnit?: MeasurementUnit | null
 }
 
 // ==========================================
@@ -82,15 +109,26 @@ function StatusBadge({ status }: { status: InspectionValue["status"] }) {
 // VALIDATION HELPERS
 // ==========================================
 
-function validateNumericField(
-    value: number | null,
-    min?: number,
-    max?: number
-): InspectionValue["status"] {
+function validateNumericField(value: number | null, field: FieldDefinition): InspectionValue["status"] {
     if (value === null) return "pending"
-    if (min !== undefined && value < min) return "fail"
-    if (max !== undefined && value > max) return "fail"
-    return "pass"
+    return isWithinTolerance(field, value) ? "pass" : "fail"
+}
+
+/**
+ * Drawing tolerance shown under the characteristic name when it is not plain min/max
+ */
+function describeFieldTolerance(field: FieldDefinition): string | undefined {
+    if (field.type !== "numeric" || !field.tolerance) return undefined
+    const defectCode = getFeatureDefectCode(field)
+    const tolerance = describeNumericTolerance(field)
+    return defectCode ? `${tolerance} · ${defectCode}` : tolerance
+}
+
+/**
+ * Input step of a numeric field: one unit of its last specified decimal
+ */
+function entryStep(field: FieldDefinition): string {
+    return (1 / Math.pow(10, getFieldPrecision(field))).toFixed(getFieldPrecision(field))
 }
 
 function validateBooleanField(value: boolean | null): InspectionValue["status"] {
@@ -116,8 +154,36 @@ export function DynamicInspectionForm({
     onValuesChange,
     isReadOnly = false,
     isLotFinalized = false,
+    lotSize,
+    entryUnit = null,
 }: DynamicInspectionFormProps) {
     const inputDisabled = isReadOnly || isLotFinalized
+    const [expandedFields, setExpandedFields] = useState<string[]>([])
+    // Text typed into numeric inputs, shown while editing so the stored (converted and
+    // rounded) reading does not rewrite what is being typed
+    const [typedText, setTypedText] = useState<Record<string, string>>({})
+
+    const numericInputProps = (key: string, display: string, onNumber: (num: number | null) => void) => ({
+        value: typedText[key] ?? display,
+        onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+            const text = e.target.value
+            setTypedText(prev => ({ ...prev, [key]: text }))
+            onNumber(text === "" ? null : parseFloat(text))
+        },
+        onBlur: () => setTypedText(prev => {
+            const next = { ...prev }
+            delete next[key]
+            return next
+        }),
+    })
+
+    const getSamplingPlan = useCallback((field: FieldDefinition): ResolvedSamplingPlan | undefined => {
+        return lotSize !== undefined ? getFieldSamplingPlan(field, lotSize) : undefined
+    }, [lotSize])
+
+    const toggleExpanded = (fieldId: string) => {
+        setExpandedFields(prev => prev.includes(fieldId) ? prev.filter(id => id !== fieldId) : [...prev, fieldId])
+    }
 
     // Get value for a field
     const getValue = useCallback((fieldId: string): InspectionValue => {
@@ -134,7 +200,8 @@ export function DynamicInspectionForm({
 
         switch (field.type) {
             case "numeric":
-                status = validateNumericField(newValue as number | null, field.min, field.max)
+                if (newValue !== null) newValue = toSpecifiedUnit(field, newValue as number, entryUnit)
+                status = validateNumericField(newValue as number | null, field)
                 break
             case "boolean":
                 status = validateBooleanField(newValue as boolean | null)
@@ -147,7 +214,77 @@ export function DynamicInspectionForm({
         const newValues = values.filter(v => v.fieldId !== fieldId)
         newValues.push({ fieldId, value: newValue, status })
         onValuesChange(newValues)
-    }, [values, onValuesChange])
+    }, [values, onValuesChange, entryUnit])
+
+    // Update one piece of a sampled field; the plan's Ac/Re decides the status
+    const updateSample = useCallback((field: FieldDefinition, plan: ResolvedSamplingPlan, index: number, piece: number | null) => {
+        const current = values.find(v => v.fieldId === field.id)?.samples ?? []
+        const stored = piece === null ? null : toSpecifiedUnit(field, piece, entryUnit)
+        const samples = Array.from({ length: plan.sampleSize }, (_, i) => i === index ? stored : current[i] ?? null)
+        const { status, mean } = evaluateSamples(field, samples, plan)
+
+        const newValues = values.filter(v => v.fieldId !== field.id)
+        newValues.push({ fieldId: field.id, value: mean, status, samples })
+        onValuesChange(newValues)
+    }, [values, onValuesChange, entryUnit])
+
+    // Summary cell and piece inputs of a sampled field
+    const renderSampledInput = (field: FieldDefinition, plan: ResolvedSamplingPlan) => {
+        const inspValue = getValue(field.id)
+        const { measured, nonconforming } = evaluateSamples(field, inspValue.samples ?? [], plan)
+        const isExpanded = expandedFields.includes(field.id)
+
+        return (
+            <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => toggleExpanded(field.id)}
+                className={cn(
+                    "h-10 gap-1 font-mono text-xs",
+                    inspValue.status === "fail" && "border-destructive bg-destructive/10 text-destructive border-2",
+                    inspValue.status === "pass" && "border-success bg-success/10 text-success border-2"
+                )}
+            >
+                {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                {measured}/{plan.sampleSize} pcs · {nonconforming} NC
+            </Button>
+        )
+    }
+
+    const renderSampleGrid = (field: FieldDefinition, plan: ResolvedSamplingPlan) => {
+        const samples = getValue(field.id).samples ?? []
+        return (
+            <div className="grid grid-cols-4 gap-2 sm:grid-cols-6 lg:grid-cols-10">
+                {Array.from({ length: plan.sampleSize }, (_, index) => {
+                    const piece = samples[index] ?? null
+                    const isConforming = piece === null ? null : isWithinTolerance(field, piece)
+                    return (
+                        <div key={index} className="space-y-0.5">
+                            <Label className="text-[10px] text-muted-foreground">
+                                #{index + 1} {getEntryUnit(field, entryUnit)}
+                            </Label>
+                            <Input
+                                type="number"
+                                step={entryStep(field)}
+                                {...numericInputProps(
+                                    `${field.id}#${index}`,
+                                    piece !== null ? String(toEntryUnit(field, piece, entryUnit)) : "",
+                                    (num) => updateSample(field, plan, index, num)
+                                )}
+                                disabled={inputDisabled}
+                                className={cn(
+                                    "h-9 text-right font-mono text-xs border-border bg-muted/30 text-foreground",
+                                    isConforming === false && "border-destructive bg-destructive/10 text-destructive",
+                                    isConforming === true && "border-success bg-success/10 text-success"
+                                )}
+                            />
+                        </div>
+                    )
+                })}
+            </div>
+        )
+    }
 
     // Render input based on field type
     const renderInput = (field: FieldDefinition) => {
@@ -156,25 +293,40 @@ export function DynamicInspectionForm({
         const status = inspValue.status
 
         switch (field.type) {
-            case "numeric":
+            case "numeric": {
+                const plan = getSamplingPlan(field)
+                if (plan) return renderSampledInput(field, plan)
+                const inputUnit = getEntryUnit(field, entryUnit)
+                const isConverted = inputUnit !== undefined && inputUnit !== field.unit
                 return (
-                    <Input
-                        type="number"
-                        step="0.01"
-                        value={value !== null ? String(value) : ""}
-                        onChange={(e) => {
-                            const num = e.target.value === "" ? null : parseFloat(e.target.value)
-                            updateValue(field.id, num, field)
-                        }}
-                        disabled={inputDisabled}
-                        placeholder="Enter..."
-                        className={cn(
-                            "h-10 w-28 text-right font-mono border-border bg-muted/30 text-foreground placeholder:text-muted-foreground/50",
-                            status === "fail" && "border-destructive bg-destructive/10 text-destructive border-2",
-                            status === "pass" && "border-success bg-success/10 text-success border-2"
+                    <div className="inline-flex flex-col items-end gap-0.5">
+                        <div className="flex items-center gap-1">
+                            <Input
+                                type="number"
+                                step={entryStep(field)}
+                                {...numericInputProps(
+                                    field.id,
+                                    typeof value === "number" ? String(toEntryUnit(field, value, entryUnit)) : "",
+                                    (num) => updateValue(field.id, num, field)
+                                )}
+                                disabled={inputDisabled}
+                                placeholder="Enter..."
+                                className={cn(
+                                    "h-10 w-28 text-right font-mono border-border bg-muted/30 text-foreground placeholder:text-muted-foreground/50",
+                                    status === "fail" && "border-destructive bg-destructive/10 text-destructive border-2",
+                                    status === "pass" && "border-success bg-success/10 text-success border-2"
+                                )}
+                            />
+                            {inputUnit && <span className="w-6 text-left font-mono text-xs text-muted-foreground">{inputUnit}</span>}
+                        </div>
+                        {isConverted && typeof value === "number" && (
+                            <span className="font-mono text-[10px] text-muted-foreground">
+                                = {withFieldUnit(field, formatFieldNumber(field, value))}
+                            </span>
                         )}
-                    />
+                    </div>
                 )
+            }
 
             case "boolean":
                 return (
@@ -286,44 +438,61 @@ export function DynamicInspectionForm({
                     <TableBody>
                         {fields.map((field, index) => {
                             const inspValue = getValue(field.id)
+                            const plan = field.type === "numeric" ? getSamplingPlan(field) : undefined
+                            const limits: ToleranceLimits = field.type === "numeric" ? getToleranceLimits(field) : {}
+                            const toleranceNote = describeFieldTolerance(field)
                             return (
-                                <TableRow
-                                    key={field.id}
-                                    className={cn(
-                                        "border-border transition-colors",
-                                        inspValue.status === "fail" && "bg-destructive/5",
-                                        inspValue.status === "pass" && "bg-success/5"
-                                    )}
-                                >
-                                    <TableCell className="font-mono text-muted-foreground">
-                                        {index + 1}
-                                    </TableCell>
-                                    <TableCell className="font-medium text-foreground">
-                                        {field.name}
-                                        {field.required && (
-                                            <span className="text-destructive ml-1">*</span>
+                                <React.Fragment key={field.id}>
+                                    <TableRow
+                                        className={cn(
+                                            "border-border transition-colors",
+                                            inspValue.status === "fail" && "bg-destructive/5",
+                                            inspValue.status === "pass" && "bg-success/5"
                                         )}
-                                    </TableCell>
-                                    <TableCell className="text-muted-foreground">
-                                        {field.tool || "---"}
-                                    </TableCell>
-                                    <TableCell className="text-right font-mono text-muted-foreground">
-                                        {field.type === "numeric" && field.min !== undefined
-                                            ? field.min.toFixed(2)
-                                            : "---"}
-                                    </TableCell>
-                                    <TableCell className="text-right font-mono text-muted-foreground">
-                                        {field.type === "numeric" && field.max !== undefined
-                                            ? field.max.toFixed(2)
-                                            : "---"}
-                                    </TableCell>
-                                    <TableCell className="text-right">
-                                        {renderInput(field)}
-                                    </TableCell>
-                                    <TableCell className="text-center">
-                                        <StatusBadge status={inspValue.status} />
-                                    </TableCell>
-                                </TableRow>
+                                    >
+                                        <TableCell className="font-mono text-muted-foreground">
+                                            {index + 1}
+                                        </TableCell>
+                                        <TableCell className="font-medium text-foreground">
+                                            {field.name}
+                                            {field.required && (
+                                                <span className="text-destructive ml-1">*</span>
+                                            )}
+                                            {toleranceNote && (
+                                                <p className="font-mono text-[10px] font-normal text-muted-foreground">
+                                                    {toleranceNote}
+                                                </p>
+                                            )}
+                                            {plan && (
+                                                <p className="text-[10px] font-normal text-muted-foreground">
+                                                    {describeResolvedPlan(plan)}
+                                                </p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-muted-foreground">
+                                            {field.tool || "---"}
+                                        </TableCell>
+                                        <TableCell className="text-right font-mono text-muted-foreground">
+                                            {limits.min !== undefined ? withFieldUnit(field, formatFieldNumber(field, limits.min)) : "---"}
+                                        </TableCell>
+                                        <TableCell className="text-right font-mono text-muted-foreground">
+                                            {limits.max !== undefined ? withFieldUnit(field, formatFieldNumber(field, limits.max)) : "---"}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {renderInput(field)}
+                                        </TableCell>
+                                        <TableCell className="text-center">
+                                            <StatusBadge status={inspValue.status} />
+                                        </TableCell>
+                                    </TableRow>
+                                    {plan && expandedFields.includes(field.id) && (
+                                        <TableRow className="border-border hover:bg-transparent">
+                                            <TableCell colSpan={7} className="bg-muted/10">
+                                                {renderSampleGrid(field, plan)}
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                </React.Fragment>
                             )
                         })}
                     </TableBody>
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Electronic signature fields for critical-action dialogs.
+ * States the signature meaning and asks the signer to re-enter their PIN.
+ * @module components/features/quality/ESignatureFields
+ */
+
+"use client"
+
+import React from "react"
+import { PenLine } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { SIGNATURE_MEANING_LABELS } from "@/lib/signature"
+import type { SignatureMeaning } from "@/lib/data"
+
+interface ESignatureFieldsProps {
+    meaning: SignatureMeaning
+    /** What is being signed, e.g. "Lot #STD260305" */
+    subject: string
+    pin: string
+    onPinChange: (pin: string) => void
+    id?: string
+}
+
+export function ESignatureFields({ meaning, subject, pin, onPinChange, id = "esignature-pin" }: ESignatureFieldsProps) {
+    return (
+        <div className="space-y-2 rounded-lg border border-primary/30 bg-primary/5 p-3">
+            <div className="flex items-center gap-2 text-xs font-semibold text-primary">
+                <PenLine className="h-4 w-4" />
+                ELECTRONIC SIGNATURE
+            </div>
+            <p className="text-xs text-foreground">
+                Meaning: <span className="font-semibold">{SIGNATURE_MEANING_LABELS[meaning]}</span> — {subject}
+            </p>
+            <p className="text-[11px] text-muted-foreground">
+                Your name, this meaning, the time and a hash of the signed record are stored with the signature.
+            </p>
+            <div className="space-y-1">
+                <Label htmlFor={id} className="text-xs">Signer PIN *</Label>
+                <Input
+                    id={id}
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={pin}
+                    onChange={(e) => onPinChange(e.target.value)}
+                    placeholder="Re-enter your PIN to sign"
+                    className="h-10 font-mono"
+                />
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Inspection attempt history for a lot.
+ * Lists every previous attempt of a reworked lot with its verdict and failed readings.
+ * @module components/features/quality/InspectionAttemptHistory
+ */
+
+"use client"
+
+import React from "react"
+import { History } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { InspectionRecord } from "@/lib/data"
+
+interface InspectionAttemptHistoryProps {
+    attempts: InspectionRecord[]
+}
+
+export function InspectionAttemptHistory({ attempts }: InspectionAttemptHistoryProps) {
+    if (attempts.length === 0) return null
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                    <History className="h-4 w-4 text-primary" />
+                    Inspection Attempts
+                    <Badge variant="secondary" className="ml-auto text-[10px]">{attempts.length}</Badge>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+                <Table>
+                    <TableHeader>
+                        <TableRow className="border-border hover:bg-transparent">
+                            <TableHead className="text-xs text-muted-foreground">#</TableHead>
+                            <TableHead className="text-xs text-muted-foreground">Date</TableHead>
+                            <TableHead className="text-xs text-muted-foreground">Inspector</TableHead>
+                            <TableHead className="text-xs text-muted-foreground">Failed Characteristics</TableHead>
+                            <TableHead className="text-xs text-muted-foreground">Verdict</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {attempts.map((attempt) => {
+                            const failed = attempt.readings.filter((reading) => reading.status === "fail")
+                            return (
+                                <TableRow key={attempt.id} className="border-border">
+                                    <TableCell className="font-mono text-xs font-semibold text-foreground">{attempt.attempt}</TableCell>
+                                    <TableCell className="text-xs text-muted-foreground">
+                                        {new Date(attempt.recordedAt).toLocaleString()}
+                                    </TableCell>
+                                    <TableCell className="text-xs text-foreground">{attempt.inspector}</TableCell>
+                                    <TableCell className="text-xs text-muted-foreground">
+                                        {failed.length > 0
+                                            ? failed.map((reading) => `${reading.name} (${reading.value ?? "N/A"}${reading.unit ? ` ${reading.unit}` : ""})`).join(", ")
+                                            : "None"}
+                                    </TableCell>
+                                    <TableCell>
+                                        <Badge
+                                            className={cn(
+                                                "border-0 text-[10px]",
+                                                attempt.verdict === "released"
+                                                    ? "bg-success/15 text-success"
+                                                    : "bg-destructive/15 text-destructive"
+                                            )}
+                                        >
+                                            {attempt.verdict.toUpperCase()}
+                                        </Badge>
+                                    </TableCell>
+                                </TableRow>
+                            )
+                        })}
+                    </TableBody>
+                </Table>
+            </CardContent>
+        </Card>
+    )
+}
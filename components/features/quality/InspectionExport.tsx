@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Inspection records export card.
+ * Downloads the stored inspection records as an .xlsx workbook, per lot or per date range.
+ * @module components/features/quality/InspectionExport
+ */
+
+"use client"
+
+import React, { useState } from "react"
+import { format, startOfMonth } from "date-fns"
+import { FileSpreadsheet, Download, Loader2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * Fetches the workbook and saves it with the file name sent by the server
+ */
+async function downloadWorkbook(query: URLSearchParams): Promise<void> {
+    const response = await fetch(`/api/exports/inspections?${query}`)
+    if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error?.message ?? "Export failed")
+    }
+
+    const disposition = response.headers.get("Content-Disposition") ?? ""
+    const fileName = disposition.match(/filename="(.+)"/)?.[1] ?? "Inspections.xlsx"
+
+    const url = URL.createObjectURL(await response.blob())
+    const link = document.createElement("a")
+    link.href = url
+    link.download = fileName
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+// ==========================================
+// MAIN COMPONENT
+// ==========================================
+
+export function InspectionExport() {
+    const today = format(new Date(), "yyyy-MM-dd")
+    const [lotNumber, setLotNumber] = useState("")
+    const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"))
+    const [to, setTo] = useState(today)
+    const [exporting, setExporting] = useState<"lot" | "range" | null>(null)
+
+    const handleExport = async (mode: "lot" | "range") => {
+        const query = mode === "lot"
+            ? new URLSearchParams({ lot: lotNumber.trim() })
+            : new URLSearchParams({ from, to })
+
+        setExporting(mode)
+        try {
+            await downloadWorkbook(query)
+            toast.success("Workbook exported")
+        } catch (error) {
+            console.error("Error exporting inspections:", error)
+            toast.error("Error exporting inspections", {
+                description: error instanceof Error ? error.message : undefined,
+            })
+        } finally {
+            setExporting(null)
+        }
+    }
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                    <FileSpreadsheet className="h-4 w-4 text-primary" />
+                    Export Inspection Records (.xlsx)
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                {/* Per lot */}
+                <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">By Lot</Label>
+                    <div className="flex gap-2">
+                        <Input
+                            value={lotNumber}
+                            onChange={(e) => setLotNumber(e.target.value.toUpperCase())}
+                            placeholder="e.g., STD260305"
+                            className="h-10 font-mono"
+                        />
+                        <Button
+                            onClick={() => handleExport("lot")}
+                            disabled={!lotNumber.trim() || exporting !== null}
+                            className="h-10 gap-2"
+                        >
+                            {exporting === "lot" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                            Export
+                        </Button>
+                    </div>
+                </div>
+
+                {/* Per date range */}
+                <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">By Date Range</Label>
+                    <div className="flex gap-2">
+                        <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="h-10" />
+                        <Input type="date" value={to} min={from} max={today} onChange={(e) => setTo(e.target.value)} className="h-10" />
+                        <Button
+                            onClick={() => handleExport("range")}
+                            disabled={!from || !to || exporting !== null}
+                            className="h-10 gap-2"
+                        >
+                            {exporting === "range" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                            Export
+                        </Button>
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Date range, shift and part filters for the manager dashboard KPIs.
+ * @module components/features/quality/KpiFilterBar
+ */
+
+"use client"
+
+import React from "react"
+import { format } from "date-fns"
+import { CalendarRange, Loader2 } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { SHIFTS, type KpiFilter, type Shift } from "@/lib/kpi"
+
+const ALL = "all"
+
+interface KpiFilterBarProps {
+    filter: KpiFilter
+    onChange: (filter: KpiFilter) => void
+    /** Part numbers offered in the part filter */
+    partNumbers: string[]
+    isLoading?: boolean
+}
+
+export function KpiFilterBar({ filter, onChange, partNumbers, isLoading = false }: KpiFilterBarProps) {
+    const today = format(new Date(), "yyyy-MM-dd")
+    const update = (updates: Partial<KpiFilter>) => onChange({ ...filter, ...updates })
+    // Keep the selected part listed even when it has no activity in the new range
+    const partOptions = filter.partNumber && !partNumbers.includes(filter.partNumber)
+        ? [...partNumbers, filter.partNumber]
+        : partNumbers
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border bg-card p-3">
+            <CalendarRange className="h-4 w-4 text-primary" />
+            <Input
+                type="date"
+                value={filter.from}
+                max={filter.to}
+                onChange={(e) => e.target.value && update({ from: e.target.value })}
+                className="h-9 w-40 text-xs"
+                aria-label="From date"
+            />
+            <span className="text-xs text-muted-foreground">to</span>
+            <Input
+                type="date"
+                value={filter.to}
+                min={filter.from}
+                max={today}
+                onChange={(e) => e.target.value && update({ to: e.target.value })}
+                className="h-9 w-40 text-xs"
+                aria-label="To date"
+            />
+            <Select
+                value={filter.shift ?? ALL}
+                onValueChange={(value) => update({ shift: value === ALL ? undefined : (value as Shift) })}
+            >
+                <SelectTrigger className="h-9 w-44 text-xs">
+                    <SelectValue placeholder="All shifts" />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={ALL}>All shifts</SelectItem>
+                    {SHIFTS.map((shift) => (
+                        <SelectItem key={shift.value} value={shift.value}>{shift.label}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <Select
+                value={filter.partNumber ?? ALL}
+                onValueChange={(value) => update({ partNumber: value === ALL ? undefined : value })}
+            >
+                <SelectTrigger className="h-9 w-44 font-mono text-xs">
+                    <SelectValue placeholder="All parts" />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={ALL}>All parts</SelectItem>
+                    {partOptions.map((partNumber) => (
+                        <SelectItem key={partNumber} value={partNumber} className="font-mono">{partNumber}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+    )
+}
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Material Review Board disposition dialog.
+ * Records the MRB decision for an NCR under review with a justification,
+ * e-signed by the approver's PIN.
+ * @module components/features/quality/MrbDispositionDialog
+ */
+
+"use client"
+
+import React, { useState } from "react"
+import { Gavel, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { ESignatureFields } from "./ESignatureFields"
+import { dispositionNcr } from "@/lib/actions/ncrs"
+import { MRB_DISPOSITIONS } from "@/lib/ncr"
+import type { MrbDisposition, NonconformanceReport } from "@/lib/data"
+
+interface MrbDispositionDialogProps {
+    ncr: NonconformanceReport
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    /** Called with the dispositioned NCR */
+    onDispositioned: (ncr: NonconformanceReport) => void
+}
+
+export function MrbDispositionDialog({ ncr, open, onOpenChange, onDispositioned }: MrbDispositionDialogProps) {
+    const [disposition, setDisposition] = useState<MrbDisposition | "">("")
+    const [justification, setJustification] = useState("")
+    const [pin, setPin] = useState("")
+    const [isSubmitting, setIsSubmitting] = useState(false)
+
+    const reset = () => {
+        setDisposition("")
+        setJustification("")
+        setPin("")
+    }
+
+    const handleOpenChange = (next: boolean) => {
+        if (!next) reset()
+        onOpenChange(next)
+    }
+
+    const handleSubmit = async () => {
+        if (!disposition) return
+
+        setIsSubmitting(true)
+        try {
+            const result = await dispositionNcr(ncr.ncrNumber, disposition, justification, pin)
+            if (!result.success) {
+                toast.error(result.error)
+                setPin("")
+                return
+            }
+            onDispositioned(result.ncr)
+            toast.success(`${result.ncr.ncrNumber} dispositioned by ${result.ncr.disposition?.approvedBy}`, {
+                description: result.certificate && `Certificate ${result.certificate.certNumber} issued for lot ${result.ncr.lotNumber}.`,
+            })
+            handleOpenChange(false)
+        } catch (error) {
+            console.error("Error recording MRB disposition:", error)
+            toast.error("Error recording MRB disposition")
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const canSubmit = disposition !== "" && justification.trim() !== "" && pin.length > 0 && !isSubmitting
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="bg-card border-border max-w-lg">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Gavel className="h-4 w-4 text-primary" />
+                        MRB Disposition - {ncr.ncrNumber}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Lot {ncr.lotNumber} · {ncr.quantityAffected.toLocaleString()} pcs affected
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <RadioGroup
+                        value={disposition}
+                        onValueChange={(value) => setDisposition(value as MrbDisposition)}
+                        className="gap-2"
+                    >
+                        {MRB_DISPOSITIONS.map((option) => (
+                            <Label
+                                key={option.value}
+                                htmlFor={`mrb-${option.value}`}
+                                className="flex cursor-pointer items-start gap-3 rounded-lg border border-border p-3 hover:bg-muted/50"
+                            >
+                                <RadioGroupItem id={`mrb-${option.value}`} value={option.value} className="mt-0.5" />
+                                <div className="space-y-0.5">
+                                    <p className="text-sm font-medium text-foreground">{option.label}</p>
+                                    <p className="text-xs font-normal text-muted-foreground">{option.description}</p>
+                                </div>
+                            </Label>
+                        ))}
+                    </RadioGroup>
+
+                    <div className="space-y-1">
+                        <Label htmlFor="mrb-justification">Justification *</Label>
+                        <Textarea
+                            id="mrb-justification"
+                            value={justification}
+                            onChange={(e) => setJustification(e.target.value)}
+                            placeholder="Engineering or customer basis for the decision"
+                            rows={3}
+                            className="text-xs"
+                        />
+                    </div>
+
+                    <ESignatureFields
+                        id="mrb-pin"
+                        meaning="mrb_disposition"
+                        subject={`${ncr.ncrNumber}, lot ${ncr.lotNumber}`}
+                        pin={pin}
+                        onPinChange={setPin}
+                    />
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={!canSubmit} className="gap-2">
+                        {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Gavel className="h-4 w-4" />}
+                        Sign Disposition
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,305 @@
+/**
+ * @fileoverview Nonconformance Report tracker.
+ * Lists NCRs raised by rejected lots, moves them through the workflow
+ * (open, under review, dispositioned, closed), records the MRB disposition
+ * and prints them as PDF.
+ * @module components/features/quality/NcrTracker
+ */
+
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import { FileWarning, Printer, ArrowRight, Loader2, Gavel, ClipboardList } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+import { getNcrs, transitionNcr } from "@/lib/actions/ncrs"
+import { openCapaFromNcr } from "@/lib/actions/capas"
+import { MRB_DISPOSITIONS, NCR_ACTION_LABELS, NCR_STATUS_LABELS, NCR_TRANSITIONS } from "@/lib/ncr"
+import { generateNCRReportPDF } from "@/lib/pdf/NCRReportPDFGenerator"
+import type { CapaRecord, NcrStatus, NonconformanceReport } from "@/lib/data"
+import { MrbDispositionDialog } from "./MrbDispositionDialog"
+
+// ==========================================
+// STATUS BADGE
+// ==========================================
+
+const STATUS_STYLES: Record<NcrStatus, string> = {
+    open: "bg-destructive/15 text-destructive",
+    under_review: "bg-warning/15 text-warning",
+    dispositioned: "bg-primary/15 text-primary",
+    closed: "bg-success/15 text-success",
+}
+
+export function NcrStatusBadge({ status }: { status: NcrStatus }) {
+    return (
+        <Badge className={cn("border-0 text-[10px]", STATUS_STYLES[status])}>
+            {NCR_STATUS_LABELS[status]}
+        </Badge>
+    )
+}
+
+// ==========================================
+// MAIN COMPONENT
+// ==========================================
+
+interface NcrTrackerProps {
+    /** Called with the 8D opened (or already open) for an NCR */
+    onCapaOpened?: (capa: CapaRecord) => void
+}
+
+export function NcrTracker({ onCapaOpened }: NcrTrackerProps) {
+    const [ncrs, setNcrs] = useState<NonconformanceReport[]>([])
+    const [selected, setSelected] = useState<NonconformanceReport | null>(null)
+    const [note, setNote] = useState("")
+    const [isLoading, setIsLoading] = useState(true)
+    const [isUpdating, setIsUpdating] = useState(false)
+    const [showMrbDialog, setShowMrbDialog] = useState(false)
+
+    const loadNcrs = useCallback(async () => {
+        try {
+            setNcrs(await getNcrs())
+        } catch (error) {
+            console.error("Error loading NCRs:", error)
+            toast.error("Error loading nonconformance reports")
+        } finally {
+            setIsLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        loadNcrs()
+    }, [loadNcrs])
+
+    const replaceNcr = (updated: NonconformanceReport) => {
+        setSelected(updated)
+        setNcrs((prev) => prev.map((ncr) => (ncr.ncrNumber === updated.ncrNumber ? updated : ncr)))
+    }
+
+    const handleTransition = async (to: NcrStatus) => {
+        if (!selected) return
+
+        setIsUpdating(true)
+        try {
+            const result = await transitionNcr(selected.ncrNumber, to, note)
+            if (!result.success) {
+                toast.error(result.error)
+                return
+            }
+            replaceNcr(result.ncr)
+            setNote("")
+            toast.success(`${result.ncr.ncrNumber} is now ${NCR_STATUS_LABELS[to]}`)
+        } catch (error) {
+            console.error("Error updating NCR:", error)
+            toast.error("Error updating NCR")
+        } finally {
+            setIsUpdating(false)
+        }
+    }
+
+    const handleOpenCapa = async () => {
+        if (!selected) return
+
+        setIsUpdating(true)
+        try {
+            const result = await openCapaFromNcr(selected.ncrNumber)
+            if (!result.success) {
+                toast.error(result.error)
+                return
+            }
+            onCapaOpened?.(result.capa)
+            toast.success(`${result.capa.capaNumber} linked to ${selected.ncrNumber}`)
+        } catch (error) {
+            console.error("Error opening CAPA:", error)
+            toast.error("Error opening CAPA")
+        } finally {
+            setIsUpdating(false)
+        }
+    }
+
+    const openCount = ncrs.filter((ncr) => ncr.status !== "closed").length
+    // Disposition goes through the MRB dialog, which requires an approver PIN
+    const plainTransitions = selected
+        ? NCR_TRANSITIONS[selected.status].filter((to) => to !== "dispositioned")
+        : []
+    const selectedDisposition = selected?.disposition
+        ? MRB_DISPOSITIONS.find((option) => option.value === selected.disposition?.disposition)
+        : undefined
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                        <FileWarning className="h-4 w-4 text-destructive" />
+                        Nonconformance Reports
+                    </CardTitle>
+                    <Badge variant="secondary" className="text-[10px]">
+                        {openCount} open
+                    </Badge>
+                </div>
+            </CardHeader>
+            <CardContent className="grid gap-4 lg:grid-cols-2">
+                {/* NCR List */}
+                <div className="overflow-x-auto">
+                    <Table>
+                        <TableHeader>
+                            <TableRow className="border-border hover:bg-transparent">
+                                <TableHead className="text-xs text-muted-foreground">NCR</TableHead>
+                                <TableHead className="text-xs text-muted-foreground">Lot</TableHead>
+                                <TableHead className="text-xs text-muted-foreground text-right">Qty</TableHead>
+                                <TableHead className="text-xs text-muted-foreground">Status</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {isLoading ? (
+                                <TableRow>
+                                    <TableCell colSpan={4} className="py-6 text-center">
+                                        <Loader2 className="mx-auto h-4 w-4 animate-spin text-muted-foreground" />
+                                    </TableCell>
+                                </TableRow>
+                            ) : ncrs.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={4} className="py-6 text-center text-xs text-muted-foreground">
+                                        No nonconformance reports
+                                    </TableCell>
+                                </TableRow>
+                            ) : (
+                                ncrs.map((ncr) => (
+                                    <TableRow
+                                        key={ncr.ncrNumber}
+                                        onClick={() => {
+                                            setSelected(ncr)
+                                            setNote("")
+                                        }}
+                                        className={cn(
+                                            "cursor-pointer border-border",
+                                            selected?.ncrNumber === ncr.ncrNumber && "bg-primary/10"
+                                        )}
+                                    >
+                                        <TableCell className="font-mono text-xs font-semibold text-foreground">{ncr.ncrNumber}</TableCell>
+                                        <TableCell className="font-mono text-xs text-muted-foreground">{ncr.lotNumber}</TableCell>
+                                        <TableCell className="text-right font-mono text-xs text-foreground">
+                                            {ncr.quantityAffected.toLocaleString()}
+                                        </TableCell>
+                                        <TableCell><NcrStatusBadge status={ncr.status} /></TableCell>
+                                    </TableRow>
+                                ))
+                            )}
+                        </TableBody>
+                    </Table>
+                </div>
+
+                {/* NCR Detail */}
+                {selected ? (
+                    <div className="space-y-3 rounded-lg border border-border bg-muted/30 p-4">
+                        <div className="flex items-center justify-between">
+                            <p className="font-mono text-sm font-bold text-foreground">{selected.ncrNumber}</p>
+                            <NcrStatusBadge status={selected.status} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 text-xs">
+                            <p className="text-muted-foreground">Part: <span className="font-mono text-foreground">{selected.partNumber} {selected.revision}</span></p>
+                            <p className="text-muted-foreground">Inspector: <span className="text-foreground">{selected.inspector}</span></p>
+                            <p className="text-muted-foreground">Defects: <span className="font-mono text-foreground">{selected.defectCodes.join(", ") || "N/A"}</span></p>
+                            <p className="text-muted-foreground">Opened: <span className="text-foreground">{new Date(selected.createdAt).toLocaleString()}</span></p>
+                        </div>
+
+                        {selected.findings.length > 0 && (
+                            <div className="space-y-1">
+                                {selected.findings.map((finding) => (
+                                    <div key={finding.fieldId} className="flex items-center justify-between rounded border border-destructive/30 bg-destructive/10 px-2 py-1 text-xs">
+                                        <span className="text-foreground">{finding.characteristic}</span>
+                                        <span className="font-mono text-muted-foreground">
+                                            {finding.tolerance} → <span className="font-semibold text-destructive">{finding.measured}</span>
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {selected.disposition && (
+                            <div className="space-y-1 rounded border border-primary/30 bg-primary/10 px-3 py-2 text-xs">
+                                <p className="flex items-center gap-1 font-semibold text-primary">
+                                    <Gavel className="h-3 w-3" />
+                                    MRB: {selectedDisposition?.label ?? selected.disposition.disposition}
+                                </p>
+                                <p className="text-foreground">{selected.disposition.justification}</p>
+                                <p className="text-muted-foreground">
+                                    Approved by {selected.disposition.approvedBy} · {new Date(selected.disposition.decidedAt).toLocaleString()}
+                                </p>
+                            </div>
+                        )}
+
+                        {selected.status === "under_review" && (
+                            <Button size="sm" onClick={() => setShowMrbDialog(true)} className="w-full gap-2">
+                                <Gavel className="h-4 w-4" />
+                                MRB Disposition
+                            </Button>
+                        )}
+
+                        {plainTransitions.length > 0 && (
+                            <div className="space-y-2">
+                                <Textarea
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    placeholder="Note for the status change (optional)"
+                                    rows={2}
+                                    className="text-xs"
+                                />
+                                <div className="flex gap-2">
+                                    {plainTransitions.map((to) => (
+                                        <Button
+                                            key={to}
+                                            size="sm"
+                                            onClick={() => handleTransition(to)}
+                                            disabled={isUpdating}
+                                            className="gap-1"
+                                        >
+                                            <ArrowRight className="h-3 w-3" />
+                                            {NCR_ACTION_LABELS[to]}
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <Button variant="outline" size="sm" onClick={handleOpenCapa} disabled={isUpdating} className="gap-2">
+                                <ClipboardList className="h-4 w-4" />
+                                Open 8D
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => generateNCRReportPDF(selected)} className="gap-2">
+                                <Printer className="h-4 w-4" />
+                                Print NCR
+                            </Button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex items-center justify-center rounded-lg border border-dashed border-border p-6 text-xs text-muted-foreground">
+                        Select an NCR to review it
+                    </div>
+                )}
+            </CardContent>
+
+            {selected && (
+                <MrbDispositionDialog
+                    ncr={selected}
+                    open={showMrbDialog}
+                    onOpenChange={setShowMrbDialog}
+                    onDispositioned={replaceNcr}
+                />
+            )}
+        </Card>
+    )
+}
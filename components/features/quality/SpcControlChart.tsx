@@ -0,0 +1,370 @@
+/**
+ * @fileoverview Statistical Process Control chart for a part characteristic.
+ * Plots X-bar/R or individuals/moving-range charts across lots and links
+ * Western Electric rule violations to the inspection attempts of the lot.
+ * @module components/features/quality/SpcControlChart
+ */
+
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Activity, Loader2 } from "lucide-react"
+import {
+    CartesianGrid,
+    Line,
+    LineChart,
+    ReferenceLine,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+import { toast } from "sonner"
+import { InspectionAttemptHistory } from "./InspectionAttemptHistory"
+import { CharacteristicPicker, useNumericCharacteristic } from "./CharacteristicPicker"
+import { getSpcChart } from "@/lib/actions/spc"
+import { getInspectionAttempts } from "@/lib/actions/inspections"
+import { WESTERN_ELECTRIC_RULES, type SpcChart } from "@/lib/spc"
+import type { InspectionRecord } from "@/lib/data"
+
+const AXIS_TICK = { fill: "hsl(215, 15%, 55%)", fontSize: 11 }
+const AXIS_LINE = { stroke: "hsl(215, 20%, 20%)" }
+const TOOLTIP_STYLE = {
+    backgroundColor: "hsl(215, 25%, 11%)",
+    border: "1px solid hsl(215, 20%, 20%)",
+    borderRadius: "8px",
+    color: "hsl(210, 20%, 92%)",
+    fontSize: 12,
+}
+const LIMIT_COLOR = "hsl(0, 72%, 51%)"
+const CENTER_COLOR = "hsl(142, 71%, 45%)"
+const SPEC_COLOR = "hsl(38, 92%, 50%)"
+const POINT_COLOR = "hsl(213, 94%, 52%)"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+function formatValue(value: number | null | undefined): string {
+    return value === null || value === undefined ? "—" : String(Number(value.toFixed(4)))
+}
+
+interface ChartDotProps {
+    cx?: number
+    cy?: number
+    index?: number
+}
+
+/**
+ * Dot renderer that marks points flagged by a rule
+ */
+function renderDot(flagged: Set<number>) {
+    return function SpcDot({ cx, cy, index }: ChartDotProps) {
+        if (cx === undefined || cy === undefined || index === undefined) return <g key={`dot-${index}`} />
+        const isFlagged = flagged.has(index)
+        return (
+            <circle
+                key={`dot-${index}`}
+                cx={cx}
+                cy={cy}
+                r={isFlagged ? 5 : 3}
+                fill={isFlagged ? LIMIT_COLOR : POINT_COLOR}
+                stroke="none"
+            />
+        )
+    }
+}
+
+// ==========================================
+// MAIN COMPONENT
+// ==========================================
+
+export function SpcControlChart() {
+    const characteristic = useNumericCharacteristic()
+    const { numericParts, part, field } = characteristic
+    const [chart, setChart] = useState<SpcChart | null>(null)
+    const [isLoading, setIsLoading] = useState(false)
+    const [selectedLot, setSelectedLot] = useState<string | null>(null)
+    const [lotAttempts, setLotAttempts] = useState<InspectionRecord[] | null>(null)
+
+    useEffect(() => {
+        if (!part || !field) return
+        let cancelled = false
+        setIsLoading(true)
+        getSpcChart(part.partNumber, field.id)
+            .then((result) => {
+                if (cancelled) return
+                if (result.success) {
+                    setChart(result.chart)
+                } else {
+                    setChart(null)
+                    toast.error(result.error)
+                }
+            })
+            .catch((error) => {
+                console.error("Error loading SPC chart:", error)
+                toast.error("Error loading SPC chart")
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [part?.partNumber, field?.id])
+
+    const openLot = async (lotNumber: string) => {
+        setSelectedLot(lotNumber)
+        setLotAttempts(null)
+        try {
+            setLotAttempts(await getInspectionAttempts(lotNumber))
+        } catch (error) {
+            console.error("Error loading lot attempts:", error)
+            toast.error("Error loading lot inspections")
+            setSelectedLot(null)
+        }
+    }
+
+    const xFlagged = new Set(chart?.violations.filter((v) => v.chart === "x").map((v) => v.pointIndex))
+    const rangeFlagged = new Set(chart?.violations.filter((v) => v.chart === "range").map((v) => v.pointIndex))
+    const data = chart?.points.map((point, index) => ({ ...point, index: index + 1 })) ?? []
+    const limits = chart?.limits
+    const isXbar = chart?.chartType === "xbar_r"
+    const meanLabel = isXbar ? "X̄" : "X"
+    const rangeLabel = isXbar ? "R" : "MR"
+
+    return (
+        <Card className="border-border bg-card">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex flex-wrap items-center gap-2 text-sm font-semibold text-foreground">
+                    <Activity className="h-4 w-4 text-primary" />
+                    Statistical Process Control
+                    {chart && (
+                        <Badge variant="secondary" className="text-[10px]">
+                            {isXbar ? `X̄-R · n=${chart.subgroupSize}` : "I-MR"}
+                        </Badge>
+                    )}
+                    {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                    <div className="ml-auto">
+                        <CharacteristicPicker {...characteristic} />
+                    </div>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {!chart || chart.points.length === 0 ? (
+                    <p className="py-8 text-center text-xs text-muted-foreground">
+                        {numericParts.length === 0 ? "No parts with numeric characteristics" : "No readings recorded for this characteristic"}
+                    </p>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-3 gap-2 text-xs sm:grid-cols-6">
+                            {[
+                                ["Points", String(chart.points.length)],
+                                ["UCL", formatValue(limits?.ucl)],
+                                ["CL", formatValue(limits?.center)],
+                                ["LCL", formatValue(limits?.lcl)],
+                                ["σ", formatValue(limits?.sigma)],
+                                ["Spec", `${formatValue(chart.spec.min)} – ${formatValue(chart.spec.max)}${chart.unit ? ` ${chart.unit}` : ""}`],
+                            ].map(([label, value]) => (
+                                <div key={label} className="rounded-lg border border-border p-2">
+                                    <p className="text-[10px] text-muted-foreground">{label}</p>
+                                    <p className="font-mono font-semibold text-foreground">{value}</p>
+                                </div>
+                            ))}
+                        </div>
+                        {!limits && (
+                            <p className="text-[11px] text-muted-foreground">
+                                Control limits appear once at least 3 lots have readings.
+                            </p>
+                        )}
+
+                        <div className="h-56">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart
+                                    data={data}
+                                    margin={{ top: 5, right: 40, left: 0, bottom: 5 }}
+                                    onClick={(state) => {
+                                        const lotNumber = state?.activePayload?.[0]?.payload?.lotNumber
+                                        if (lotNumber) openLot(lotNumber)
+                                    }}
+                                >
+                                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(215, 20%, 20%)" vertical={false} />
+                                    <XAxis dataKey="index" tick={AXIS_TICK} axisLine={AXIS_LINE} tickLine={false} />
+                                    <YAxis
+                                        domain={["auto", "auto"]}
+                                        tickFormatter={(value: number) => formatValue(value)}
+                                        tick={AXIS_TICK}
+                                        axisLine={AXIS_LINE}
+                                        tickLine={false}
+                                    />
+                                    <Tooltip
+                                        contentStyle={TOOLTIP_STYLE}
+                                        labelFormatter={(_label, payload) => {
+                                            const point = payload?.[0]?.payload
+                                            return point ? `Lot ${point.lotNumber} · ${format(parseISO(point.recordedAt), "yyyy-MM-dd HH:mm")}` : ""
+                                        }}
+                                        formatter={(value) => [formatValue(Number(value)), meanLabel]}
+                                    />
+                                    {chart.spec.max !== undefined && (
+                                        <ReferenceLine y={chart.spec.max} stroke={SPEC_COLOR} strokeDasharray="2 4" ifOverflow="extendDomain" label={{ value: "USL", position: "right", fill: SPEC_COLOR, fontSize: 10 }} />
+                                    )}
+                                    {chart.spec.min !== undefined && (
+                                        <ReferenceLine y={chart.spec.min} stroke={SPEC_COLOR} strokeDasharray="2 4" ifOverflow="extendDomain" label={{ value: "LSL", position: "right", fill: SPEC_COLOR, fontSize: 10 }} />
+                                    )}
+                                    {limits && (
+                                        <>
+                                            <ReferenceLine y={limits.ucl} stroke={LIMIT_COLOR} strokeDasharray="6 3" ifOverflow="extendDomain" label={{ value: "UCL", position: "right", fill: LIMIT_COLOR, fontSize: 10 }} />
+                                            <ReferenceLine y={limits.center} stroke={CENTER_COLOR} ifOverflow="extendDomain" label={{ value: "CL", position: "right", fill: CENTER_COLOR, fontSize: 10 }} />
+                                            <ReferenceLine y={limits.lcl} stroke={LIMIT_COLOR} strokeDasharray="6 3" ifOverflow="extendDomain" label={{ value: "LCL", position: "right", fill: LIMIT_COLOR, fontSize: 10 }} />
+                                        </>
+                                    )}
+                                    <Line
+                                        dataKey="mean"
+                                        stroke={POINT_COLOR}
+                                        strokeWidth={1.5}
+                                        dot={renderDot(xFlagged)}
+                                        isAnimationActive={false}
+                                        cursor="pointer"
+                                    />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+
+                        <div className="h-32">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={data} margin={{ top: 5, right: 40, left: 0, bottom: 5 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(215, 20%, 20%)" vertical={false} />
+                                    <XAxis dataKey="index" tick={AXIS_TICK} axisLine={AXIS_LINE} tickLine={false} />
+                                    <YAxis
+                                        domain={[0, "auto"]}
+                                        tickFormatter={(value: number) => formatValue(value)}
+                                        tick={AXIS_TICK}
+                                        axisLine={AXIS_LINE}
+                                        tickLine={false}
+                                    />
+                                    <Tooltip
+                                        contentStyle={TOOLTIP_STYLE}
+                                        labelFormatter={(_label, payload) => {
+                                            const point = payload?.[0]?.payload
+                                            return point ? `Lot ${point.lotNumber}` : ""
+                                        }}
+                                        formatter={(value) => [formatValue(Number(value)), rangeLabel]}
+                                    />
+                                    {limits && (
+                                        <>
+                                            <ReferenceLine y={limits.rangeUcl} stroke={LIMIT_COLOR} strokeDasharray="6 3" ifOverflow="extendDomain" label={{ value: "UCL", position: "right", fill: LIMIT_COLOR, fontSize: 10 }} />
+                                            <ReferenceLine y={limits.rangeCenter} stroke={CENTER_COLOR} ifOverflow="extendDomain" label={{ value: "CL", position: "right", fill: CENTER_COLOR, fontSize: 10 }} />
+                                        </>
+                                    )}
+                                    <Line
+                                        dataKey="range"
+                                        stroke={POINT_COLOR}
+                                        strokeWidth={1.5}
+                                        dot={renderDot(rangeFlagged)}
+                                        connectNulls
+                                        isAnimationActive={false}
+                                    />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+
+                        <div className="space-y-2">
+                            <p className="text-xs font-semibold text-foreground">
+                                Western Electric Violations
+                                <Badge
+                                    variant="secondary"
+                                    className={`ml-2 text-[10px] ${chart.violations.length > 0 ? "bg-destructive/15 text-destructive" : ""}`}
+                                >
+                                    {chart.violations.length}
+                                </Badge>
+                            </p>
+                            {chart.violations.length === 0 ? (
+                                <p className="text-[11px] text-muted-foreground">
+                                    {limits ? "Process in statistical control." : "Not evaluated yet."}
+                                </p>
+                            ) : (
+                                <div className="max-h-56 overflow-y-auto rounded-lg border border-border">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow className="border-border bg-muted/30 hover:bg-muted/30">
+                                                <TableHead className="text-xs text-muted-foreground">Point</TableHead>
+                                                <TableHead className="text-xs text-muted-foreground">Lot</TableHead>
+                                                <TableHead className="text-xs text-muted-foreground">Chart</TableHead>
+                                                <TableHead className="text-xs text-muted-foreground">Rule</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {chart.violations.map((violation) => (
+                                                <TableRow
+                                                    key={`${violation.chart}-${violation.rule}-${violation.pointIndex}`}
+                                                    className="border-border"
+                                                >
+                                                    <TableCell className="font-mono text-xs text-muted-foreground">
+                                                        #{violation.pointIndex + 1}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Button
+                                                            variant="link"
+                                                            size="sm"
+                                                            onClick={() => openLot(violation.lotNumber)}
+                                                            className="h-auto p-0 font-mono text-xs"
+                                                        >
+                                                            {violation.lotNumber}
+                                                        </Button>
+                                                    </TableCell>
+                                                    <TableCell className="text-xs text-foreground">
+                                                        {violation.chart === "x" ? meanLabel : rangeLabel}
+                                                    </TableCell>
+                                                    <TableCell className="text-xs text-foreground">
+                                                        Rule {violation.rule}: {WESTERN_ELECTRIC_RULES[violation.rule]}
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+            </CardContent>
+
+            <Dialog open={selectedLot !== null} onOpenChange={(open) => !open && setSelectedLot(null)}>
+                <DialogContent className="max-w-3xl">
+                    <DialogHeader>
+                        <DialogTitle className="font-mono">Lot #{selectedLot}</DialogTitle>
+                        <DialogDescription>
+                            Inspections behind the charted {chart?.fieldName} readings
+                        </DialogDescription>
+                    </DialogHeader>
+                    {!lotAttempts ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : (
+                        <InspectionAttemptHistory attempts={lotAttempts} />
+                    )}
+                </DialogContent>
+            </Dialog>
+        </Card>
+    )
+}
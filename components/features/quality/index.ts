@@ -6,4 +6,18 @@
 export { InspectionTable } from "./InspectionTable"
 export { DynamicInspectionForm, useDynamicInspection } from "./DynamicInspectionForm"
 export { PartialShipmentTracker, usePartialShipments } from "./PartialShipmentTracker"
-
+export { CertificateLookup } from "./CertificateLookup"
+export { CertificateTemplateManager } from "./CertificateTemplateManager"
+export { InspectionExport } from "./InspectionExport"
+export { NcrTracker, NcrStatusBadge } from "./NcrTracker"
+export { MrbDispositionDialog } from "./MrbDispositionDialog"
+export { InspectionAttemptHistory } from "./InspectionAttemptHistory"
+export { CapaTracker, CapaStatusBadge } from "./CapaTracker"
+export { CapaOverdueActions } from "./CapaOverdueActions"
+export { AuditTrail } from "./AuditTrail"
+export { ESignatureFields } from "./ESignatureFields"
+export { KpiFilterBar } from "./KpiFilterBar"
+export { DefectPareto } from "./DefectPareto"
+export { SpcControlChart } from "./SpcControlChart"
+export { CharacteristicPicker, useNumericCharacteristic } from "./CharacteristicPicker"
+export { CapabilityReport } from "./CapabilityReport"
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Kiosk preference for the unit measurements are entered in.
+ * Readings are converted to each field's specified unit before evaluation.
+ * @module components/kiosk/EntryUnitSelect
+ */
+
+"use client"
+
+import { Ruler } from "lucide-react"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { useSession } from "@/context/SessionContext"
+import type { MeasurementUnit } from "@/lib/units"
+
+/** Select value for "enter each field in its specified unit" */
+const AS_SPECIFIED = "specified"
+
+const ENTRY_UNIT_OPTIONS: { value: MeasurementUnit | typeof AS_SPECIFIED; label: string }[] = [
+    { value: AS_SPECIFIED, label: "Según plano" },
+    { value: "in", label: "Pulgadas (in)" },
+    { value: "mm", label: "Milímetros (mm)" },
+]
+
+export function EntryUnitSelect() {
+    const { entryUnit, setEntryUnit } = useSession()
+
+    return (
+        <Select
+            value={entryUnit ?? AS_SPECIFIED}
+            onValueChange={(value) => setEntryUnit(value === AS_SPECIFIED ? null : (value as MeasurementUnit))}
+        >
+            <SelectTrigger className="h-9 w-auto gap-2 border-border bg-card text-xs" aria-label="Unidad de captura">
+                <Ruler className="h-4 w-4 text-muted-foreground" />
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                {ENTRY_UNIT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value} className="text-xs">
+                        {option.label}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+}
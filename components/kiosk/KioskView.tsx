@@ -1,6 +1,6 @@
 /**
  * @fileoverview Kiosk view container component.
- * Displays smart search bar and skeleton loaders when no lot is scanned.
+ * Displays smart search bar, the re-inspection queue and skeleton loaders when no lot is scanned.
  * @module components/kiosk/KioskView
  */
 
@@ -8,6 +8,7 @@
 
 import { SmartSearchBar } from "./SmartSearchBar"
 import { KioskSkeletonGrid } from "./SkeletonLoader"
+import { ReinspectionQueue } from "./ReinspectionQueue"
 import { useSession } from "@/context/SessionContext"
 
 /**
@@ -24,6 +25,9 @@ export function KioskView() {
                 <SmartSearchBar onScan={scanLot} isLoading={isLoading} />
             </div>
 
+            {/* Lots returned to inspection by the MRB */}
+            <ReinspectionQueue onSelect={scanLot} isLoading={isLoading} />
+
             {/* Skeleton Grid */}
             <div className="opacity-50">
                 <KioskSkeletonGrid />
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Re-inspection queue for the kiosk.
+ * Lists lots returned to inspection by an MRB disposition (rework or 100% sort).
+ * @module components/kiosk/ReinspectionQueue
+ */
+
+"use client"
+
+import { useEffect, useState } from "react"
+import { RotateCcw, ChevronRight } from "lucide-react"
+import { toast } from "sonner"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { getReinspectionQueue } from "@/lib/actions/lots"
+import type { LotInfo } from "@/lib/data"
+import type { ScanLotResult } from "@/lib/lots"
+
+interface ReinspectionQueueProps {
+    /** Opens a lot as if it had been scanned */
+    onSelect: (lotNumber: string) => Promise<ScanLotResult>
+    /** Whether a lot is currently loading */
+    isLoading?: boolean
+}
+
+/**
+ * Queue of reworked lots waiting for re-inspection. Hidden when empty.
+ */
+export function ReinspectionQueue({ onSelect, isLoading = false }: ReinspectionQueueProps) {
+    const [lots, setLots] = useState<LotInfo[]>([])
+
+    useEffect(() => {
+        getReinspectionQueue()
+            .then(setLots)
+            .catch((error) => console.error("Error loading re-inspection queue:", error))
+    }, [])
+
+    const handleSelect = async (lotNumber: string) => {
+        const result = await onSelect(lotNumber)
+        if (!result.success) {
+            toast.error(result.error || "Error al abrir el lote")
+        }
+    }
+
+    if (lots.length === 0) return null
+
+    return (
+        <Card className="mx-auto max-w-2xl border-warning/30 bg-card">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                    <RotateCcw className="h-4 w-4 text-warning" />
+                    Lotes para Re-inspección
+                    <Badge variant="secondary" className="ml-auto text-[10px]">{lots.length}</Badge>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+                {lots.map((lot) => (
+                    <button
+                        key={lot.lotNumber}
+                        onClick={() => handleSelect(lot.lotNumber)}
+                        disabled={isLoading}
+                        className="flex w-full items-center gap-3 rounded-lg p-3 text-left transition-colors hover:bg-muted/50 disabled:opacity-50"
+                    >
+                        <div className="flex-1">
+                            <p className="font-mono text-sm font-semibold text-foreground">{lot.lotNumber}</p>
+                            <p className="text-xs text-muted-foreground">Parte {lot.partNumber} · Orden {lot.orderNumber}</p>
+                        </div>
+                        <Badge className="border-0 bg-warning/15 text-[10px] text-warning">RETRABAJO</Badge>
+                        <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                    </button>
+                ))}
+            </CardContent>
+        </Card>
+    )
+}
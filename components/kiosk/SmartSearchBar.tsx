@@ -12,10 +12,23 @@ import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 import { toast } from "sonner"
+import type { LotErrorCode, ScanLotResult } from "@/lib/lots"
+
+/**
+ * Follow-up hint shown under each scan error
+ */
+const ERROR_HINTS: Record<LotErrorCode, string> = {
+    INVALID_FORMAT: "Verifique el formato e intente nuevamente.",
+    LOT_NOT_FOUND: "El lote no existe en el sistema. Verifique el número e intente nuevamente.",
+    LOT_RELEASED: "Este lote ya fue liberado. Un inspector debe iniciar sesión para embarcarlo.",
+    LOT_SHIPPED: "Este lote ya fue embarcado al cliente.",
+    LOT_CLOSED: "El MRB dispuso este lote como scrap o devolución a proveedor.",
+    NETWORK_ERROR: "No se pudo contactar al servidor. Intente nuevamente.",
+}
 
 interface SmartSearchBarProps {
     /** Callback when a valid lot is scanned */
-    onScan: (lotNumber: string) => Promise<{ success: boolean; error?: string }>
+    onScan: (lotNumber: string) => Promise<ScanLotResult>
     /** Whether currently loading */
     isLoading?: boolean
     /** Whether the input is disabled */
@@ -57,7 +70,7 @@ export function SmartSearchBar({ onScan, isLoading = false, disabled = false }:
         if (!result.success) {
             setHasError(true)
             toast.error(result.error || "Error al escanear lote", {
-                description: "Verifique el formato e intente nuevamente.",
+                description: ERROR_HINTS[result.code ?? "INVALID_FORMAT"],
                 icon: <AlertCircle className="h-4 w-4" />,
             })
 
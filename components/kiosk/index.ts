@@ -4,3 +4,5 @@
 export { SmartSearchBar } from "./SmartSearchBar"
 export { SkeletonLoader, KioskSkeletonGrid } from "./SkeletonLoader"
 export { KioskView } from "./KioskView"
+export { ReinspectionQueue } from "./ReinspectionQueue"
+export { EntryUnitSelect } from "./EntryUnitSelect"
@@ -1,6 +1,6 @@
 /**
  * @fileoverview Part Configuration context for managing dynamic part models.
- * Handles part creation, versioning, revisions, and localStorage persistence.
+ * Handles part creation, versioning and revisions, persisted through the part server actions.
  * @module context/PartConfigContext
  */
 
@@ -8,7 +8,16 @@
 
 import React, { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from "react"
 import type { PartConfig, PartRevision, FieldDefinition } from "@/lib/data"
-import { INITIAL_PART_CONFIGS, INITIAL_REVISIONS } from "@/lib/data"
+import {
+    createPartRecord,
+    deletePartRecord,
+    getPartData,
+    importLegacyPartData,
+    publishRevision,
+    updatePartRecord,
+} from "@/lib/actions/parts"
+import type { RevisionPublishResult } from "@/lib/signature"
+import { useSession } from "@/context/SessionContext"
 
 // ==========================================
 // TYPES
@@ -30,7 +39,8 @@ interface PartConfigContextType {
     getPartByNumber: (partNumber: string) => PartConfig | undefined
 
     // Revision Operations
-    createRevision: (partId: string, changeNote: string, createdBy: string) => PartRevision
+    /** Publishes the part's current fields as its next revision, e-signed with the engineer's PIN */
+    createRevision: (partId: string, changeNote: string, signerPin: string) => Promise<RevisionPublishResult>
     getRevisionsByPart: (partId: string) => PartRevision[]
     getActiveRevision: (partId: string) => PartRevision | undefined
 
@@ -46,7 +56,9 @@ const PartConfigContext = createContext<PartConfigContextType | undefined>(undef
 // ==========================================
 // LOCAL STORAGE KEYS
 // ==========================================
-const STORAGE_KEYS = {
+
+/** Keys used before the database existed; imported once, then removed */
+const LEGACY_STORAGE_KEYS = {
     parts: "rbc_qc_parts",
     revisions: "rbc_qc_revisions",
 }
@@ -59,15 +71,25 @@ function generateId(prefix: string): string {
     return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`
 }
 
-function getNextRevision(currentRevision: string): string {
-    // Extract letter from "Rev A", "Rev B", etc.
-    const match = currentRevision.match(/Rev\s*([A-Z])/i)
-    if (match) {
-        const currentLetter = match[1].toUpperCase()
-        const nextLetter = String.fromCharCode(currentLetter.charCodeAt(0) + 1)
-        return `Rev ${nextLetter}`
+/**
+ * Logs failed background writes; local state stays as the user left it
+ */
+function persist(write: Promise<void>): void {
+    write.catch(error => console.error("Error saving part configuration:", error))
+}
+
+/**
+ * Reads part data left in localStorage by earlier versions, if any
+ */
+function readLegacyStorage(): { parts: PartConfig[]; revisions: PartRevision[] } | null {
+    const storedParts = localStorage.getItem(LEGACY_STORAGE_KEYS.parts)
+    const storedRevisions = localStorage.getItem(LEGACY_STORAGE_KEYS.revisions)
+    if (!storedParts && !storedRevisions) return null
+
+    return {
+        parts: storedParts ? JSON.parse(storedParts) : [],
+        revisions: storedRevisions ? JSON.parse(storedRevisions) : [],
     }
-    return "Rev A"
 }
 
 // ==========================================
@@ -82,55 +104,34 @@ export function PartConfigProvider({ children }: PartConfigProviderProps) {
     const [parts, setParts] = useState<PartConfig[]>([])
     const [revisions, setRevisions] = useState<PartRevision[]>([])
     const [isLoading, setIsLoading] = useState(true)
+    const { currentRole } = useSession()
 
-    // Load from localStorage on mount
+    // Load from the database on mount
     useEffect(() => {
-        const loadFromStorage = () => {
-            try {
-                const storedParts = localStorage.getItem(STORAGE_KEYS.parts)
-                const storedRevisions = localStorage.getItem(STORAGE_KEYS.revisions)
-
-                if (storedParts) {
-                    setParts(JSON.parse(storedParts))
-                } else {
-                    // Initialize with demo data
-                    setParts(INITIAL_PART_CONFIGS)
-                    localStorage.setItem(STORAGE_KEYS.parts, JSON.stringify(INITIAL_PART_CONFIGS))
-                }
-
-                if (storedRevisions) {
-                    setRevisions(JSON.parse(storedRevisions))
-                } else {
-                    // Initialize with demo data
-                    setRevisions(INITIAL_REVISIONS)
-                    localStorage.setItem(STORAGE_KEYS.revisions, JSON.stringify(INITIAL_REVISIONS))
-                }
-            } catch (error) {
-                console.error("Error loading part configs from localStorage:", error)
-                // Fallback to demo data
-                setParts(INITIAL_PART_CONFIGS)
-                setRevisions(INITIAL_REVISIONS)
-            } finally {
-                setIsLoading(false)
-            }
-        }
-
-        loadFromStorage()
+        getPartData()
+            .then(data => {
+                setParts(data.parts)
+                setRevisions(data.revisions)
+            })
+            .catch(error => console.error("Error loading part configs from database:", error))
+            .finally(() => setIsLoading(false))
     }, [])
 
-    // Persist parts to localStorage whenever they change
-    useEffect(() => {
-        if (!isLoading && parts.length > 0) {
-            localStorage.setItem(STORAGE_KEYS.parts, JSON.stringify(parts))
-        }
-    }, [parts, isLoading])
-
-    // Persist revisions to localStorage whenever they change
+    // Import legacy localStorage data once an engineer signs in at this kiosk
     useEffect(() => {
-        if (!isLoading && revisions.length > 0) {
-            localStorage.setItem(STORAGE_KEYS.revisions, JSON.stringify(revisions))
-        }
-    }, [revisions, isLoading])
+        if (currentRole !== "admin_engineer") return
+        const legacy = readLegacyStorage()
+        if (!legacy) return
+
+        importLegacyPartData(legacy.parts, legacy.revisions)
+            .then(data => {
+                localStorage.removeItem(LEGACY_STORAGE_KEYS.parts)
+                localStorage.removeItem(LEGACY_STORAGE_KEYS.revisions)
+                setParts(data.parts)
+                setRevisions(data.revisions)
+            })
+            .catch(error => console.error("Error importing legacy part configs:", error))
+    }, [currentRole])
 
     // ==========================================
     // PART CRUD OPERATIONS
@@ -138,26 +139,17 @@ export function PartConfigProvider({ children }: PartConfigProviderProps) {
 
     const createPart = useCallback((partData: Omit<PartConfig, "id" | "createdAt" | "updatedAt">): PartConfig => {
         const now = new Date().toISOString()
+        // New parts have no current revision until the first one is published with a signature
         const newPart: PartConfig = {
             ...partData,
+            currentRevision: "",
             id: generateId("part"),
             createdAt: now,
             updatedAt: now,
         }
 
         setParts(prev => [...prev, newPart])
-
-        // Create initial revision
-        const initialRevision: PartRevision = {
-            id: generateId("rev"),
-            partConfigId: newPart.id,
-            revision: partData.currentRevision || "Rev A",
-            fields: [...partData.fields],
-            changeNote: "Initial release",
-            createdAt: now,
-            createdBy: "System",
-        }
-        setRevisions(prev => [...prev, initialRevision])
+        persist(createPartRecord(newPart))
 
         return newPart
     }, [])
@@ -171,12 +163,14 @@ export function PartConfigProvider({ children }: PartConfigProviderProps) {
                 updatedAt: new Date().toISOString(),
             }
         }))
+        persist(updatePartRecord(id, updates))
     }, [])
 
     const deletePart = useCallback((id: string) => {
         setParts(prev => prev.filter(part => part.id !== id))
         // Also delete all revisions for this part
         setRevisions(prev => prev.filter(rev => rev.partConfigId !== id))
+        persist(deletePartRecord(id))
     }, [])
 
     const getPartById = useCallback((id: string): PartConfig | undefined => {
@@ -191,33 +185,34 @@ export function PartConfigProvider({ children }: PartConfigProviderProps) {
     // REVISION OPERATIONS
     // ==========================================
 
-    const createRevision = useCallback((partId: string, changeNote: string, createdBy: string): PartRevision => {
+    const createRevision = useCallback(async (
+        partId: string,
+        changeNote: string,
+        signerPin: string
+    ): Promise<RevisionPublishResult> => {
         const part = parts.find(p => p.id === partId)
         if (!part) {
             throw new Error(`Part with ID ${partId} not found`)
         }
 
-        const nextRevision = getNextRevision(part.currentRevision)
-        const now = new Date().toISOString()
-
-        const newRevision: PartRevision = {
+        // The server snapshots the stored fields, so pending edits must be saved first
+        const result = await publishRevision({
             id: generateId("rev"),
             partConfigId: partId,
-            revision: nextRevision,
-            fields: [...part.fields],
-            blueprintUrl: part.blueprintUrl,
             changeNote,
-            createdAt: now,
-            createdBy,
+        }, signerPin)
+
+        // The server moved the part to the new revision along with the signature
+        if (result.success) {
+            const { revision } = result
+            setRevisions(prev => [...prev, revision])
+            setParts(prev => prev.map(p => p.id === partId
+                ? { ...p, currentRevision: revision.revision, updatedAt: revision.createdAt }
+                : p
+            ))
         }
-
-        setRevisions(prev => [...prev, newRevision])
-
-        // Update part's current revision
-        updatePart(partId, { currentRevision: nextRevision })
-
-        return newRevision
-    }, [parts, updatePart])
+        return result
+    }, [parts])
 
     const getRevisionsByPart = useCallback((partId: string): PartRevision[] => {
         return revisions
@@ -239,54 +234,36 @@ export function PartConfigProvider({ children }: PartConfigProviderProps) {
     // ==========================================
 
     const addField = useCallback((partId: string, field: FieldDefinition) => {
-        setParts(prev => prev.map(part => {
-            if (part.id !== partId) return part
-            return {
-                ...part,
-                fields: [...part.fields, field],
-                updatedAt: new Date().toISOString(),
-            }
-        }))
-    }, [])
+        const part = parts.find(p => p.id === partId)
+        if (!part) return
+        updatePart(partId, { fields: [...part.fields, field] })
+    }, [parts, updatePart])
 
     const updateField = useCallback((partId: string, fieldId: string, updates: Partial<FieldDefinition>) => {
-        setParts(prev => prev.map(part => {
-            if (part.id !== partId) return part
-            return {
-                ...part,
-                fields: part.fields.map(field => {
-                    if (field.id !== fieldId) return field
-                    return { ...field, ...updates }
-                }),
-                updatedAt: new Date().toISOString(),
-            }
-        }))
-    }, [])
+        const part = parts.find(p => p.id === partId)
+        if (!part) return
+        updatePart(partId, {
+            fields: part.fields.map(field => {
+                if (field.id !== fieldId) return field
+                return { ...field, ...updates }
+            }),
+        })
+    }, [parts, updatePart])
 
     const removeField = useCallback((partId: string, fieldId: string) => {
-        setParts(prev => prev.map(part => {
-            if (part.id !== partId) return part
-            return {
-                ...part,
-                fields: part.fields.filter(field => field.id !== fieldId),
-                updatedAt: new Date().toISOString(),
-            }
-        }))
-    }, [])
+        const part = parts.find(p => p.id === partId)
+        if (!part) return
+        updatePart(partId, { fields: part.fields.filter(field => field.id !== fieldId) })
+    }, [parts, updatePart])
 
     const reorderFields = useCallback((partId: string, fieldIds: string[]) => {
-        setParts(prev => prev.map(part => {
-            if (part.id !== partId) return part
-            const orderedFields = fieldIds
-                .map(id => part.fields.find(f => f.id === id))
-                .filter((f): f is FieldDefinition => f !== undefined)
-            return {
-                ...part,
-                fields: orderedFields,
-                updatedAt: new Date().toISOString(),
-            }
-        }))
-    }, [])
+        const part = parts.find(p => p.id === partId)
+        if (!part) return
+        const orderedFields = fieldIds
+            .map(id => part.fields.find(f => f.id === id))
+            .filter((f): f is FieldDefinition => f !== undefined)
+        updatePart(partId, { fields: orderedFields })
+    }, [parts, updatePart])
 
     // ==========================================
     // CONTEXT VALUE
@@ -6,9 +6,20 @@
 
 "use client"
 
-import React, { createContext, useContext, useState, useCallback, type ReactNode } from "react"
-import type { Role, LotInfo, UserCredential } from "@/lib/data"
-import { MOCK_CREDENTIALS, SCANNED_LOT, VALID_LOT_PREFIXES } from "@/lib/data"
+import React, { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from "react"
+import type { Role, LotInfo } from "@/lib/data"
+import { getSignedInUser, signIn, signOut } from "@/lib/actions/session"
+import { MEASUREMENT_UNITS, type MeasurementUnit } from "@/lib/units"
+import {
+    LOT_ERROR_MESSAGES,
+    isValidLotFormat,
+    normalizeLotNumber,
+    type LotLookupResponse,
+    type ScanLotResult,
+} from "@/lib/lots"
+
+/** localStorage key of this kiosk's preferred measurement entry unit */
+const ENTRY_UNIT_STORAGE_KEY = "rbc_qc_entry_unit"
 
 /**
  * Current authenticated user info
@@ -32,12 +43,18 @@ interface SessionContextType {
     isLoading: boolean
     /** Whether in kiosk mode (no lot scanned) */
     isKioskMode: boolean
+    /** Unit this kiosk enters measurements in (null = each field's specified unit) */
+    entryUnit: MeasurementUnit | null
+    /** Change this kiosk's entry unit (kept across shifts) */
+    setEntryUnit: (unit: MeasurementUnit | null) => void
     /** Scan and validate a lot number */
-    scanLot: (lotNumber: string) => Promise<{ success: boolean; error?: string }>
-    /** Authenticate with PIN */
-    authenticate: (pin: string, targetRole: Role) => { success: boolean; error?: string }
+    scanLot: (lotNumber: string) => Promise<ScanLotResult>
+    /** Sign in with PIN (checked by the server, which keeps the session) */
+    authenticate: (pin: string, targetRole: Role) => Promise<{ success: boolean; error?: string }>
     /** Switch to operator (no auth needed) */
     switchToOperator: () => void
+    /** Replace the scanned lot after a lifecycle transition */
+    updateScannedLot: (lot: LotInfo) => void
     /** Clear current lot and return to kiosk */
     clearLot: () => void
     /** End shift - full reset */
@@ -52,15 +69,6 @@ interface SessionProviderProps {
     children: ReactNode
 }
 
-/**
- * Validates lot number format
- */
-function isValidLotFormat(lotNumber: string): boolean {
-    if (lotNumber.length < 6) return false
-    const prefix = lotNumber.substring(0, 3).toUpperCase()
-    return VALID_LOT_PREFIXES.includes(prefix) || /^[A-Z0-9]{6,}$/i.test(lotNumber)
-}
-
 /**
  * Session provider component for kiosk workflow.
  * Manages lot scanning, authentication, and session state.
@@ -70,60 +78,97 @@ export function SessionProvider({ children }: SessionProviderProps) {
     const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null)
     const [currentRole, setCurrentRole] = useState<Role>("operator")
     const [isLoading, setIsLoading] = useState(false)
+    const [entryUnit, setEntryUnitState] = useState<MeasurementUnit | null>(null)
 
     const isKioskMode = scannedLot === null
 
-    /**
-     * Scan and validate a lot number
-     */
-    const scanLot = useCallback(async (lotNumber: string): Promise<{ success: boolean; error?: string }> => {
-        const trimmed = lotNumber.trim().toUpperCase()
+    // The server keeps the session: restore whoever is still signed in after a reload
+    useEffect(() => {
+        getSignedInUser()
+            .then((user) => {
+                if (!user) return
+                setCurrentUser(user)
+                setCurrentRole(user.role)
+            })
+            .catch((error) => console.error("Error restoring session:", error))
+    }, [])
 
-        if (!isValidLotFormat(trimmed)) {
-            return { success: false, error: "Formato de Lote Inválido" }
+    // The entry unit belongs to the kiosk, not the session: restore it on load
+    useEffect(() => {
+        const stored = localStorage.getItem(ENTRY_UNIT_STORAGE_KEY)
+        if (stored && (MEASUREMENT_UNITS as readonly string[]).includes(stored)) {
+            setEntryUnitState(stored as MeasurementUnit)
         }
+    }, [])
 
-        setIsLoading(true)
+    /**
+     * Change and remember this kiosk's entry unit
+     */
+    const setEntryUnit = useCallback((unit: MeasurementUnit | null) => {
+        setEntryUnitState(unit)
+        if (unit) localStorage.setItem(ENTRY_UNIT_STORAGE_KEY, unit)
+        else localStorage.removeItem(ENTRY_UNIT_STORAGE_KEY)
+    }, [])
 
-        // Simulate API fetch delay
-        await new Promise(resolve => setTimeout(resolve, 800))
+    /**
+     * Scan and validate a lot number, then load it from the lot API
+     */
+    const scanLot = useCallback(async (lotNumber: string): Promise<ScanLotResult> => {
+        const normalized = normalizeLotNumber(lotNumber)
 
-        // For demo, use mock data with the scanned lot number
-        const mockLot: LotInfo = {
-            ...SCANNED_LOT,
-            lotNumber: trimmed,
+        if (!isValidLotFormat(normalized)) {
+            return { success: false, error: LOT_ERROR_MESSAGES.INVALID_FORMAT, code: "INVALID_FORMAT" }
         }
 
-        setScannedLot(mockLot)
-        setIsLoading(false)
+        setIsLoading(true)
 
-        return { success: true }
+        try {
+            const response = await fetch(`/api/lots/${encodeURIComponent(normalized)}`, { cache: "no-store" })
+            const body = (await response.json()) as LotLookupResponse
+
+            if ("error" in body) {
+                return { success: false, error: body.error.message, code: body.error.code }
+            }
+
+            setScannedLot(body.lot)
+            return { success: true }
+        } catch (error) {
+            console.error("Error fetching lot:", error)
+            return { success: false, error: LOT_ERROR_MESSAGES.NETWORK_ERROR, code: "NETWORK_ERROR" }
+        } finally {
+            setIsLoading(false)
+        }
     }, [])
 
     /**
-     * Authenticate user with PIN
+     * Sign in with PIN; the server checks it and opens the session
      */
-    const authenticate = useCallback((pin: string, targetRole: Role): { success: boolean; error?: string } => {
-        const credential = MOCK_CREDENTIALS.find(
-            (c: UserCredential) => c.pin === pin && c.role === targetRole
-        )
-
-        if (!credential) {
-            return { success: false, error: "PIN Incorrecto o Sin Permisos" }
+    const authenticate = useCallback(async (pin: string, targetRole: Role): Promise<{ success: boolean; error?: string }> => {
+        const result = await signIn(pin, targetRole)
+        if (!result.success) {
+            return { success: false, error: result.error }
         }
 
-        setCurrentUser({ name: credential.name, role: credential.role })
-        setCurrentRole(credential.role)
+        setCurrentUser(result.user)
+        setCurrentRole(result.user.role)
 
         return { success: true }
     }, [])
 
     /**
-     * Switch to operator role (no auth required)
+     * Switch to operator role (no auth required); signs the previous user out
      */
     const switchToOperator = useCallback(() => {
         setCurrentRole("operator")
         setCurrentUser(null)
+        signOut().catch((error) => console.error("Error signing out:", error))
+    }, [])
+
+    /**
+     * Replace the scanned lot with its updated state (same lot only)
+     */
+    const updateScannedLot = useCallback((lot: LotInfo) => {
+        setScannedLot((current) => (current?.lotNumber === lot.lotNumber ? lot : current))
     }, [])
 
     /**
@@ -142,6 +187,7 @@ export function SessionProvider({ children }: SessionProviderProps) {
         setCurrentUser(null)
         setCurrentRole("operator")
         setIsLoading(false)
+        signOut().catch((error) => console.error("Error signing out:", error))
     }, [])
 
     const value: SessionContextType = {
@@ -150,9 +196,12 @@ export function SessionProvider({ children }: SessionProviderProps) {
         currentRole,
         isLoading,
         isKioskMode,
+        entryUnit,
+        setEntryUnit,
         scanLot,
         authenticate,
         switchToOperator,
+        updateScannedLot,
         clearLot,
         endShift,
         setIsLoading,
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Server actions for reading the audit trail.
+ * Entries are written by the actions that make each change, never from here.
+ * @module lib/actions/audit
+ */
+
+"use server"
+
+import { AUDIT_PAGE_SIZE, type AuditChainStatus, type AuditFilter, type AuditPage } from "@/lib/audit"
+import { listAuditEntries, verifyAuditChain } from "@/lib/db/repositories/audit"
+import { SIGN_IN_REQUIRED_ERROR, getSessionActor } from "@/lib/session"
+
+/**
+ * The audit trail is only open to a signed-in manager
+ */
+async function requireManager(): Promise<void> {
+    const actor = await getSessionActor()
+    if (!actor) throw new Error(SIGN_IN_REQUIRED_ERROR)
+    if (actor.role !== "manager") throw new Error("Only managers can read the audit trail")
+}
+
+/**
+ * Page of the audit trail (0-based), newest first
+ */
+export async function getAuditLog(filter: AuditFilter, page: number): Promise<AuditPage> {
+    await requireManager()
+    return listAuditEntries(filter, AUDIT_PAGE_SIZE, Math.max(0, page) * AUDIT_PAGE_SIZE)
+}
+
+/**
+ * Re-hashes the audit trail to prove no entry was edited, removed or reordered
+ */
+export async function verifyAuditLog(): Promise<AuditChainStatus> {
+    await requireManager()
+    return verifyAuditChain()
+}
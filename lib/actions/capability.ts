@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Server actions for process capability studies.
+ * @module lib/actions/capability
+ */
+
+"use server"
+
+import { listInspectionRecordsByPart } from "@/lib/db/repositories/inspections"
+import { findActiveRevision, findPartByNumber } from "@/lib/db/repositories/parts"
+import { CAPABILITY_HISTORY_LIMIT, buildCapabilityStudy, type CapabilityStudyResult } from "@/lib/capability"
+
+/**
+ * Cp/Cpk/Pp/Ppk of a numeric characteristic, judged against the limits of the part's
+ * current published revision (draft field edits do not count until they are signed)
+ */
+export async function getCapabilityStudy(partNumber: string, fieldId: string): Promise<CapabilityStudyResult> {
+    const part = findPartByNumber(partNumber)
+    if (!part) {
+        return { success: false, error: `Part ${partNumber} not found` }
+    }
+
+    const revision = findActiveRevision(part)
+    if (!revision) {
+        return { success: false, error: `${partNumber} has no published revision` }
+    }
+
+    const field = revision.fields.find((f) => f.id === fieldId)
+    if (!field || field.type !== "numeric") {
+        return { success: false, error: `${partNumber} ${revision.revision} has no numeric characteristic ${fieldId}` }
+    }
+
+    const records = listInspectionRecordsByPart(part.partNumber, CAPABILITY_HISTORY_LIMIT)
+    return { success: true, study: buildCapabilityStudy(part, revision, field, records) }
+}
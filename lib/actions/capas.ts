@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Server actions for Corrective and Preventive Actions (CAPA / 8D).
+ * @module lib/actions/capas
+ */
+
+"use server"
+
+import { DEFECT_CODES } from "@/lib/data"
+import type { CapaRecord, CapaStatus } from "@/lib/data"
+import {
+    CAPA_ROLES,
+    CAPA_STATUS_LABELS,
+    canTransitionCapa,
+    getCapaTransitionBlocker,
+    type CapaResult,
+} from "@/lib/capa"
+import { createCapa, findCapa, findCapaByNcr, listCapas, updateCapa } from "@/lib/db/repositories/capas"
+import { findNcr } from "@/lib/db/repositories/ncrs"
+import { appendAuditEntry } from "@/lib/db/repositories/audit"
+import { getDb } from "@/lib/db/client"
+import { SIGN_IN_REQUIRED_ERROR, getSessionActor } from "@/lib/session"
+
+export async function getCapas(): Promise<CapaRecord[]> {
+    return listCapas()
+}
+
+/**
+ * Opens an 8D for an NCR as the signed-in user, or returns the one already opened for it
+ */
+export async function openCapaFromNcr(ncrNumber: string): Promise<CapaResult> {
+    const actor = await getSessionActor()
+    if (!actor) {
+        return { success: false, error: SIGN_IN_REQUIRED_ERROR }
+    }
+    if (!CAPA_ROLES.includes(actor.role)) {
+        return { success: false, error: `Role ${actor.role} cannot change CAPAs` }
+    }
+    const ncr = findNcr(ncrNumber)
+    if (!ncr) {
+        return { success: false, error: `NCR ${ncrNumber} not found` }
+    }
+
+    const existing = findCapaByNcr(ncrNumber)
+    if (existing) {
+        return { success: true, capa: existing }
+    }
+
+    const findings = ncr.findings.map((finding) => `${finding.characteristic}: ${finding.measured} (spec ${finding.tolerance})`)
+    return {
+        success: true,
+        capa: createCapa({
+            title: `${ncr.defectCodes.join(", ") || "Nonconformance"} on ${ncr.partNumber} lot ${ncr.lotNumber}`,
+            source: { type: "ncr", ncrNumber },
+            partNumber: ncr.partNumber,
+            problemDescription: [ncr.description, ...findings].filter(Boolean).join("\n"),
+            createdBy: actor.name,
+        }),
+    }
+}
+
+/**
+ * Opens an 8D as the signed-in user for a recurring defect code seen on the Pareto
+ */
+export async function openCapaFromTrend(defectCode: string, occurrences: number): Promise<CapaResult> {
+    const actor = await getSessionActor()
+    if (!actor) {
+        return { success: false, error: SIGN_IN_REQUIRED_ERROR }
+    }
+    if (!CAPA_ROLES.includes(actor.role)) {
+        return { success: false, error: `Role ${actor.role} cannot change CAPAs` }
+    }
+    const defect = DEFECT_CODES.find((d) => d.code === defectCode)
+    if (!defect) {
+        return { success: false, error: `Unknown defect code ${defectCode}` }
+    }
+
+    return {
+        success: true,
+        capa: createCapa({
+            title: `Recurring ${defect.code} - ${defect.description}`,
+            source: { type: "defect_trend", defectCode },
+            problemDescription: `${occurrences} occurrences of ${defect.code} (${defect.description}) in the defect Pareto.`,
+            createdBy: actor.name,
+        }),
+    }
+}
+
+/**
+ * Saves the 8D content. Status, number and source are kept from the stored record;
+ * a changed verification is attributed to the signed-in user.
+ */
+export async function saveCapa(capa: CapaRecord): Promise<CapaResult> {
+    const actor = await getSessionActor()
+    if (!actor) {
+        return { success: false, error: SIGN_IN_REQUIRED_ERROR }
+    }
+    if (!CAPA_ROLES.includes(actor.role)) {
+        return { success: false, error: `Role ${actor.role} cannot change CAPAs` }
+    }
+    const stored = findCapa(capa.capaNumber)
+    if (!stored) {
+        return { success: false, error: `CAPA ${capa.capaNumber} not found` }
+    }
+    if (stored.status === "closed") {
+        return { success: false, error: `${capa.capaNumber} is closed` }
+    }
+    if (capa.actions.some((action) => !action.description.trim() || !action.owner.trim() || !action.dueDate)) {
+        return { success: false, error: "Every corrective action needs a description, an owner and a due date" }
+    }
+
+    const verification = capa.verification
+    const isVerificationChanged = verification !== undefined && (
+        verification.method !== stored.verification?.method
+        || verification.result !== stored.verification?.result
+        || verification.effective !== stored.verification?.effective
+    )
+
+    return {
+        success: true,
+        capa: updateCapa({
+            ...capa,
+            verification: isVerificationChanged
+                ? { ...verification, verifiedBy: actor.name, verifiedAt: new Date().toISOString() }
+                : stored.verification,
+            capaNumber: stored.capaNumber,
+            source: stored.source,
+            status: stored.status,
+            createdBy: stored.createdBy,
+            createdAt: stored.createdAt,
+        }),
+    }
+}
+
+/**
+ * Moves a CAPA along the 8D workflow as the signed-in user once the required disciplines
+ * are filled in; the move is audited under that user
+ */
+export async function transitionCapa(capaNumber: string, to: CapaStatus): Promise<CapaResult> {
+    const actor = await getSessionActor()
+    if (!actor) {
+        return { success: false, error: SIGN_IN_REQUIRED_ERROR }
+    }
+    if (!CAPA_ROLES.includes(actor.role)) {
+        return { success: false, error: `Role ${actor.role} cannot change CAPAs` }
+    }
+    const capa = findCapa(capaNumber)
+    if (!capa) {
+        return { success: false, error: `CAPA ${capaNumber} not found` }
+    }
+    if (!canTransitionCapa(capa.status, to)) {
+        return {
+            success: false,
+            error: `${capaNumber} cannot move from ${CAPA_STATUS_LABELS[capa.status]} to ${CAPA_STATUS_LABELS[to]}`,
+        }
+    }
+
+    const blocker = getCapaTransitionBlocker(capa, to)
+    if (blocker) {
+        return { success: false, error: blocker }
+    }
+
+    const updated = getDb().transaction(() => {
+        appendAuditEntry({
+            actor,
+            action: `${capaNumber} moved to ${CAPA_STATUS_LABELS[to]}`,
+            before: { status: capa.status },
+            after: { status: to },
+        })
+        return updateCapa({ ...capa, status: to })
+    })()
+    return { success: true, capa: updated }
+}
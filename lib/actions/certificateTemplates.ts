@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Server actions for versioned certificate templates.
+ * @module lib/actions/certificateTemplates
+ */
+
+"use server"
+
+import type { CertificateTemplate } from "@/lib/data"
+import {
+    createTemplateVersion,
+    findActiveTemplate,
+    findTemplateById,
+    listTemplates,
+} from "@/lib/db/repositories/certificateTemplates"
+import { SIGN_IN_REQUIRED_ERROR, getSessionActor } from "@/lib/session"
+
+export type CertificateTemplateDraft = Omit<CertificateTemplate, "id" | "version" | "createdAt" | "createdBy">
+
+/**
+ * All template versions, newest version first within each key
+ */
+export async function listCertificateTemplates(): Promise<CertificateTemplate[]> {
+    return listTemplates()
+}
+
+export async function getActiveCertificateTemplate(key: string): Promise<CertificateTemplate | null> {
+    return findActiveTemplate(key) ?? null
+}
+
+export async function getCertificateTemplate(id: string): Promise<CertificateTemplate | null> {
+    return findTemplateById(id) ?? null
+}
+
+/**
+ * Publishes a template change as a new version by the signed-in engineer; previous versions stay untouched
+ */
+export async function createCertificateTemplateVersion(draft: CertificateTemplateDraft): Promise<CertificateTemplate> {
+    const actor = await getSessionActor()
+    if (!actor) {
+        throw new Error(SIGN_IN_REQUIRED_ERROR)
+    }
+    if (actor.role !== "admin_engineer") {
+        throw new Error("Only engineering can change certificate templates")
+    }
+    return createTemplateVersion(draft, actor.name)
+}
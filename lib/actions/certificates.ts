@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Server actions for the certificate registry.
+ * Certificates are only issued with a signed release (see recordInspectionResult and dispositionNcr).
+ * @module lib/actions/certificates
+ */
+
+"use server"
+
+import type { CertificateRecord } from "@/lib/data"
+import { findCertificate, listCertificatesByLot } from "@/lib/db/repositories/certificates"
+
+/**
+ * Looks up an issued certificate by number (for verification or reprint)
+ */
+export async function getCertificate(certNumber: string): Promise<CertificateRecord | null> {
+    return findCertificate(certNumber.trim().toUpperCase()) ?? null
+}
+
+export async function getCertificatesForLot(lotNumber: string): Promise<CertificateRecord[]> {
+    return listCertificatesByLot(lotNumber)
+}
+
+/**
+ * Public base URL printed in certificate verification QR codes (set with RBC_QC_PUBLIC_URL).
+ * Returns null when it is not configured, so no QR pointing at a kiosk-local address is printed.
+ */
+export async function getVerificationBaseUrl(): Promise<string | null> {
+    const baseUrl = process.env.RBC_QC_PUBLIC_URL?.trim().replace(/\/+$/, "")
+    return baseUrl || null
+}
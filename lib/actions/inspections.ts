@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Server actions for recorded inspection readings and completed inspections.
+ * @module lib/actions/inspections
+ */
+
+"use server"
+
+import { DEFAULT_CERTIFICATE_TEMPLATE_KEY } from "@/lib/data"
+import type { Actor, InspectionRecord, InspectionValue, InspectionVerdict } from "@/lib/data"
+import {
+    listInspectionRecordsByLot,
+    listInspectionValues,
+    saveInspectionRecord,
+    saveInspectionValues,
+} from "@/lib/db/repositories/inspections"
+import { findLot, transitionLotStatus } from "@/lib/db/repositories/lots"
+import { createNcr } from "@/lib/db/repositories/ncrs"
+import { issueCertificate } from "@/lib/db/repositories/certificates"
+import { findActiveTemplate } from "@/lib/db/repositories/certificateTemplates"
+import { findActiveRevision, findPartByNumber } from "@/lib/db/repositories/parts"
+import { appendAuditEntry } from "@/lib/db/repositories/audit"
+import { getDb } from "@/lib/db/client"
+import {
+    evaluateInspectionValues,
+    summarizeInspection,
+    toInspectionReadings,
+    type InspectionResultOutcome,
+    type InspectionValuesOutcome,
+} from "@/lib/inspection"
+import { buildNcrDefectCodes, buildNcrFindings } from "@/lib/ncr"
+import {
+    buildCertificateData,
+    buildInspectionResults,
+    signCertificateDraft,
+    type CertificateBuildResult,
+} from "@/lib/pdf/CertificateDataMapper"
+import { LOT_STATUS_LABELS, LOT_STATUS_ROLES, getLotTransitionError } from "@/lib/lotLifecycle"
+import { findSigner, getSignerError } from "@/lib/signature"
+import { signRecord } from "@/lib/db/repositories/signatures"
+import { SIGN_IN_REQUIRED_ERROR, getSessionActor } from "@/lib/session"
+
+/**
+ * Stores the signed-in inspector's readings for the lot as they are entered and returns
+ * every reading now on record. Only fields of the part's current revision are kept, and
+ * their statuses are re-evaluated here. The lot must be in inspection.
+ * Each reading that changed is audited with its previous value.
+ */
+export async function recordInspectionValues(
+    lotNumber: string,
+    values: InspectionValue[]
+): Promise<InspectionValuesOutcome> {
+    const actor = await getSessionActor()
+    if (!actor) {
+        return { success: false, error: SIGN_IN_REQUIRED_ERROR }
+    }
+    if (!LOT_STATUS_ROLES.in_inspection.includes(actor.role)) {
+        return { success: false, error: `Role ${actor.role} cannot record inspection readings` }
+    }
+    const lot = findLot(lotNumber)
+    if (!lot) {
+        return { success: false, error: `Lot ${lotNumber} not found` }
+    }
+    if (lot.status !== "in_inspection") {
+        return { success: false, error: `Lot ${lotNumber} is ${LOT_STATUS_LABELS[lot.status]}, not in inspection` }
+    }
+    const part = findPartByNumber(lot.partNumber)
+    const fields = (part && findActiveRevision(part)?.fields) ?? []
+    const evaluated = evaluateInspectionValues(fields, values, lot.qtyRequired)
+
+    getDb().transaction(() => {
+        const previous = new Map(listInspectionValues(lotNumber).map(value => [value.fieldId, value]))
+        saveInspectionValues(lotNumber, evaluated, actor.name)
+
+        for (const value of evaluated) {
+            const before = previous.get(value.fieldId)
+            if (
+                before
+                && before.value === value.value
+                && before.status === value.status
+                && JSON.stringify(before.samples) === JSON.stringify(value.samples)
+            ) continue
+
+            const name = fields.find(field => field.id === value.fieldId)?.name ?? value.fieldId
+            appendAuditEntry({
+                actor,
+                action: `Reading entered: ${name}`,
+                lotNumber,
+                before: before && { value: before.value, status: before.status, ...(before.samples && { samples: before.samples }) },
+                after: { value: value.value, status: value.status, ...(value.samples && { samples: value.samples }) },
+            })
+        }
+    })()
+    return { success: true, values: listInspectionValues(lotNumber) }
+}
+
+/**
+ * Readings on record for the lot, so any kiosk that scans it resumes the inspection
+ */
+export async function getInspectionValues(lotNumber: string): Promise<InspectionValue[]> {
+    return listInspectionValues(lotNumber)
+}
+
+/**
+ * Records the verdict of the lot's inspection as its next attempt, signed by the
+ * inspector's PIN, and moves the lot to the verdict status in the same transaction.
+ * A release issues the lot's certificate (with a results page when `includeResults`) and
+ * a rejection opens its NCR in that transaction too.
+ * The record is built on the server from the lot, its part's current revision and the
+ * readings on record; a release is refused unless every reading evaluates in tolerance.
+ * The signer is recorded as the inspector. The lot must be in inspection.
+ */
+export async function recordInspectionResult(
+    lotNumber: string,
+    verdict: InspectionVerdict,
+    signerPin: string,
+    includeResults = false
+): Promise<InspectionResultOutcome> {
+    const meaning = verdict === "released" ? "release" : "rejection"
+    const signer = findSigner(signerPin, meaning)
+    if (!signer) {
+        return { success: false, error: getSignerError(meaning) }
+    }
+
+    const actor: Actor = { name: signer.name, role: signer.role }
+    const lot = findLot(lotNumber)
+    if (!lot) {
+        return { success: false, error: `Lot ${lotNumber} not found` }
+    }
+    const error = getLotTransitionError(lot.status, verdict, actor.role)
+    if (error) {
+        return { success: false, error }
+    }
+
+    const part = findPartByNumber(lot.partNumber)
+    const revision = part && findActiveRevision(part)
+    if (!revision || revision.fields.length === 0) {
+        return { success: false, error: `Part ${lot.partNumber} has no published inspection configuration` }
+    }
+
+    const values = evaluateInspectionValues(revision.fields, listInspectionValues(lotNumber), lot.qtyRequired)
+    const { allInspected, hasFailures } = summarizeInspection(revision.fields, values)
+    if (verdict === "released" && hasFailures) {
+        return { success: false, error: "Out-of-tolerance readings are on record; the lot cannot be released" }
+    }
+    if (verdict === "released" && !allInspected) {
+        return { success: false, error: "Not every required characteristic has a reading on record" }
+    }
+
+    let certificate: CertificateBuildResult | undefined
+    if (verdict === "released") {
+        const templateKey = part.certificateTemplateKey ?? DEFAULT_CERTIFICATE_TEMPLATE_KEY
+        const template = findActiveTemplate(templateKey)
+        if (!template) {
+            return { success: false, error: `No active certificate template "${templateKey}"` }
+        }
+        certificate = buildCertificateData({
+            lot,
+            part,
+            revision,
+            inspectorName: signer.name,
+            template,
+            acceptedQty: lot.production?.finishQty ?? 0,
+        })
+        if (!certificate.success) {
+            return { success: false, error: certificate.error }
+        }
+    }
+
+    try {
+        return getDb().transaction((): InspectionResultOutcome => {
+            const saved = saveInspectionRecord({
+                lotNumber,
+                lotHeatNumber: lot.lotHeatNumber,
+                partNumber: lot.partNumber,
+                revision: revision.revision,
+                readings: toInspectionReadings(revision.fields, values),
+                finishQty: lot.production?.finishQty ?? 0,
+                scrapQty: lot.production?.scrapQty ?? 0,
+                defectCode: lot.production?.defectCode ?? null,
+                inspector: signer.name,
+                verdict,
+                recordedAt: new Date().toISOString(),
+            })
+            const signature = signRecord(
+                {
+                    meaning,
+                    signerName: signer.name,
+                    signerRole: signer.role,
+                    recordType: "inspection_record",
+                    recordId: String(saved.id),
+                },
+                saved,
+                lotNumber
+            )
+            const updated = transitionLotStatus(lotNumber, lot.status, verdict, actor)
+            if (certificate?.success) {
+                const issued = issueCertificate(certificate.prefix, {
+                    ...signCertificateDraft(certificate.draft, signature, saved.attempt),
+                    ...(includeResults && { results: buildInspectionResults(revision.fields, values) }),
+                })
+                return { success: true, record: saved, lot: updated, signature, certificate: issued }
+            }
+
+            const ncr = createNcr({
+                lotNumber,
+                partNumber: lot.partNumber,
+                revision: revision.revision,
+                lotHeatNumber: lot.lotHeatNumber,
+                customer: lot.customer,
+                findings: buildNcrFindings(revision.fields, values),
+                defectCodes: buildNcrDefectCodes(revision.fields, values, lot.production?.defectCode ?? ""),
+                quantityAffected: lot.production?.finishQty ?? 0,
+                inspector: signer.name,
+            })
+            return { success: true, record: saved, lot: updated, signature, ncr }
+        })()
+    } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : "Error recording the inspection result" }
+    }
+}
+
+/**
+ * Every inspection attempt of the lot, oldest first
+ */
+export async function getInspectionAttempts(lotNumber: string): Promise<InspectionRecord[]> {
+    return listInspectionRecordsByLot(lotNumber)
+}
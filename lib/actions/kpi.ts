@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Server actions for the manager dashboard KPIs.
+ * @module lib/actions/kpi
+ */
+
+"use server"
+
+import { addDays, parse } from "date-fns"
+import {
+    buildDefectDrillDown,
+    buildKpiReport,
+    type DefectDrillDown,
+    type KpiFilter,
+    type KpiReport,
+} from "@/lib/kpi"
+import { listInspectionRecordsBetween } from "@/lib/db/repositories/inspections"
+import { listLotReleases } from "@/lib/db/repositories/audit"
+import { findLot } from "@/lib/db/repositories/lots"
+
+/**
+ * ISO timestamp range covering the filter's local days
+ */
+function toIsoRange(filter: KpiFilter): { from: string; to: string } {
+    return {
+        from: parse(filter.from, "yyyy-MM-dd", new Date()).toISOString(),
+        to: addDays(parse(filter.to, "yyyy-MM-dd", new Date()), 1).toISOString(),
+    }
+}
+
+/**
+ * KPIs for the filter's date range (local days, inclusive)
+ */
+export async function getKpiReport(filter: KpiFilter): Promise<KpiReport> {
+    const { from, to } = toIsoRange(filter)
+    return buildKpiReport(listInspectionRecordsBetween(from, to), listLotReleases(from, to), filter)
+}
+
+/**
+ * Lots, parts and operators behind a Pareto bar
+ */
+export async function getDefectDrillDown(filter: KpiFilter, code: string): Promise<DefectDrillDown> {
+    const { from, to } = toIsoRange(filter)
+    const records = listInspectionRecordsBetween(from, to)
+    const operators = new Map<string, string>()
+    for (const lotNumber of new Set(records.filter((r) => r.defectCode === code).map((r) => r.lotNumber))) {
+        const operatorName = findLot(lotNumber)?.production?.operatorName
+        if (operatorName) operators.set(lotNumber, operatorName)
+    }
+    return buildDefectDrillDown(records, operators, code, filter)
+}
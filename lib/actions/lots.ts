@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Server actions for lot queues and lifecycle transitions.
+ * @module lib/actions/lots
+ */
+
+"use server"
+
+import { DEFECT_CODES } from "@/lib/data"
+import type { Actor, LotInfo, LotProduction, LotStatus } from "@/lib/data"
+import { findLot, listLotsByStatus, transitionLotStatus } from "@/lib/db/repositories/lots"
+import {
+    LOT_STATUS_LABELS,
+    SIGNED_LOT_STATUSES,
+    getLotTransitionError,
+    type LotTransitionResult,
+} from "@/lib/lotLifecycle"
+import { SIGN_IN_REQUIRED_ERROR, getSessionActor } from "@/lib/session"
+
+/**
+ * Lots sent back to inspection by an MRB rework or 100% sort disposition
+ */
+export async function getReinspectionQueue(): Promise<LotInfo[]> {
+    return listLotsByStatus("reworked")
+}
+
+/**
+ * Moves a lot to a new status if the lifecycle and the signed-in user's role allow it.
+ * Only moves that need no e-signature (start inspection, hold, ship) are made here;
+ * verdicts and dispositions go through recordInspectionResult and dispositionNcr.
+ */
+export async function transitionLot(lotNumber: string, to: LotStatus): Promise<LotTransitionResult> {
+    if (SIGNED_LOT_STATUSES.includes(to)) {
+        return { success: false, error: `${LOT_STATUS_LABELS[to]} must be e-signed through the inspection result or MRB disposition` }
+    }
+    const actor = await getSessionActor()
+    if (!actor) {
+        return { success: false, error: SIGN_IN_REQUIRED_ERROR }
+    }
+    return moveLot(lotNumber, to, actor)
+}
+
+/**
+ * Moves a lot to a new status if the lifecycle and the actor's role allow it.
+ * Every accepted transition is written to the audit trail.
+ */
+function moveLot(lotNumber: string, to: LotStatus, actor: Actor, production?: LotProduction): LotTransitionResult {
+    const lot = findLot(lotNumber)
+    if (!lot) {
+        return { success: false, error: `Lot ${lotNumber} not found` }
+    }
+
+    const error = getLotTransitionError(lot.status, to, actor.role)
+    if (error) {
+        return { success: false, error }
+    }
+
+    try {
+        return { success: true, lot: transitionLotStatus(lotNumber, lot.status, to, actor, production) }
+    } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : "Error updating lot" }
+    }
+}
+
+/**
+ * Records the operator's production data and marks the lot as reported.
+ * Operators do not sign in; the report is audited under the name they enter.
+ */
+export async function reportProduction(
+    lotNumber: string,
+    production: Omit<LotProduction, "reportedAt">
+): Promise<LotTransitionResult> {
+    const operatorName = production.operatorName.trim()
+    if (!operatorName) {
+        return { success: false, error: "Operator name is required" }
+    }
+    if (!Number.isInteger(production.finishQty) || production.finishQty <= 0) {
+        return { success: false, error: "Finish Qty must be a whole number greater than 0" }
+    }
+    if (!Number.isInteger(production.scrapQty) || production.scrapQty < 0) {
+        return { success: false, error: "Scrap Qty must be a whole number (0 if none)" }
+    }
+    if (production.scrapQty > 0 && !production.defectCode) {
+        return { success: false, error: "A defect code is required when parts are scrapped" }
+    }
+    if (production.defectCode && !DEFECT_CODES.some((defect) => defect.code === production.defectCode)) {
+        return { success: false, error: `Unknown defect code ${production.defectCode}` }
+    }
+
+    return moveLot(
+        lotNumber,
+        "production_reported",
+        { name: operatorName, role: "operator" },
+        { ...production, operatorName, reportedAt: new Date().toISOString() }
+    )
+}
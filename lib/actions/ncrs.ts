@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Server actions for Nonconformance Reports.
+ * @module lib/actions/ncrs
+ */
+
+"use server"
+
+import { DEFAULT_CERTIFICATE_TEMPLATE_KEY } from "@/lib/data"
+import type { Actor, MrbDisposition, NcrStatus, NonconformanceReport } from "@/lib/data"
+import {
+    MRB_APPROVER_ROLES,
+    MRB_DISPOSITION_LOT_STATUS,
+    NCR_STATUS_LABELS,
+    canTransitionNcr,
+    type NcrTransitionResult,
+} from "@/lib/ncr"
+import { findNcr, listNcrs, recordNcrDisposition, updateNcrStatus } from "@/lib/db/repositories/ncrs"
+import { findLot, transitionLotStatus } from "@/lib/db/repositories/lots"
+import { clearInspectionValues, listInspectionRecordsByLot } from "@/lib/db/repositories/inspections"
+import { findActiveRevision, findPartByNumber } from "@/lib/db/repositories/parts"
+import { issueCertificate } from "@/lib/db/repositories/certificates"
+import { findActiveTemplate } from "@/lib/db/repositories/certificateTemplates"
+import { signRecord } from "@/lib/db/repositories/signatures"
+import { getDb } from "@/lib/db/client"
+import { getLotTransitionError } from "@/lib/lotLifecycle"
+import { buildCertificateData, signCertificateDraft, type CertificateBuildResult } from "@/lib/pdf/CertificateDataMapper"
+import { findSigner, getSignerError } from "@/lib/signature"
+import { SIGN_IN_REQUIRED_ERROR, getSessionActor } from "@/lib/session"
+
+export async function getNcrs(): Promise<NonconformanceReport[]> {
+    return listNcrs()
+}
+
+export async function getNcr(ncrNumber: string): Promise<NonconformanceReport | null> {
+    return findNcr(ncrNumber) ?? null
+}
+
+/**
+ * Moves an NCR through its workflow as the signed-in user; rejects changes the workflow does not allow.
+ * Starting the review puts the rejected lot on hold for the MRB in the same transaction;
+ * only MRB approvers may close an NCR.
+ */
+export async function transitionNcr(ncrNumber: string, to: NcrStatus, note?: string): Promise<NcrTransitionResult> {
+    const actor = await getSessionActor()
+    if (!actor) {
+        return { success: false, error: SIGN_IN_REQUIRED_ERROR }
+    }
+    const ncr = findNcr(ncrNumber)
+    if (!ncr) {
+        return { success: false, error: `NCR ${ncrNumber} not found` }
+    }
+    if (to === "dispositioned") {
+        return { success: false, error: "Dispositions must be approved through the MRB review" }
+    }
+    if (!canTransitionNcr(ncr.status, to)) {
+        return {
+            success: false,
+            error: `Cannot move ${ncrNumber} from ${NCR_STATUS_LABELS[ncr.status]} to ${NCR_STATUS_LABELS[to]}`,
+        }
+    }
+    if (to === "closed" && !MRB_APPROVER_ROLES.includes(actor.role)) {
+        return { success: false, error: `Role ${actor.role} cannot close an NCR` }
+    }
+
+    const holdLot = to === "under_review" && findLot(ncr.lotNumber)?.status === "rejected"
+    if (holdLot) {
+        const error = getLotTransitionError("rejected", "on_hold", actor.role)
+        if (error) return { success: false, error }
+    }
+
+    try {
+        const updated = getDb().transaction(() => {
+            const moved = updateNcrStatus(ncrNumber, ncr.status, to, actor.name, note?.trim() || undefined)
+            if (holdLot) {
+                transitionLotStatus(ncr.lotNumber, "rejected", "on_hold", actor)
+            }
+            return moved
+        })()
+        return { success: true, ncr: updated }
+    } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : "Error updating NCR" }
+    }
+}
+
+/**
+ * Records the Material Review Board disposition of an NCR.
+ * The approver e-signs it by re-entering their PIN; only managers and engineers may approve.
+ * The lot status follows the disposition in the same transaction (rework returns it to
+ * the inspector queue); a use-as-is release also issues the lot's certificate, signed by the approver.
+ */
+export async function dispositionNcr(
+    ncrNumber: string,
+    disposition: MrbDisposition,
+    justification: string,
+    approverPin: string
+): Promise<NcrTransitionResult> {
+    const ncr = findNcr(ncrNumber)
+    if (!ncr) {
+        return { success: false, error: `NCR ${ncrNumber} not found` }
+    }
+    if (!canTransitionNcr(ncr.status, "dispositioned")) {
+        return { success: false, error: `${ncrNumber} must be under review before MRB disposition` }
+    }
+    if (!justification.trim()) {
+        return { success: false, error: "A justification is required" }
+    }
+
+    const approver = findSigner(approverPin, "mrb_disposition")
+    if (!approver) {
+        return { success: false, error: getSignerError("mrb_disposition") }
+    }
+
+    const actor: Actor = { name: approver.name, role: approver.role }
+    const lotStatus = MRB_DISPOSITION_LOT_STATUS[disposition]
+    const lot = findLot(ncr.lotNumber)
+    if (!lot) {
+        return { success: false, error: `Lot ${ncr.lotNumber} not found` }
+    }
+    const lotError = getLotTransitionError(lot.status, lotStatus, actor.role)
+    if (lotError) {
+        return { success: false, error: lotError }
+    }
+
+    // A lot released as is ships with a certificate like any other release
+    let certificate: CertificateBuildResult | undefined
+    if (lotStatus === "released") {
+        const part = findPartByNumber(lot.partNumber)
+        const templateKey = part?.certificateTemplateKey ?? DEFAULT_CERTIFICATE_TEMPLATE_KEY
+        const template = findActiveTemplate(templateKey)
+        if (!template) {
+            return { success: false, error: `No active certificate template "${templateKey}"` }
+        }
+        certificate = buildCertificateData({
+            lot,
+            part,
+            revision: part && findActiveRevision(part),
+            inspectorName: approver.name,
+            template,
+            acceptedQty: lot.production?.finishQty ?? 0,
+        })
+        if (!certificate.success) {
+            return { success: false, error: certificate.error }
+        }
+    }
+
+    try {
+        return getDb().transaction((): NcrTransitionResult => {
+            const dispositioned = recordNcrDisposition(ncrNumber, ncr.status, {
+                disposition,
+                justification: justification.trim(),
+                approvedBy: approver.name,
+                approverRole: approver.role,
+                decidedAt: new Date().toISOString(),
+            })
+            const signature = signRecord(
+                {
+                    meaning: "mrb_disposition",
+                    signerName: approver.name,
+                    signerRole: approver.role,
+                    recordType: "ncr",
+                    recordId: ncrNumber,
+                },
+                dispositioned,
+                ncr.lotNumber
+            )
+            transitionLotStatus(ncr.lotNumber, lot.status, lotStatus, actor)
+            // A reopened lot starts a fresh attempt; earlier readings stay in its inspection records
+            if (lotStatus === "reworked") {
+                clearInspectionValues(ncr.lotNumber)
+            }
+            if (certificate?.success) {
+                const attempt = listInspectionRecordsByLot(ncr.lotNumber).at(-1)?.attempt ?? 1
+                const issued = issueCertificate(certificate.prefix, signCertificateDraft(certificate.draft, signature, attempt))
+                return { success: true, ncr: dispositioned, certificate: issued }
+            }
+            return { success: true, ncr: dispositioned }
+        })()
+    } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : "Error recording the disposition" }
+    }
+}
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Server actions for part configurations and revisions.
+ * Called by PartConfigContext in place of localStorage.
+ * @module lib/actions/parts
+ */
+
+"use server"
+
+import type { Actor, PartConfig, PartRevision } from "@/lib/data"
+import {
+    deletePart,
+    findPartById,
+    listParts,
+    listRevisions,
+    listRevisionsByPart,
+    savePart,
+    saveRevision,
+    updatePart,
+} from "@/lib/db/repositories/parts"
+import { appendAuditEntry } from "@/lib/db/repositories/audit"
+import { signRecord } from "@/lib/db/repositories/signatures"
+import { findSigner, getSignerError, type RevisionPublishResult } from "@/lib/signature"
+import { getDb } from "@/lib/db/client"
+import { SIGN_IN_REQUIRED_ERROR, getSessionActor } from "@/lib/session"
+
+/**
+ * Signed-in engineer that part changes are audited under
+ */
+async function getEngineer(): Promise<Actor> {
+    const actor = await getSessionActor()
+    if (!actor) throw new Error(SIGN_IN_REQUIRED_ERROR)
+    if (actor.role !== "admin_engineer") throw new Error("Only engineering can change part configurations")
+    return actor
+}
+
+/**
+ * Label after the highest "Rev X" stored for a part ("Rev A" for a part without revisions)
+ */
+function getNextRevisionLabel(labels: string[]): string {
+    const letters = labels
+        .map(label => label.match(/^Rev\s*([A-Z])$/i)?.[1].toUpperCase())
+        .filter((letter): letter is string => letter !== undefined)
+    if (letters.length === 0) return "Rev A"
+
+    const highest = letters.reduce((max, letter) => (letter > max ? letter : max))
+    return `Rev ${String.fromCharCode(highest.charCodeAt(0) + 1)}`
+}
+
+/**
+ * Loads all parts and revisions
+ */
+export async function getPartData(): Promise<{ parts: PartConfig[]; revisions: PartRevision[] }> {
+    return { parts: listParts(), revisions: listRevisions() }
+}
+
+/**
+ * One-time import of parts and revisions a kiosk kept in localStorage, by the signed-in engineer.
+ * The kiosk copy is unsigned, so it never touches a part that already has a current revision:
+ * only new or unpublished parts are imported (unpublished, until a revision is signed), with
+ * those of their revisions whose label is not stored yet. Each imported part is audited.
+ */
+export async function importLegacyPartData(
+    parts: PartConfig[],
+    revisions: PartRevision[]
+): Promise<{ parts: PartConfig[]; revisions: PartRevision[] }> {
+    const actor = await getEngineer()
+    getDb().transaction(() => {
+        for (const part of parts) {
+            if (findPartById(part.id)?.currentRevision) continue
+
+            const storedLabels = new Set(listRevisionsByPart(part.id).map(rev => rev.revision))
+            const partRevisions = revisions.filter(
+                rev => rev.partConfigId === part.id && !storedLabels.has(rev.revision)
+            )
+            savePart({ ...part, currentRevision: "" }, true)
+            partRevisions.forEach(saveRevision)
+            appendAuditEntry({
+                actor,
+                action: `Part ${part.partNumber} imported from kiosk storage`,
+                after: {
+                    partNumber: part.partNumber,
+                    name: part.name,
+                    revisions: partRevisions.map(rev => rev.revision),
+                },
+            })
+        }
+    })()
+    return getPartData()
+}
+
+/**
+ * Stores a new part with no published revision; it cannot be inspected until
+ * its first revision is signed through publishRevision
+ */
+export async function createPartRecord(part: PartConfig): Promise<void> {
+    const actor = await getEngineer()
+    getDb().transaction(() => {
+        savePart({ ...part, currentRevision: "" })
+        appendAuditEntry({
+            actor,
+            action: `Part ${part.partNumber} created`,
+            after: { partNumber: part.partNumber, name: part.name },
+        })
+    })()
+}
+
+/**
+ * Saves part edits and audits the changed properties with their previous values.
+ * The current revision only moves through publishRevision.
+ */
+export async function updatePartRecord(id: string, updates: Partial<PartConfig>): Promise<void> {
+    const actor = await getEngineer()
+    if (updates.currentRevision !== undefined) {
+        throw new Error("The current revision changes only when a signed revision is published")
+    }
+    getDb().transaction(() => {
+        const existing = findPartById(id)
+        const updated = updatePart(id, updates)
+        if (!existing || !updated) return
+
+        const changedKeys = (Object.keys(updates) as (keyof PartConfig)[]).filter(
+            key => key !== "updatedAt" && JSON.stringify(existing[key]) !== JSON.stringify(updated[key])
+        )
+        if (changedKeys.length === 0) return
+
+        appendAuditEntry({
+            actor,
+            action: `Part ${updated.partNumber} edited`,
+            before: Object.fromEntries(changedKeys.map(key => [key, existing[key]])),
+            after: Object.fromEntries(changedKeys.map(key => [key, updated[key]])),
+        })
+    })()
+}
+
+export async function deletePartRecord(id: string): Promise<void> {
+    const actor = await getEngineer()
+    getDb().transaction(() => {
+        const existing = findPartById(id)
+        deletePart(id)
+        if (existing) {
+            appendAuditEntry({
+                actor,
+                action: `Part ${existing.partNumber} deleted`,
+                before: { partNumber: existing.partNumber, name: existing.name, revision: existing.currentRevision },
+            })
+        }
+    })()
+}
+
+/**
+ * Publishes the stored part fields as the part's next revision, signed by the approving
+ * engineer's PIN. The label is assigned here, after the highest one stored for the part.
+ * The signer is recorded as the revision author and the part moves to the new revision.
+ */
+export async function publishRevision(
+    draft: Pick<PartRevision, "id" | "partConfigId" | "changeNote">,
+    signerPin: string
+): Promise<RevisionPublishResult> {
+    const signer = findSigner(signerPin, "revision_approval")
+    if (!signer) {
+        return { success: false, error: getSignerError("revision_approval") }
+    }
+
+    try {
+        return getDb().transaction((): RevisionPublishResult => {
+            const part = findPartById(draft.partConfigId)
+            if (!part) {
+                return { success: false, error: "Part not found" }
+            }
+            const labels = listRevisionsByPart(part.id).map(rev => rev.revision)
+            const revision = getNextRevisionLabel(labels)
+            if (labels.includes(revision) || !/^Rev [A-Z]$/.test(revision)) {
+                return { success: false, error: `${part.partNumber} cannot take another revision after ${part.currentRevision}` }
+            }
+
+            const signed: PartRevision = {
+                ...draft,
+                revision,
+                fields: part.fields,
+                blueprintUrl: part.blueprintUrl,
+                createdAt: new Date().toISOString(),
+                createdBy: signer.name,
+            }
+            saveRevision(signed)
+            updatePart(part.id, { currentRevision: signed.revision })
+            appendAuditEntry({
+                actor: { name: signer.name, role: signer.role },
+                action: `Revision ${signed.revision} published for ${part.partNumber}`,
+                before: { revision: part.currentRevision },
+                after: { revision: signed.revision, changeNote: signed.changeNote },
+            })
+            const signature = signRecord(
+                {
+                    meaning: "revision_approval",
+                    signerName: signer.name,
+                    signerRole: signer.role,
+                    recordType: "part_revision",
+                    recordId: signed.id,
+                },
+                signed
+            )
+            return { success: true, revision: signed, signature }
+        }).immediate()
+    } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : "Error publishing the revision" }
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Server actions for signing in and out of a kiosk.
+ * PINs are checked here, never in the browser.
+ * @module lib/actions/session
+ */
+
+"use server"
+
+import { MOCK_CREDENTIALS } from "@/lib/data"
+import type { Actor, Role } from "@/lib/data"
+import { endSession, getSessionActor, startSession, type SignInResult } from "@/lib/session"
+
+/**
+ * Signs in the user the PIN belongs to, if they hold the requested role
+ */
+export async function signIn(pin: string, role: Role): Promise<SignInResult> {
+    const credential = MOCK_CREDENTIALS.find((c) => c.pin === pin && c.role === role)
+    if (!credential) {
+        return { success: false, error: "PIN Incorrecto o Sin Permisos" }
+    }
+
+    const user: Actor = { name: credential.name, role: credential.role }
+    await startSession(user)
+    return { success: true, user }
+}
+
+/**
+ * Signs out of this kiosk (back to operator mode)
+ */
+export async function signOut(): Promise<void> {
+    await endSession()
+}
+
+/**
+ * User still signed in on this kiosk, e.g. after a page reload
+ */
+export async function getSignedInUser(): Promise<Actor | null> {
+    return (await getSessionActor()) ?? null
+}
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Server actions for Statistical Process Control charts.
+ * @module lib/actions/spc
+ */
+
+"use server"
+
+import { listInspectionRecordsByPart } from "@/lib/db/repositories/inspections"
+import { findActiveRevision, findPartByNumber } from "@/lib/db/repositories/parts"
+import { SPC_HISTORY_LIMIT, buildSpcChart, type SpcChartResult } from "@/lib/spc"
+
+/**
+ * Control chart of a numeric characteristic over the part's latest inspections.
+ * Characteristics and spec limits come from the current published revision, not the draft fields.
+ */
+export async function getSpcChart(partNumber: string, fieldId: string): Promise<SpcChartResult> {
+    const part = findPartByNumber(partNumber)
+    if (!part) {
+        return { success: false, error: `Part ${partNumber} not found` }
+    }
+
+    const revision = findActiveRevision(part)
+    if (!revision) {
+        return { success: false, error: `${partNumber} has no published revision` }
+    }
+
+    const field = revision.fields.find((f) => f.id === fieldId)
+    if (!field || field.type !== "numeric") {
+        return { success: false, error: `${partNumber} ${revision.revision} has no numeric characteristic ${fieldId}` }
+    }
+
+    const records = listInspectionRecordsByPart(part.partNumber, SPC_HISTORY_LIMIT)
+    return { success: true, chart: buildSpcChart(part.partNumber, field, records) }
+}
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Audit trail filters and display helpers shared by the server and the UI.
+ * @module lib/audit
+ */
+
+import type { AuditEntry, Role } from "@/lib/data"
+
+// ==========================================
+// QUERY
+// ==========================================
+
+export const AUDIT_PAGE_SIZE = 25
+
+/**
+ * Filters for the audit trail. Dates are local yyyy-MM-dd days and inclusive.
+ */
+export interface AuditFilter {
+    user?: string
+    lotNumber?: string
+    from?: string
+    to?: string
+}
+
+/**
+ * One page of audit entries, newest first, with the total matching the filter
+ */
+export interface AuditPage {
+    entries: AuditEntry[]
+    total: number
+    /** Every user that appears in the trail, for the user filter */
+    users: string[]
+}
+
+// ==========================================
+// HASH CHAIN
+// ==========================================
+
+/**
+ * Result of re-hashing the audit trail. Entries older than the chain are
+ * counted as unsealed; `brokenAt` is the id of the first entry that fails.
+ */
+export type AuditChainStatus =
+    | { intact: true; checked: number; unsealed: number }
+    | { intact: false; checked: number; unsealed: number; brokenAt: number; reason: string }
+
+// ==========================================
+// DISPLAY
+// ==========================================
+
+export const AUDIT_ROLE_LABELS: Record<Role, string> = {
+    operator: "Operator",
+    inspector: "Inspector",
+    manager: "Manager",
+    admin_engineer: "Engineer",
+}
+
+/**
+ * One-line summary of a before/after value for the audit table
+ */
+export function describeAuditValue(value: unknown): string {
+    if (value === undefined || value === null) return "—"
+    if (typeof value !== "object") return String(value)
+    return Object.entries(value)
+        .filter(([, v]) => v !== undefined && v !== null)
+        .map(([key, v]) => `${key}: ${typeof v === "object" ? JSON.stringify(v) : v}`)
+        .join(", ")
+}
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Hash chain for the audit trail.
+ * Each entry stores the SHA-256 of its content together with the previous entry's
+ * hash, so editing, deleting or reordering any entry breaks every hash after it.
+ * Deleting entries from the end of the trail leaves a shorter chain that still verifies;
+ * only a head hash recorded outside the database (see the audit export) reveals it.
+ * Server-only (uses node:crypto).
+ * @module lib/auditHash
+ */
+
+import { createHash } from "node:crypto"
+import { canonicalize } from "@/lib/certificateHash"
+
+/** Previous hash of the first entry in the chain */
+export const AUDIT_GENESIS_HASH = "0".repeat(64)
+
+/**
+ * Audit entry columns covered by the hash, exactly as stored (before/after as JSON text)
+ */
+export interface AuditHashContent {
+    timestamp: string
+    user: string
+    role: string
+    action: string
+    lotNumber: string | null
+    before: string | null
+    after: string | null
+}
+
+/**
+ * SHA-256 of the canonical JSON of the entry content plus the previous entry's hash
+ */
+export function computeAuditHash(content: AuditHashContent, prevHash: string): string {
+    return createHash("sha256").update(canonicalize({ ...content, prevHash })).digest("hex")
+}
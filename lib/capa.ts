@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Corrective and Preventive Action (CAPA / 8D) rules shared by the server and the UI.
+ * @module lib/capa
+ */
+
+import { format } from "date-fns"
+import type { CapaAction, CapaRecord, CapaSource, CapaStatus, IshikawaCategory, Role } from "@/lib/data"
+
+// ==========================================
+// WORKFLOW
+// ==========================================
+
+/**
+ * Allowed status changes: open -> in progress -> verification -> closed.
+ * A failed effectiveness check sends the CAPA back to in progress.
+ */
+export const CAPA_TRANSITIONS: Record<CapaStatus, CapaStatus[]> = {
+    open: ["in_progress"],
+    in_progress: ["verification"],
+    verification: ["closed", "in_progress"],
+    closed: [],
+}
+
+export const CAPA_STATUS_LABELS: Record<CapaStatus, string> = {
+    open: "Open",
+    in_progress: "In Progress",
+    verification: "Verification",
+    closed: "Closed",
+}
+
+/**
+ * Roles allowed to open, edit and move CAPAs
+ */
+export const CAPA_ROLES: Role[] = ["manager", "admin_engineer"]
+
+export function canTransitionCapa(from: CapaStatus, to: CapaStatus): boolean {
+    return CAPA_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Result of a CAPA change
+ */
+export type CapaResult =
+    | { success: true; capa: CapaRecord }
+    | { success: false; error: string }
+
+// ==========================================
+// 8D CONTENT
+// ==========================================
+
+export const ISHIKAWA_CATEGORIES: { value: IshikawaCategory; label: string }[] = [
+    { value: "man", label: "Man" },
+    { value: "machine", label: "Machine" },
+    { value: "method", label: "Method" },
+    { value: "material", label: "Material" },
+    { value: "measurement", label: "Measurement" },
+    { value: "environment", label: "Environment" },
+]
+
+/** Number of "why" steps in the root cause chain */
+export const FIVE_WHY_STEPS = 5
+
+export function describeCapaSource(source: CapaSource): string {
+    return source.type === "ncr" ? source.ncrNumber : `Trend ${source.defectCode}`
+}
+
+/**
+ * Reason the CAPA cannot move to the given status, if any
+ */
+export function getCapaTransitionBlocker(capa: CapaRecord, to: CapaStatus): string | undefined {
+    if (to === "in_progress" && capa.status === "open" && capa.team.length === 0) {
+        return "Assign the 8D team (D1) before starting"
+    }
+    if (to === "verification") {
+        if (!capa.rootCause.statement.trim()) return "Record the root cause (D4) before verification"
+        if (capa.actions.length === 0) return "Add at least one corrective action (D5) before verification"
+        if (capa.actions.some((action) => !action.completedAt)) return "Complete every corrective action before verification"
+    }
+    if (to === "closed" && !capa.verification?.effective) {
+        return "Effectiveness must be verified (D8) before closing"
+    }
+    return undefined
+}
+
+// ==========================================
+// OVERDUE ACTIONS
+// ==========================================
+
+export interface OverdueCapaAction {
+    capaNumber: string
+    title: string
+    action: CapaAction
+}
+
+/**
+ * Open actions whose due date is before today
+ */
+export function isActionOverdue(action: CapaAction, today: Date = new Date()): boolean {
+    return !action.completedAt && action.dueDate < format(today, "yyyy-MM-dd")
+}
+
+/**
+ * Overdue actions of every CAPA that is not closed, oldest due date first
+ */
+export function collectOverdueActions(capas: CapaRecord[], today: Date = new Date()): OverdueCapaAction[] {
+    return capas
+        .filter((capa) => capa.status !== "closed")
+        .flatMap((capa) => capa.actions
+            .filter((action) => isActionOverdue(action, today))
+            .map((action) => ({ capaNumber: capa.capaNumber, title: capa.title, action })))
+        .sort((a, b) => a.action.dueDate.localeCompare(b.action.dueDate))
+}
@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Process capability studies (Cp, Cpk, Pp, Ppk) for numeric part characteristics.
+ * Shared by the server (computation), the capability card and the PDF report.
+ * @module lib/capability
+ */
+
+import type { FieldDefinition, InspectionRecord, PartConfig, PartRevision } from "@/lib/data"
+import { buildSpcChart, estimateWithinSigma } from "@/lib/spc"
+import { describeNumericTolerance, getToleranceLimits, type ToleranceLimits } from "@/lib/tolerance"
+import type { MeasurementUnit } from "@/lib/units"
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface HistogramBin {
+    start: number
+    end: number
+    count: number
+}
+
+export type CapabilityRating = "capable" | "marginal" | "not_capable"
+
+export interface CapabilityStudy {
+    partNumber: string
+    partName: string
+    /** Current revision of the part, whose spec limits the study is judged against */
+    revision: string
+    revisionDate?: string
+    revisionNote?: string
+    fieldId: string
+    fieldName: string
+    tool?: string
+    /** Specified unit of the readings and limits */
+    unit?: MeasurementUnit
+    /** Tolerance as written on the drawing ("0.5 ± 0.003") */
+    tolerance?: string
+    spec: ToleranceLimits
+    /** Individual readings in the study */
+    readings: number
+    lots: number
+    /** Revisions the readings were recorded under */
+    recordedRevisions: string[]
+    firstRecordedAt: string | null
+    lastRecordedAt: string | null
+    mean: number | null
+    min: number | null
+    max: number | null
+    /** Short-term sigma within subgroups (Cp/Cpk), see estimateWithinSigma */
+    sigmaWithin: number | null
+    /** Long-term sample standard deviation of all readings (Pp/Ppk) */
+    sigmaOverall: number | null
+    cp: number | null
+    cpk: number | null
+    pp: number | null
+    ppk: number | null
+    histogram: HistogramBin[]
+}
+
+export type CapabilityStudyResult =
+    | { success: true; study: CapabilityStudy }
+    | { success: false; error: string }
+
+// ==========================================
+// CONSTANTS
+// ==========================================
+
+/** Inspection records of a part included in a study */
+export const CAPABILITY_HISTORY_LIMIT = 250
+
+/** Minimum index customers accept for a critical characteristic */
+export const CAPABILITY_TARGET = 1.33
+
+/** Below this many readings the study is reported as preliminary */
+export const CAPABILITY_PRELIMINARY_READINGS = 30
+
+export const CAPABILITY_RATING_LABELS: Record<CapabilityRating, string> = {
+    capable: "Capable",
+    marginal: "Marginal",
+    not_capable: "Not capable",
+}
+
+const MIN_BINS = 5
+const MAX_BINS = 20
+
+// ==========================================
+// COMPUTATION
+// ==========================================
+
+function standardDeviation(values: number[], mean: number): number | null {
+    if (values.length < 2) return null
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    return Math.sqrt(variance)
+}
+
+/**
+ * Potential (Cp/Pp) and actual (Cpk/Ppk) index for one sigma.
+ * The potential index needs both limits; the actual index uses whichever limits exist.
+ */
+function capabilityIndices(
+    spec: CapabilityStudy["spec"],
+    mean: number | null,
+    sigma: number | null
+): { potential: number | null; actual: number | null } {
+    if (mean === null || !sigma) return { potential: null, actual: null }
+
+    const sides: number[] = []
+    if (spec.max !== undefined) sides.push((spec.max - mean) / (3 * sigma))
+    if (spec.min !== undefined) sides.push((mean - spec.min) / (3 * sigma))
+
+    return {
+        potential: spec.min !== undefined && spec.max !== undefined ? (spec.max - spec.min) / (6 * sigma) : null,
+        actual: sides.length > 0 ? Math.min(...sides) : null,
+    }
+}
+
+/**
+ * Equal-width bins covering the readings and the spec limits (square-root rule)
+ */
+function buildHistogram(values: number[], spec: CapabilityStudy["spec"]): HistogramBin[] {
+    if (values.length === 0) return []
+
+    const low = Math.min(...values, spec.min ?? Infinity)
+    const high = Math.max(...values, spec.max ?? -Infinity)
+    const binCount = Math.min(MAX_BINS, Math.max(MIN_BINS, Math.ceil(Math.sqrt(values.length))))
+    const width = high > low ? (high - low) / binCount : 1
+
+    const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+        start: low + index * width,
+        end: low + (index + 1) * width,
+        count: 0,
+    }))
+    for (const value of values) {
+        bins[Math.min(binCount - 1, Math.floor((value - low) / width))].count++
+    }
+    return bins
+}
+
+/**
+ * Capability study of a numeric characteristic of the part's current revision
+ * from its inspection records (oldest first)
+ */
+export function buildCapabilityStudy(
+    part: PartConfig,
+    revision: PartRevision,
+    field: FieldDefinition,
+    records: InspectionRecord[]
+): CapabilityStudy {
+    const chart = buildSpcChart(part.partNumber, field, records)
+    const values = chart.points.flatMap((point) => point.values)
+    const spec = getToleranceLimits(field)
+
+    const mean = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+    const sigmaWithin = estimateWithinSigma(chart)
+    const sigmaOverall = mean !== null ? standardDeviation(values, mean) : null
+    const within = capabilityIndices(spec, mean, sigmaWithin)
+    const overall = capabilityIndices(spec, mean, sigmaOverall)
+
+    const charted = new Set(chart.points.map((point) => point.recordId))
+    const chartedRecords = records.filter((record) => charted.has(record.id))
+
+    return {
+        partNumber: part.partNumber,
+        partName: part.name,
+        revision: revision.revision,
+        revisionDate: revision.createdAt,
+        revisionNote: revision.changeNote,
+        fieldId: field.id,
+        fieldName: field.name,
+        tool: field.tool,
+        unit: field.unit,
+        tolerance: describeNumericTolerance(field),
+        spec,
+        readings: values.length,
+        lots: new Set(chartedRecords.map((record) => record.lotNumber)).size,
+        recordedRevisions: [...new Set(chartedRecords.map((record) => record.revision))],
+        firstRecordedAt: chart.points[0]?.recordedAt ?? null,
+        lastRecordedAt: chart.points[chart.points.length - 1]?.recordedAt ?? null,
+        mean,
+        min: values.length > 0 ? Math.min(...values) : null,
+        max: values.length > 0 ? Math.max(...values) : null,
+        sigmaWithin,
+        sigmaOverall,
+        cp: within.potential,
+        cpk: within.actual,
+        pp: overall.potential,
+        ppk: overall.actual,
+        histogram: buildHistogram(values, spec),
+    }
+}
+
+export function getCapabilityRating(index: number | null): CapabilityRating | null {
+    if (index === null) return null
+    if (index >= CAPABILITY_TARGET) return "capable"
+    return index >= 1 ? "marginal" : "not_capable"
+}
+
+/**
+ * Normal curve of the overall distribution, scaled to histogram counts
+ */
+export function buildNormalCurve(study: CapabilityStudy, steps = 60): { x: number; expected: number }[] {
+    const { histogram, mean, sigmaOverall, readings } = study
+    if (histogram.length === 0 || mean === null || !sigmaOverall) return []
+
+    const start = histogram[0].start
+    const end = histogram[histogram.length - 1].end
+    const binWidth = histogram[0].end - histogram[0].start
+    const scale = readings * binWidth / (sigmaOverall * Math.sqrt(2 * Math.PI))
+
+    return Array.from({ length: steps + 1 }, (_, index) => {
+        const x = start + ((end - start) * index) / steps
+        return { x, expected: scale * Math.exp(-0.5 * ((x - mean) / sigmaOverall) ** 2) }
+    })
+}
+
+// ==========================================
+// FORMATTING
+// ==========================================
+
+export function formatIndex(index: number | null): string {
+    return index === null ? "N/A" : index.toFixed(2)
+}
+
+export function formatMeasurement(value: number | null | undefined): string {
+    return value === null || value === undefined ? "N/A" : String(Number(value.toFixed(4)))
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Content hash for issued certificates.
+ * The hash printed in the certificate QR code is recomputed from the stored
+ * record on verification, so an altered paper copy or record is detected.
+ * Server-only (uses node:crypto).
+ * @module lib/certificateHash
+ */
+
+import { createHash } from "node:crypto"
+import type { CertificateData } from "@/lib/pdf/CertificatePDFGenerator"
+
+/**
+ * Serializes a value with sorted object keys so the hash does not depend on key order.
+ * Keys are compared by code unit, not locale, so any checker reproduces the same text.
+ */
+export function canonicalize(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalize).join(",")}]`
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(",")}}`
+    }
+    return JSON.stringify(value)
+}
+
+/**
+ * SHA-256 of the certificate content (everything except the hash itself)
+ */
+export function computeCertificateHash(data: CertificateData): string {
+    const { verificationHash: _hash, ...content } = data
+    return createHash("sha256").update(canonicalize(content)).digest("hex")
+}
@@ -1,6 +1,10 @@
 // ==========================================
 // TYPES
 // ==========================================
+import type { CertificateData } from "@/lib/pdf/CertificatePDFGenerator"
+import type { AqlLevel } from "@/lib/sampling"
+import type { MeasurementUnit } from "@/lib/units"
+
 export type Role = "operator" | "inspector" | "manager" | "admin_engineer"
 
 /**
@@ -8,6 +12,36 @@ export type Role = "operator" | "inspector" | "manager" | "admin_engineer"
  */
 export type FieldType = "numeric" | "boolean" | "select"
 
+/**
+ * Multi-piece sampling plan for a numeric characteristic:
+ * a fixed sample size, or ANSI/ASQ Z1.4 by lot size (qtyRequired) and AQL
+ */
+export type SamplingPlan =
+  | { type: "fixed"; sampleSize: number; acceptNumber: number }
+  | { type: "aql"; aql: AqlLevel }
+
+/**
+ * Geometric (GD&T) characteristic controlled by a max-only tolerance zone
+ */
+export type GeometricCharacteristic =
+  | "parallelism"
+  | "true_position"
+  | "concentricity"
+  | "roundness"
+  | "runout"
+  | "flatness"
+
+/**
+ * Tolerance of a numeric characteristic as written on the drawing:
+ * nominal with a bilateral (+plus/-minus) or unilateral tolerance, a max-only
+ * limit (optionally a GD&T feature) or a min-only limit
+ */
+export type ToleranceSpec =
+  | { style: "bilateral"; nominal: number; plus: number; minus: number }
+  | { style: "unilateral"; nominal: number; tolerance: number; direction: "plus" | "minus" }
+  | { style: "max_only"; max: number; feature?: GeometricCharacteristic }
+  | { style: "min_only"; min: number }
+
 /**
  * Field Definition for Dynamic Part Config
  * Defines a measurement field that engineers can configure per part
@@ -19,7 +53,11 @@ export interface FieldDefinition {
   tool?: string                   // Measurement tool (Vernier, Caliper, etc.)
   min?: number                    // For numeric validation
   max?: number
+  tolerance?: ToleranceSpec       // Numeric only; replaces min/max when present
+  unit?: MeasurementUnit          // Numeric only; limits and stored readings are in this unit
+  precision?: number              // Numeric only; decimals shown for limits and readings
   options?: string[]              // For select type
+  sampling?: SamplingPlan         // Numeric only; a single reading when absent
   required: boolean
 }
 
@@ -31,10 +69,11 @@ export interface PartConfig {
   id: string
   partNumber: string
   name: string
-  currentRevision: string         // e.g., "Rev B"
+  currentRevision: string         // e.g., "Rev B"; empty until the first revision is published
   fields: FieldDefinition[]
   blueprintUrl?: string
   photoUrls?: string[]
+  certificateTemplateKey?: string // Certificate layout used on release (default: black-oxide)
   createdAt: string
   updatedAt: string
 }
@@ -72,8 +111,171 @@ export interface PartialShipment {
  */
 export interface InspectionValue {
   fieldId: string
-  value: number | boolean | string | null
+  value: number | boolean | string | null   // Mean of the pieces for sampled fields
   status: "pending" | "pass" | "fail"
+  samples?: (number | null)[]     // Piece readings of a sampled field
+}
+
+export type InspectionVerdict = "released" | "rejected"
+
+/**
+ * Reading of one characteristic as stored with an inspection record
+ * (the name is kept so exports survive later revision changes)
+ */
+export interface InspectionReading {
+  fieldId: string
+  name: string
+  value: number | boolean | string | null
+  status: InspectionValue["status"]
+  samples?: (number | null)[]
+  unit?: MeasurementUnit          // Specified unit of the field the value is stored in
+}
+
+/**
+ * Completed inspection of a lot (one row of the plant's inspection workbook).
+ * A lot reopened by an MRB rework disposition is inspected again as a new attempt.
+ */
+export interface InspectionRecord {
+  id: number
+  lotNumber: string
+  lotHeatNumber: string
+  partNumber: string
+  revision: string
+  readings: InspectionReading[]
+  finishQty: number
+  scrapQty: number
+  defectCode: string | null
+  inspector: string
+  verdict: InspectionVerdict
+  attempt: number                 // 1 for the first inspection of the lot
+  recordedAt: string
+}
+
+/**
+ * Nonconformance Report lifecycle
+ */
+export type NcrStatus = "open" | "under_review" | "dispositioned" | "closed"
+
+/**
+ * Failing characteristic captured on an NCR
+ */
+export interface NcrFinding {
+  fieldId: string
+  characteristic: string
+  tolerance: string
+  measured: string
+}
+
+/**
+ * Material Review Board decision for the parts of a rejected lot
+ */
+export type MrbDisposition = "use_as_is" | "rework" | "scrap" | "return_to_supplier" | "sort_100"
+
+export interface NcrDisposition {
+  disposition: MrbDisposition
+  justification: string
+  approvedBy: string              // Authenticated manager/engineer
+  approverRole: Role
+  decidedAt: string
+}
+
+export interface NcrStatusChange {
+  from: NcrStatus | null
+  to: NcrStatus
+  changedBy: string
+  note?: string
+  changedAt: string
+}
+
+/**
+ * Nonconformance Report raised when a lot is rejected
+ */
+export interface NonconformanceReport {
+  ncrNumber: string               // e.g. "NCR-26-0001"
+  lotNumber: string
+  partNumber: string
+  revision: string
+  lotHeatNumber: string
+  customer?: string
+  findings: NcrFinding[]
+  defectCodes: string[]
+  quantityAffected: number
+  inspector: string
+  description?: string
+  status: NcrStatus
+  disposition?: NcrDisposition
+  history: NcrStatusChange[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Corrective and Preventive Action (8D) lifecycle
+ */
+export type CapaStatus = "open" | "in_progress" | "verification" | "closed"
+
+/**
+ * What opened the CAPA: a single NCR or a recurring defect code
+ */
+export type CapaSource =
+  | { type: "ncr"; ncrNumber: string }
+  | { type: "defect_trend"; defectCode: string }
+
+/**
+ * Ishikawa (fishbone) cause categories
+ */
+export type IshikawaCategory = "man" | "machine" | "method" | "material" | "measurement" | "environment"
+
+/**
+ * D4 - Root cause analysis
+ */
+export interface CapaRootCause {
+  whys: string[]                  // 5-Why chain, first "why" first
+  ishikawa: Partial<Record<IshikawaCategory, string>>
+  statement: string               // Confirmed root cause
+}
+
+/**
+ * D5/D6 - Corrective action with an owner and a due date
+ */
+export interface CapaAction {
+  id: string
+  description: string
+  owner: string
+  dueDate: string                 // yyyy-MM-dd
+  completedAt?: string
+}
+
+/**
+ * D8 - Verification of effectiveness
+ */
+export interface CapaVerification {
+  method: string
+  result: string
+  effective: boolean
+  verifiedBy: string
+  verifiedAt: string
+}
+
+/**
+ * Corrective and Preventive Action record following the 8D method
+ */
+export interface CapaRecord {
+  capaNumber: string              // e.g. "CAPA-26-0001"
+  title: string
+  source: CapaSource
+  partNumber?: string
+  status: CapaStatus
+  team: string[]                  // D1
+  problemDescription: string      // D2
+  containment: string             // D3
+  rootCause: CapaRootCause        // D4
+  actions: CapaAction[]           // D5/D6
+  preventiveActions: string       // D7
+  verification?: CapaVerification // D8
+  createdBy: string
+  createdAt: string
+  updatedAt: string
 }
 
 /**
@@ -97,9 +299,69 @@ export const MOCK_CREDENTIALS: UserCredential[] = [
  */
 export const VALID_LOT_PREFIXES = ["STD", "LOT", "RBC", "QC"]
 
+/**
+ * Lifecycle status of a lot as recorded in the lot store (see lib/lotLifecycle for the transitions)
+ */
+export type LotStatus =
+  | "scanned"
+  | "production_reported"
+  | "in_inspection"
+  | "released"
+  | "rejected"
+  | "on_hold"
+  | "reworked"
+  | "shipped"
+  | "scrapped"
+  | "returned_to_supplier"
+
+/**
+ * Production data reported by the operator for a lot
+ */
+export interface LotProduction {
+  finishQty: number
+  scrapQty: number
+  defectCode: string | null
+  operatorName: string
+  reportedAt: string
+}
+
+/**
+ * User performing an action (kiosk operators are identified by the name they enter)
+ */
+export interface Actor {
+  name: string
+  role: Role
+}
+
+/**
+ * What a signer attests to with an electronic signature
+ */
+export type SignatureMeaning = "release" | "rejection" | "mrb_disposition" | "revision_approval"
+
+export type SignedRecordType = "inspection_record" | "ncr" | "part_revision"
+
+/**
+ * Electronic signature (21 CFR Part 11 style): the signer re-entered their PIN
+ * and the hash pins down the exact record content that was signed
+ */
+export interface ElectronicSignature {
+  id: number
+  meaning: SignatureMeaning
+  signerName: string
+  signerRole: Role
+  signedAt: string
+  recordType: SignedRecordType
+  recordId: string
+  recordHash: string              // SHA-256 of the signed record
+}
+
 export interface LotInfo {
+  lotNumber: string
+  status: LotStatus
+  production?: LotProduction
   partNumber: string
   orderNumber: string
+  customer?: string
   lotHeatNumber: string
   qtyRequired: number
   standard: string
@@ -122,27 +384,87 @@ export interface InspectionSpec {
   status: "pending" | "pass" | "fail"
 }
 
+/**
+ * Audit trail entry. Before/after hold the changed values as recorded by the action.
+ * Entries written before the hash chain existed have no hashes.
+ */
 export interface AuditEntry {
   id: number
   timestamp: string
   user: string
-  role: string
+  role: Role
   action: string
+  lotNumber?: string
+  before?: unknown
+  after?: unknown
+  prevHash?: string
+  hash?: string
 }
 
-export interface KpiData {
-  lotsReleasedToday: number
-  avgCycleTime: string
-  firstPassYield: string
-  topDefects: { code: string; count: number }[]
+/**
+ * Issued Certificate of Conformance as kept by the certificate registry
+ */
+export interface CertificateRecord {
+  certNumber: string
+  prefix: string                  // Process prefix, e.g. "BO" for Black Oxide
+  sequence: number                // Daily sequence within the prefix
+  lotNumber: string
+  inspector: string
+  issuedAt: string
+  data: CertificateData           // Exact data printed, used for reprints
+}
+
+/**
+ * Certificate data fields a template row can print
+ */
+export type CertificateField = Exclude<keyof CertificateData, "certNumber" | "templateId" | "results" | "verificationHash" | "inspectionAttempt" | "signature">
+
+/**
+ * One label/value row of a certificate template.
+ * Prints a certificate data field when `field` is set, otherwise the static `value`.
+ */
+export interface CertificateTemplateRow {
+  label: string
+  field?: CertificateField
+  value?: string
+}
+
+/**
+ * Certificate of Conformance layout for a process/customer.
+ * Versions are immutable; a new version is stored for every change.
+ */
+export interface CertificateTemplate {
+  id: string
+  key: string                     // Stable across versions, e.g. "black-oxide"
+  version: number
+  name: string                    // e.g. "Black Oxide - Standard"
+  processName: string             // Printed under the title, e.g. "Black Oxide"
+  certPrefix: string              // Certificate number prefix, e.g. "BO"
+  companyName: string
+  companyDivision: string
+  companyLegalName: string
+  title: string
+  subtitle: string
+  infoRows: CertificateTemplateRow[]
+  statement: string
+  processRows: CertificateTemplateRow[]
+  disclaimerLines: string[]
+  addressLines: string[]
+  formRevision: string            // e.g. "QS-P6-FP Rev.06"
+  changeNote: string
+  createdAt: string
+  createdBy: string
 }
 
 // ==========================================
 // MOCK DATA
 // ==========================================
 export const SCANNED_LOT: LotInfo = {
+  lotNumber: "STD260305",
+  status: "scanned",
   partNumber: "320-52761",
   orderNumber: "EAC260201",
+  customer: "RBC HARTSVILLE",
   lotHeatNumber: "296039",
   qtyRequired: 3300,
   standard: "ASTM A 967-05",
@@ -150,6 +472,45 @@ export const SCANNED_LOT: LotInfo = {
   photoUrl: "/images/reference photo.jpg",
 }
 
+/**
+ * Seed lots for the local lot store (first run only)
+ */
+export const INITIAL_LOTS: LotInfo[] = [
+  SCANNED_LOT,
+  {
+    lotNumber: "LOT260210",
+    status: "scanned",
+    partNumber: "420-78932",
+    orderNumber: "EAC260207",
+    customer: "RBC HARTSVILLE",
+    lotHeatNumber: "301144",
+    qtyRequired: 1200,
+    standard: "ASTM A 967-05",
+  },
+  {
+    lotNumber: "RBC260214",
+    status: "scanned",
+    partNumber: "550-33421",
+    orderNumber: "EAC260212",
+    customer: "RBC FAIRFIELD",
+    lotHeatNumber: "301872",
+    qtyRequired: 800,
+    standard: "AMS 2700",
+  },
+  {
+    lotNumber: "QC260130",
+    status: "released",
+    partNumber: "320-52761",
+    orderNumber: "EAC260125",
+    customer: "RBC HARTSVILLE",
+    lotHeatNumber: "295410",
+    qtyRequired: 3300,
+    standard: "ASTM A 967-05",
+    drawingUrl: "/images/tecnical drawing.jpg",
+    photoUrl: "/images/reference photo.jpg",
+  },
+]
+
 export const DEFECT_CODES: DefectCode[] = [
   { code: "Z02", description: "OXIDO EN CUALQUIER SUPERFICIE DE LA PIEZA" },
   { code: "Z03", description: "DAÑADO (GOLPES/MARCAS)" },
@@ -193,29 +554,6 @@ export const INITIAL_SPECS: InspectionSpec[] = [
   { id: 4, characteristic: "Angulo", tool: "Protractor", min: 44.5, max: 45.5, actual: null, status: "pending" },
 ]
 
-export const MOCK_AUDIT_LOG: AuditEntry[] = [
-  { id: 1, timestamp: "2026-02-06 08:12:34", user: "Carlos M.", role: "Operator", action: "Scanned Lot #296039" },
-  { id: 2, timestamp: "2026-02-06 08:13:01", user: "Carlos M.", role: "Operator", action: "Entered Finish Qty: 3280, Scrap: 20" },
-  { id: 3, timestamp: "2026-02-06 08:13:45", user: "Carlos M.", role: "Operator", action: "Selected Defect: Z03 - DAÑADO" },
-  { id: 4, timestamp: "2026-02-06 08:20:12", user: "Maria S.", role: "Inspector", action: "Began Dimensional Inspection" },
-  { id: 5, timestamp: "2026-02-06 08:22:50", user: "Maria S.", role: "Inspector", action: "All 4 characteristics PASS" },
-  { id: 6, timestamp: "2026-02-06 08:23:10", user: "Maria S.", role: "Inspector", action: "APPROVED RELEASE - Lot #296039" },
-]
-
-export const MOCK_KPI: KpiData = {
-  lotsReleasedToday: 14,
-  avgCycleTime: "4m 52s",
-  firstPassYield: "96.2%",
-  topDefects: [
-    { code: "Z03", count: 12 },
-    { code: "Z10", count: 8 },
-    { code: "Z02", count: 6 },
-    { code: "Z42", count: 4 },
-    { code: "Z11", count: 3 },
-    { code: "Z04", count: 2 },
-  ],
-}
-
 // ==========================================
 // INITIAL PART CONFIGURATIONS (Demo Data)
 // ==========================================
@@ -226,9 +564,9 @@ export const INITIAL_PART_CONFIGS: PartConfig[] = [
     name: "Bushing Assembly",
     currentRevision: "Rev A",
     fields: [
-      { id: "f1", name: "Distancia", type: "numeric", tool: "Vernier", min: 0.47, max: 0.53, required: true },
-      { id: "f2", name: "Radio", type: "numeric", tool: "Vernier", min: 0.22, max: 0.28, required: true },
-      { id: "f3", name: "Diametro Hole", type: "numeric", tool: "Pin Gauge", min: 0.25, max: 0.31, required: true },
+      { id: "f1", name: "Distancia", type: "numeric", tool: "Vernier", min: 0.47, max: 0.53, unit: "in", precision: 3, required: true },
+      { id: "f2", name: "Radio", type: "numeric", tool: "Vernier", min: 0.22, max: 0.28, unit: "in", precision: 3, required: true },
+      { id: "f3", name: "Diametro Hole", type: "numeric", tool: "Pin Gauge", min: 0.25, max: 0.31, unit: "in", precision: 3, required: true },
       { id: "f4", name: "Angulo", type: "numeric", tool: "Protractor", min: 44.5, max: 45.5, required: true },
     ],
     createdAt: "2026-01-15T10:00:00Z",
@@ -240,8 +578,8 @@ export const INITIAL_PART_CONFIGS: PartConfig[] = [
     name: "Valve Cap",
     currentRevision: "Rev B",
     fields: [
-      { id: "f1", name: "Diámetro Exterior", type: "numeric", tool: "Calibrador", min: 12.5, max: 12.7, required: true },
-      { id: "f2", name: "Espesor", type: "numeric", tool: "Micrómetro", min: 2.0, max: 2.2, required: true },
+      { id: "f1", name: "Diámetro Exterior", type: "numeric", tool: "Calibrador", min: 12.5, max: 12.7, unit: "mm", precision: 2, required: true },
+      { id: "f2", name: "Espesor", type: "numeric", tool: "Micrómetro", min: 2.0, max: 2.2, unit: "mm", precision: 2, required: true },
       { id: "f3", name: "Inspección Visual", type: "boolean", required: true },
     ],
     createdAt: "2026-01-20T14:30:00Z",
@@ -253,7 +591,7 @@ export const INITIAL_PART_CONFIGS: PartConfig[] = [
     name: "Shaft Connector",
     currentRevision: "Rev A",
     fields: [
-      { id: "f1", name: "Longitud Total", type: "numeric", tool: "Cinta Métrica", min: 150.0, max: 152.0, required: true },
+      { id: "f1", name: "Longitud Total", type: "numeric", tool: "Cinta Métrica", min: 150.0, max: 152.0, unit: "mm", precision: 2, required: true },
       { id: "f2", name: "Acabado Superficial", type: "select", options: ["Liso", "Texturizado", "Pulido"], required: true },
     ],
     createdAt: "2026-02-05T08:00:00Z",
@@ -270,9 +608,9 @@ export const INITIAL_REVISIONS: PartRevision[] = [
     partConfigId: "part-001",
     revision: "Rev A",
     fields: [
-      { id: "f1", name: "Distancia", type: "numeric", tool: "Vernier", min: 0.47, max: 0.53, required: true },
-      { id: "f2", name: "Radio", type: "numeric", tool: "Vernier", min: 0.22, max: 0.28, required: true },
-      { id: "f3", name: "Diametro Hole", type: "numeric", tool: "Pin Gauge", min: 0.25, max: 0.31, required: true },
+      { id: "f1", name: "Distancia", type: "numeric", tool: "Vernier", min: 0.47, max: 0.53, unit: "in", precision: 3, required: true },
+      { id: "f2", name: "Radio", type: "numeric", tool: "Vernier", min: 0.22, max: 0.28, unit: "in", precision: 3, required: true },
+      { id: "f3", name: "Diametro Hole", type: "numeric", tool: "Pin Gauge", min: 0.25, max: 0.31, unit: "in", precision: 3, required: true },
       { id: "f4", name: "Angulo", type: "numeric", tool: "Protractor", min: 44.5, max: 45.5, required: true },
     ],
     changeNote: "Initial release",
@@ -284,8 +622,8 @@ export const INITIAL_REVISIONS: PartRevision[] = [
     partConfigId: "part-002",
     revision: "Rev A",
     fields: [
-      { id: "f1", name: "Diámetro Exterior", type: "numeric", tool: "Calibrador", min: 12.4, max: 12.6, required: true },
-      { id: "f2", name: "Espesor", type: "numeric", tool: "Micrómetro", min: 2.0, max: 2.2, required: true },
+      { id: "f1", name: "Diámetro Exterior", type: "numeric", tool: "Calibrador", min: 12.4, max: 12.6, unit: "mm", precision: 2, required: true },
+      { id: "f2", name: "Espesor", type: "numeric", tool: "Micrómetro", min: 2.0, max: 2.2, unit: "mm", precision: 2, required: true },
     ],
     changeNote: "Initial release",
     createdAt: "2026-01-20T14:30:00Z",
@@ -296,8 +634,8 @@ export const INITIAL_REVISIONS: PartRevision[] = [
     partConfigId: "part-002",
     revision: "Rev B",
     fields: [
-      { id: "f1", name: "Diámetro Exterior", type: "numeric", tool: "Calibrador", min: 12.5, max: 12.7, required: true },
-      { id: "f2", name: "Espesor", type: "numeric", tool: "Micrómetro", min: 2.0, max: 2.2, required: true },
+      { id: "f1", name: "Diámetro Exterior", type: "numeric", tool: "Calibrador", min: 12.5, max: 12.7, unit: "mm", precision: 2, required: true },
+      { id: "f2", name: "Espesor", type: "numeric", tool: "Micrómetro", min: 2.0, max: 2.2, unit: "mm", precision: 2, required: true },
       { id: "f3", name: "Inspección Visual", type: "boolean", required: true },
     ],
     changeNote: "Increased OD tolerance, added visual inspection per ECO-2026-015",
@@ -306,3 +644,93 @@ export const INITIAL_REVISIONS: PartRevision[] = [
   },
 ]
 
+
+// ==========================================
+// INITIAL CERTIFICATE TEMPLATES (Demo Data)
+// ==========================================
+const RBC_MEXICO_HEADER = {
+  companyName: "RBC",
+  companyDivision: "DE MEXICO",
+  companyLegalName: "S. DE R.L. DE C.V.",
+  title: "CERTIFICATE OF CONFORMANCE",
+  subtitle: "Internal Processing",
+}
+
+const STANDARD_INFO_ROWS: CertificateTemplateRow[] = [
+  { label: "Customer:", field: "customer" },
+  { label: "P/N:", field: "partNumber" },
+  { label: "Rev:", field: "revision" },
+  { label: "Drawing no. or PCN:", field: "drawingNumber" },
+  { label: "Customer Part Number(if applicable):", field: "customerPartNumber" },
+  { label: "Customer Dwg Revision(if applicable)", field: "customerDwgRevision" },
+  { label: "Lot/WO:", field: "lotNumber" },
+  { label: "Product Description:", field: "productDescription" },
+  { label: "Raw Material Heat Number:", field: "rawMaterialHeatNumber" },
+  { label: "Quantity", field: "quantity" },
+  { label: "Processing Date:", field: "processingDate" },
+]
+
+const STANDARD_STATEMENT = "We hereby certify that the product/s described above were processed in accordance with the specification(s) and drawing requirements stated below, and conforms to all purchase order requirements."
+
+const DOCUMENT_CONTROL_DISCLAIMER = [
+  "Cuando sea impreso, este documento no es controlado a menos que sea identificado por Control de documentos.",
+  "When printed, this document is not controlled unless it is identified by Document Control.",
+]
+
+const REYNOSA_ADDRESS = [
+  "Avenida 16 de Septiembre Parque Industrial Reynosa C.P. 88780",
+  "Planta 1 Lote 11, Planta 2 Lote 3, Planta 3 Lote 14",
+  "Planta 4 Ave. Mike Allen #1320 esq. Ave. 16 de Septiembre C.P. 88787",
+]
+
+export const DEFAULT_CERTIFICATE_TEMPLATE_KEY = "black-oxide"
+
+export const INITIAL_CERTIFICATE_TEMPLATES: CertificateTemplate[] = [
+  {
+    id: "ctpl-001",
+    key: DEFAULT_CERTIFICATE_TEMPLATE_KEY,
+    version: 1,
+    name: "Black Oxide - Standard",
+    processName: "Black Oxide",
+    certPrefix: "BO",
+    ...RBC_MEXICO_HEADER,
+    infoRows: STANDARD_INFO_ROWS,
+    statement: STANDARD_STATEMENT,
+    processRows: [
+      { label: "Specifications:", value: "RBC PS-20 REV. NC (AMS-2485M and MIL-DTL-13924F)" },
+      { label: "Method:", value: "Hot Alkaline-Oxidizing" },
+      { label: "Type:", value: "N/A" },
+      { label: "Class:", value: "(Class-1)" },
+      { label: "Test:", value: "Oxalic Acid Spot Test" },
+    ],
+    disclaimerLines: DOCUMENT_CONTROL_DISCLAIMER,
+    addressLines: REYNOSA_ADDRESS,
+    formRevision: "QS-P6-FP Rev.06",
+    changeNote: "Initial release",
+    createdAt: "2026-01-15T10:00:00Z",
+    createdBy: "Ing. Sistema",
+  },
+  {
+    id: "ctpl-002",
+    key: "passivation",
+    version: 1,
+    name: "Passivation - Standard",
+    processName: "Passivation",
+    certPrefix: "PA",
+    ...RBC_MEXICO_HEADER,
+    infoRows: STANDARD_INFO_ROWS,
+    statement: STANDARD_STATEMENT,
+    processRows: [
+      { label: "Specifications:", value: "ASTM A967-05 / AMS 2700" },
+      { label: "Method:", value: "Citric Acid" },
+      { label: "Type:", value: "Method 2" },
+      { label: "Test:", value: "Water Immersion Test" },
+    ],
+    disclaimerLines: DOCUMENT_CONTROL_DISCLAIMER,
+    addressLines: REYNOSA_ADDRESS,
+    formRevision: "QS-P6-FP-PA Rev.01",
+    changeNote: "Initial release",
+    createdAt: "2026-01-15T10:00:00Z",
+    createdBy: "Ing. Sistema",
+  },
+]
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview SQLite connection for the server.
+ * Opens the database file once per process, applies migrations and seeds demo data
+ * into a newly created database.
+ * @module lib/db/client
+ */
+
+import Database from "better-sqlite3"
+import fs from "fs"
+import path from "path"
+import { MIGRATIONS } from "./schema"
+import { seedDatabase } from "./seed"
+
+/** Location of the database file (override with RBC_QC_DB_PATH) */
+const DB_PATH = process.env.RBC_QC_DB_PATH ?? path.join(process.cwd(), "data", "rbc-qc.sqlite")
+
+/** Cached on globalThis so dev-mode hot reloads reuse the same connection */
+const globalForDb = globalThis as unknown as { rbcQcDb?: Database.Database }
+
+/**
+ * Applies pending migrations based on `PRAGMA user_version`.
+ * Returns the version the database was at before migrating (0 = new database).
+ */
+function migrate(db: Database.Database): number {
+    const currentVersion = db.pragma("user_version", { simple: true }) as number
+
+    MIGRATIONS.slice(currentVersion).forEach((sql, index) => {
+        db.transaction(() => {
+            db.exec(sql)
+            db.pragma(`user_version = ${currentVersion + index + 1}`)
+        })()
+    })
+    return currentVersion
+}
+
+/**
+ * Returns the shared database connection, opening it on first use
+ */
+export function getDb(): Database.Database {
+    if (!globalForDb.rbcQcDb) {
+        fs.mkdirSync(path.dirname(DB_PATH), { recursive: true })
+
+        const db = new Database(DB_PATH)
+        db.pragma("journal_mode = WAL")
+        db.pragma("foreign_keys = ON")
+
+        // Demo data is loaded once; emptied tables stay empty across restarts
+        if (migrate(db) === 0) {
+            seedDatabase(db)
+        }
+
+        globalForDb.rbcQcDb = db
+    }
+    return globalForDb.rbcQcDb
+}
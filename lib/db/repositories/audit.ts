@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Audit trail repository.
+ * Append-only log of who did what, with the state before and after the change.
+ * Entries are hash-chained (see lib/auditHash) so later edits can be detected.
+ * @module lib/db/repositories/audit
+ */
+
+import { addDays, parse } from "date-fns"
+import { getDb } from "@/lib/db/client"
+import type { Actor, AuditEntry, Role } from "@/lib/data"
+import type { AuditChainStatus, AuditFilter, AuditPage } from "@/lib/audit"
+import { AUDIT_GENESIS_HASH, computeAuditHash, type AuditHashContent } from "@/lib/auditHash"
+import type { LotRelease } from "@/lib/kpi"
+import { LOT_SCAN_ACTION } from "@/lib/lotLifecycle"
+
+interface AuditRow {
+    id: number
+    timestamp: string
+    user: string
+    role: Role
+    action: string
+    lot_number: string | null
+    before: string | null
+    after: string | null
+    prev_hash: string | null
+    hash: string | null
+}
+
+function toHashContent(row: AuditRow): AuditHashContent {
+    return {
+        timestamp: row.timestamp,
+        user: row.user,
+        role: row.role,
+        action: row.action,
+        lotNumber: row.lot_number,
+        before: row.before,
+        after: row.after,
+    }
+}
+
+function toAuditEntry(row: AuditRow): AuditEntry {
+    return {
+        id: row.id,
+        timestamp: row.timestamp,
+        user: row.user,
+        role: row.role,
+        action: row.action,
+        lotNumber: row.lot_number ?? undefined,
+        before: row.before === null ? undefined : JSON.parse(row.before),
+        after: row.after === null ? undefined : JSON.parse(row.after),
+        prevHash: row.prev_hash ?? undefined,
+        hash: row.hash ?? undefined,
+    }
+}
+
+/**
+ * Change to record in the audit trail
+ */
+export interface AuditEvent {
+    actor: Actor
+    action: string
+    lotNumber?: string
+    before?: unknown
+    after?: unknown
+}
+
+// ==========================================
+// QUERIES
+// ==========================================
+
+/**
+ * Page of entries matching the filter, newest first
+ */
+export function listAuditEntries(filter: AuditFilter, limit: number, offset: number): AuditPage {
+    const db = getDb()
+    const clauses: string[] = []
+    const params: Record<string, string> = {}
+
+    if (filter.user) {
+        clauses.push("user = @user")
+        params.user = filter.user
+    }
+    if (filter.lotNumber) {
+        clauses.push("lot_number LIKE @lotNumber")
+        params.lotNumber = `%${filter.lotNumber}%`
+    }
+    // Filter days are local to the plant; timestamps are UTC ISO strings
+    if (filter.from) {
+        clauses.push("timestamp >= @from")
+        params.from = parse(filter.from, "yyyy-MM-dd", new Date()).toISOString()
+    }
+    if (filter.to) {
+        clauses.push("timestamp < @to")
+        params.to = addDays(parse(filter.to, "yyyy-MM-dd", new Date()), 1).toISOString()
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : ""
+
+    const rows = db
+        .prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT @limit OFFSET @offset`)
+        .all({ ...params, limit, offset }) as AuditRow[]
+    const { total } = db
+        .prepare(`SELECT COUNT(*) AS total FROM audit_log ${where}`)
+        .get(params) as { total: number }
+    const users = db
+        .prepare("SELECT DISTINCT user FROM audit_log ORDER BY user")
+        .pluck()
+        .all() as string[]
+
+    return { entries: rows.map(toAuditEntry), total, users }
+}
+
+/**
+ * Lots that entered "released" with `from <= timestamp < to` (ISO timestamps),
+ * with the first scan before each release
+ */
+export function listLotReleases(from: string, to: string): LotRelease[] {
+    return getDb().prepare(`
+        SELECT a.lot_number AS lotNumber,
+               l.part_number AS partNumber,
+               a.timestamp AS releasedAt,
+               (SELECT MIN(s.timestamp) FROM audit_log s
+                 WHERE s.lot_number = a.lot_number AND s.action = @scanAction AND s.timestamp <= a.timestamp) AS scannedAt
+        FROM audit_log a
+        JOIN lots l ON l.lot_number = a.lot_number
+        WHERE json_extract(a.after, '$.status') = 'released'
+          AND a.timestamp >= @from AND a.timestamp < @to
+        ORDER BY a.timestamp
+    `).all({ from, to, scanAction: LOT_SCAN_ACTION }) as LotRelease[]
+}
+
+/**
+ * Every entry in chain order with the columns exactly as stored, for external verification
+ */
+export function listAuditChain(): (AuditHashContent & { id: number; prevHash: string | null; hash: string | null })[] {
+    const rows = getDb().prepare("SELECT * FROM audit_log ORDER BY id").all() as AuditRow[]
+    return rows.map((row) => ({ id: row.id, ...toHashContent(row), prevHash: row.prev_hash, hash: row.hash }))
+}
+
+/**
+ * Re-hashes the whole trail in order and reports the first entry that does not match.
+ * Entries removed from the end cannot be detected here; compare the last hash with an
+ * exported head hash for that.
+ */
+export function verifyAuditChain(): AuditChainStatus {
+    const rows = getDb().prepare("SELECT * FROM audit_log ORDER BY id").iterate() as IterableIterator<AuditRow>
+    let expectedPrevHash: string | null = null
+    let checked = 0
+    let unsealed = 0
+
+    for (const row of rows) {
+        // Entries written before the chain existed come first and carry no hash
+        if (row.hash === null && expectedPrevHash === null) {
+            unsealed++
+            continue
+        }
+
+        const broken = (reason: string): AuditChainStatus => ({ intact: false, checked, unsealed, brokenAt: row.id, reason })
+        if (row.hash === null || row.prev_hash === null) {
+            return broken("Entry has no hash")
+        }
+        if (row.prev_hash !== (expectedPrevHash ?? AUDIT_GENESIS_HASH)) {
+            return broken("Previous hash does not match the entry before it")
+        }
+        if (computeAuditHash(toHashContent(row), row.prev_hash) !== row.hash) {
+            return broken("Entry content does not match its hash")
+        }
+
+        expectedPrevHash = row.hash
+        checked++
+    }
+
+    return { intact: true, checked, unsealed }
+}
+
+// ==========================================
+// MUTATIONS
+// ==========================================
+
+/**
+ * Appends an entry to the audit trail, chained to the last entry's hash.
+ * Call inside the transaction that makes the change.
+ */
+export function appendAuditEntry(event: AuditEvent, createdAt: Date = new Date()): void {
+    const db = getDb()
+
+    db.transaction(() => {
+        const last = db.prepare("SELECT hash FROM audit_log ORDER BY id DESC LIMIT 1").get() as
+            | { hash: string | null }
+            | undefined
+        const prevHash = last?.hash ?? AUDIT_GENESIS_HASH
+        const content: AuditHashContent = {
+            timestamp: createdAt.toISOString(),
+            user: event.actor.name,
+            role: event.actor.role,
+            action: event.action,
+            lotNumber: event.lotNumber ?? null,
+            before: event.before === undefined ? null : JSON.stringify(event.before),
+            after: event.after === undefined ? null : JSON.stringify(event.after),
+        }
+
+        db.prepare(`
+            INSERT INTO audit_log (timestamp, user, role, action, lot_number, before, after, prev_hash, hash)
+            VALUES (@timestamp, @user, @role, @action, @lotNumber, @before, @after, @prevHash, @hash)
+        `).run({ ...content, prevHash, hash: computeAuditHash(content, prevHash) })
+    })()
+}
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Corrective and Preventive Action (CAPA / 8D) repository.
+ * CAPA numbers are CAPA-YY-NNNN, sequential per year. The 8D content is stored as JSON columns.
+ * @module lib/db/repositories/capas
+ */
+
+import { getDb } from "@/lib/db/client"
+import type { CapaRecord, CapaStatus } from "@/lib/data"
+
+interface CapaRow {
+    capa_number: string
+    title: string
+    source: "ncr" | "defect_trend"
+    ncr_number: string | null
+    defect_code: string | null
+    part_number: string | null
+    status: CapaStatus
+    team: string
+    problem_description: string
+    containment: string
+    root_cause: string
+    actions: string
+    preventive_actions: string
+    verification: string | null
+    created_by: string
+    created_at: string
+    updated_at: string
+}
+
+function toCapa(row: CapaRow): CapaRecord {
+    return {
+        capaNumber: row.capa_number,
+        title: row.title,
+        source: row.source === "ncr"
+            ? { type: "ncr", ncrNumber: row.ncr_number ?? "" }
+            : { type: "defect_trend", defectCode: row.defect_code ?? "" },
+        partNumber: row.part_number ?? undefined,
+        status: row.status,
+        team: JSON.parse(row.team),
+        problemDescription: row.problem_description,
+        containment: row.containment,
+        rootCause: JSON.parse(row.root_cause),
+        actions: JSON.parse(row.actions),
+        preventiveActions: row.preventive_actions,
+        verification: row.verification ? JSON.parse(row.verification) : undefined,
+        createdBy: row.created_by,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    }
+}
+
+// ==========================================
+// QUERIES
+// ==========================================
+
+export function findCapa(capaNumber: string): CapaRecord | undefined {
+    const row = getDb().prepare("SELECT * FROM capas WHERE capa_number = ?").get(capaNumber) as CapaRow | undefined
+    return row ? toCapa(row) : undefined
+}
+
+export function listCapas(): CapaRecord[] {
+    const rows = getDb().prepare("SELECT * FROM capas ORDER BY id DESC").all() as CapaRow[]
+    return rows.map(toCapa)
+}
+
+/**
+ * CAPA already opened for an NCR, if any
+ */
+export function findCapaByNcr(ncrNumber: string): CapaRecord | undefined {
+    const row = getDb()
+        .prepare("SELECT * FROM capas WHERE ncr_number = ? ORDER BY id DESC")
+        .get(ncrNumber) as CapaRow | undefined
+    return row ? toCapa(row) : undefined
+}
+
+// ==========================================
+// MUTATIONS
+// ==========================================
+
+/**
+ * Opens a new CAPA and assigns the next number for the year
+ */
+export function createCapa(
+    draft: Pick<CapaRecord, "title" | "source" | "partNumber" | "problemDescription" | "createdBy">,
+    createdAt: Date = new Date()
+): CapaRecord {
+    const db = getDb()
+    const year = String(createdAt.getFullYear()).slice(-2)
+    const timestamp = createdAt.toISOString()
+
+    return db.transaction(() => {
+        const { count } = db
+            .prepare("SELECT COUNT(*) AS count FROM capas WHERE capa_number LIKE ?")
+            .get(`CAPA-${year}-%`) as { count: number }
+        const capaNumber = `CAPA-${year}-${String(count + 1).padStart(4, "0")}`
+
+        db.prepare(`
+            INSERT INTO capas (capa_number, title, source, ncr_number, defect_code, part_number, status,
+                               team, problem_description, containment, root_cause, actions,
+                               preventive_actions, created_by, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, 'open', '[]', ?, '', ?, '[]', '', ?, ?, ?)
+        `).run(
+            capaNumber,
+            draft.title,
+            draft.source.type,
+            draft.source.type === "ncr" ? draft.source.ncrNumber : null,
+            draft.source.type === "defect_trend" ? draft.source.defectCode : null,
+            draft.partNumber ?? null,
+            draft.problemDescription,
+            JSON.stringify({ whys: [], ishikawa: {}, statement: "" }),
+            draft.createdBy,
+            timestamp,
+            timestamp
+        )
+
+        return findCapa(capaNumber) as CapaRecord
+    }).immediate()
+}
+
+/**
+ * Saves the 8D content and status of a CAPA
+ */
+export function updateCapa(capa: CapaRecord, updatedAt: Date = new Date()): CapaRecord {
+    getDb().prepare(`
+        UPDATE capas SET
+            title = ?, status = ?, team = ?, problem_description = ?, containment = ?, root_cause = ?,
+            actions = ?, preventive_actions = ?, verification = ?, updated_at = ?
+        WHERE capa_number = ?
+    `).run(
+        capa.title,
+        capa.status,
+        JSON.stringify(capa.team),
+        capa.problemDescription,
+        capa.containment,
+        JSON.stringify(capa.rootCause),
+        JSON.stringify(capa.actions),
+        capa.preventiveActions,
+        capa.verification ? JSON.stringify(capa.verification) : null,
+        updatedAt.toISOString(),
+        capa.capaNumber
+    )
+    return findCapa(capa.capaNumber) as CapaRecord
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Certificate template repository.
+ * Templates are versioned per key; saving a change always adds a new version
+ * so certificates issued with an older version can be reprinted unchanged.
+ * @module lib/db/repositories/certificateTemplates
+ */
+
+import { getDb } from "@/lib/db/client"
+import type { CertificateTemplate } from "@/lib/data"
+
+interface TemplateRow {
+    id: string
+    template_key: string
+    version: number
+    data: string
+    created_at: string
+    created_by: string
+}
+
+function toTemplate(row: TemplateRow): CertificateTemplate {
+    return {
+        ...JSON.parse(row.data),
+        id: row.id,
+        key: row.template_key,
+        version: row.version,
+        createdAt: row.created_at,
+        createdBy: row.created_by,
+    }
+}
+
+export function listTemplates(): CertificateTemplate[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM certificate_templates ORDER BY template_key, version DESC")
+        .all() as TemplateRow[]
+    return rows.map(toTemplate)
+}
+
+export function findTemplateById(id: string): CertificateTemplate | undefined {
+    const row = getDb()
+        .prepare("SELECT * FROM certificate_templates WHERE id = ?")
+        .get(id) as TemplateRow | undefined
+    return row ? toTemplate(row) : undefined
+}
+
+/**
+ * Latest version of a template key
+ */
+export function findActiveTemplate(key: string): CertificateTemplate | undefined {
+    const row = getDb()
+        .prepare("SELECT * FROM certificate_templates WHERE template_key = ? ORDER BY version DESC LIMIT 1")
+        .get(key) as TemplateRow | undefined
+    return row ? toTemplate(row) : undefined
+}
+
+/**
+ * Stores the draft as the next version of its key (version 1 for a new key)
+ */
+export function createTemplateVersion(
+    draft: Omit<CertificateTemplate, "id" | "version" | "createdAt" | "createdBy">,
+    createdBy: string
+): CertificateTemplate {
+    const db = getDb()
+
+    return db.transaction(() => {
+        const { next_version: version } = db
+            .prepare("SELECT COALESCE(MAX(version), 0) + 1 AS next_version FROM certificate_templates WHERE template_key = ?")
+            .get(draft.key) as { next_version: number }
+
+        const template: CertificateTemplate = {
+            ...draft,
+            id: `ctpl-${draft.key}-v${version}`,
+            version,
+            createdAt: new Date().toISOString(),
+            createdBy,
+        }
+
+        db.prepare(`
+            INSERT INTO certificate_templates (id, template_key, version, data, created_at, created_by)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `).run(template.id, template.key, version, JSON.stringify(template), template.createdAt, createdBy)
+
+        return template
+    }).immediate()
+}
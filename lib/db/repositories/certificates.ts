@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Certificate registry.
+ * Hands out collision-free daily certificate numbers per process prefix
+ * and keeps the issued data so certificates can be looked up and reprinted.
+ * @module lib/db/repositories/certificates
+ */
+
+import { format } from "date-fns"
+import { getDb } from "@/lib/db/client"
+import { computeCertificateHash } from "@/lib/certificateHash"
+import type { CertificateRecord } from "@/lib/data"
+import type { CertificateData } from "@/lib/pdf/CertificatePDFGenerator"
+
+interface CertificateRow {
+    cert_number: string
+    prefix: string
+    sequence: number
+    lot_number: string
+    inspector: string
+    issued_at: string
+    data: string
+}
+
+function toRecord(row: CertificateRow): CertificateRecord {
+    return {
+        certNumber: row.cert_number,
+        prefix: row.prefix,
+        sequence: row.sequence,
+        lotNumber: row.lot_number,
+        inspector: row.inspector,
+        issuedAt: row.issued_at,
+        data: JSON.parse(row.data),
+    }
+}
+
+/**
+ * Formats a certificate number, e.g. BO-060226-01
+ */
+function formatCertNumber(prefix: string, issueDay: string, sequence: number): string {
+    return `${prefix}-${issueDay}-${String(sequence).padStart(2, "0")}`
+}
+
+/**
+ * Allocates the next number for the prefix and day and stores the certificate.
+ * Runs in an IMMEDIATE transaction so concurrent kiosks never share a number.
+ * The stored data carries its content hash for QR verification.
+ */
+export function issueCertificate(
+    prefix: string,
+    draft: Omit<CertificateData, "certNumber">,
+    issuedAt: Date = new Date()
+): CertificateRecord {
+    const db = getDb()
+    const issueDay = format(issuedAt, "ddMMyy")
+
+    return db.transaction(() => {
+        const { last_sequence: sequence } = db.prepare(`
+            INSERT INTO certificate_sequences (prefix, issue_day, last_sequence)
+            VALUES (?, ?, 1)
+            ON CONFLICT (prefix, issue_day) DO UPDATE SET last_sequence = last_sequence + 1
+            RETURNING last_sequence
+        `).get(prefix, issueDay) as { last_sequence: number }
+
+        const certNumber = formatCertNumber(prefix, issueDay, sequence)
+        const content: CertificateData = { ...draft, certNumber }
+        const data: CertificateData = { ...content, verificationHash: computeCertificateHash(content) }
+
+        db.prepare(`
+            INSERT INTO certificates (cert_number, prefix, issue_day, sequence, lot_number,
+                                      inspector, issued_at, data)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            certNumber,
+            prefix,
+            issueDay,
+            sequence,
+            draft.lotNumber,
+            draft.qualityInspector,
+            issuedAt.toISOString(),
+            JSON.stringify(data)
+        )
+
+        return findCertificate(certNumber) as CertificateRecord
+    }).immediate()
+}
+
+export function findCertificate(certNumber: string): CertificateRecord | undefined {
+    const row = getDb()
+        .prepare("SELECT * FROM certificates WHERE cert_number = ?")
+        .get(certNumber) as CertificateRow | undefined
+    return row ? toRecord(row) : undefined
+}
+
+export function listCertificatesByLot(lotNumber: string): CertificateRecord[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM certificates WHERE lot_number = ? ORDER BY issued_at DESC")
+        .all(lotNumber) as CertificateRow[]
+    return rows.map(toRecord)
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Inspection value and record repository.
+ * Stores the latest reading per lot and field, and a record per completed inspection
+ * (one per attempt when a reworked lot is inspected again).
+ * @module lib/db/repositories/inspections
+ */
+
+import { getDb } from "@/lib/db/client"
+import type { InspectionRecord, InspectionValue } from "@/lib/data"
+
+interface InspectionValueRow {
+    field_id: string
+    value: string | null
+    status: InspectionValue["status"]
+    samples: string | null
+}
+
+interface InspectionRecordRow {
+    id: number
+    lot_number: string
+    lot_heat_number: string
+    part_number: string
+    revision: string
+    readings: string
+    finish_qty: number
+    scrap_qty: number
+    defect_code: string | null
+    inspector: string
+    verdict: InspectionRecord["verdict"]
+    attempt: number
+    recorded_at: string
+}
+
+function toInspectionValue(row: InspectionValueRow): InspectionValue {
+    return {
+        fieldId: row.field_id,
+        value: row.value === null ? null : JSON.parse(row.value),
+        status: row.status,
+        samples: row.samples === null ? undefined : JSON.parse(row.samples),
+    }
+}
+
+function toInspectionRecord(row: InspectionRecordRow): InspectionRecord {
+    return {
+        id: row.id,
+        lotNumber: row.lot_number,
+        lotHeatNumber: row.lot_heat_number,
+        partNumber: row.part_number,
+        revision: row.revision,
+        readings: JSON.parse(row.readings),
+        finishQty: row.finish_qty,
+        scrapQty: row.scrap_qty,
+        defectCode: row.defect_code,
+        inspector: row.inspector,
+        verdict: row.verdict,
+        attempt: row.attempt,
+        recordedAt: row.recorded_at,
+    }
+}
+
+// ==========================================
+// INSPECTION VALUES
+// ==========================================
+
+export function listInspectionValues(lotNumber: string): InspectionValue[] {
+    const rows = getDb()
+        .prepare("SELECT field_id, value, status, samples FROM inspection_values WHERE lot_number = ?")
+        .all(lotNumber) as InspectionValueRow[]
+    return rows.map(toInspectionValue)
+}
+
+/**
+ * Upserts the given readings for a lot
+ */
+export function saveInspectionValues(lotNumber: string, values: InspectionValue[], recordedBy: string): void {
+    const db = getDb()
+    const upsert = db.prepare(`
+        INSERT INTO inspection_values (lot_number, field_id, value, status, samples, recorded_by, recorded_at)
+        VALUES (@lotNumber, @fieldId, @value, @status, @samples, @recordedBy, @recordedAt)
+        ON CONFLICT (lot_number, field_id) DO UPDATE SET
+            value = excluded.value,
+            status = excluded.status,
+            samples = excluded.samples,
+            recorded_by = excluded.recorded_by,
+            recorded_at = excluded.recorded_at
+    `)
+    const recordedAt = new Date().toISOString()
+
+    db.transaction(() => {
+        for (const value of values) {
+            upsert.run({
+                lotNumber,
+                fieldId: value.fieldId,
+                value: value.value === null ? null : JSON.stringify(value.value),
+                status: value.status,
+                samples: value.samples ? JSON.stringify(value.samples) : null,
+                recordedBy,
+                recordedAt,
+            })
+        }
+    })()
+}
+
+export function clearInspectionValues(lotNumber: string): void {
+    getDb().prepare("DELETE FROM inspection_values WHERE lot_number = ?").run(lotNumber)
+}
+
+// ==========================================
+// INSPECTION RECORDS
+// ==========================================
+
+/**
+ * Stores a completed inspection as the lot's next attempt
+ */
+export function saveInspectionRecord(record: Omit<InspectionRecord, "id" | "attempt">): InspectionRecord {
+    const db = getDb()
+
+    return db.transaction(() => {
+        const { count } = db
+            .prepare("SELECT COUNT(*) AS count FROM inspection_records WHERE lot_number = ?")
+            .get(record.lotNumber) as { count: number }
+        const attempt = count + 1
+
+        const { lastInsertRowid } = db.prepare(`
+            INSERT INTO inspection_records (lot_number, lot_heat_number, part_number, revision, readings,
+                                            finish_qty, scrap_qty, defect_code, inspector, verdict, attempt, recorded_at)
+            VALUES (@lotNumber, @lotHeatNumber, @partNumber, @revision, @readings,
+                    @finishQty, @scrapQty, @defectCode, @inspector, @verdict, @attempt, @recordedAt)
+        `).run({ ...record, readings: JSON.stringify(record.readings), attempt })
+        return { ...record, id: Number(lastInsertRowid), attempt }
+    }).immediate()
+}
+
+export function listInspectionRecordsByLot(lotNumber: string): InspectionRecord[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM inspection_records WHERE lot_number = ? ORDER BY attempt")
+        .all(lotNumber) as InspectionRecordRow[]
+    return rows.map(toInspectionRecord)
+}
+
+/**
+ * Records with `from <= recorded_at < to` (ISO timestamps)
+ */
+export function listInspectionRecordsBetween(from: string, to: string): InspectionRecord[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM inspection_records WHERE recorded_at >= ? AND recorded_at < ? ORDER BY recorded_at")
+        .all(from, to) as InspectionRecordRow[]
+    return rows.map(toInspectionRecord)
+}
+
+/**
+ * Latest `limit` records of a part, returned oldest first
+ */
+export function listInspectionRecordsByPart(partNumber: string, limit: number): InspectionRecord[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM inspection_records WHERE part_number = ? ORDER BY recorded_at DESC, id DESC LIMIT ?")
+        .all(partNumber, limit) as InspectionRecordRow[]
+    return rows.reverse().map(toInspectionRecord)
+}
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Lot repository.
+ * @module lib/db/repositories/lots
+ */
+
+import { getDb } from "@/lib/db/client"
+import type { Actor, LotInfo, LotProduction, LotStatus } from "@/lib/data"
+import { LOT_ACTION_LABELS } from "@/lib/lotLifecycle"
+import { appendAuditEntry } from "./audit"
+
+interface LotRow {
+    lot_number: string
+    status: LotStatus
+    part_number: string
+    order_number: string
+    customer: string | null
+    lot_heat_number: string
+    qty_required: number
+    standard: string
+    drawing_url: string | null
+    photo_url: string | null
+    production: string | null
+}
+
+function toLot(row: LotRow): LotInfo {
+    return {
+        lotNumber: row.lot_number,
+        status: row.status,
+        production: row.production ? JSON.parse(row.production) : undefined,
+        partNumber: row.part_number,
+        orderNumber: row.order_number,
+        customer: row.customer ?? undefined,
+        lotHeatNumber: row.lot_heat_number,
+        qtyRequired: row.qty_required,
+        standard: row.standard,
+        drawingUrl: row.drawing_url ?? undefined,
+        photoUrl: row.photo_url ?? undefined,
+    }
+}
+
+/**
+ * Finds a lot by its (normalized) lot number
+ */
+export function findLot(lotNumber: string): LotInfo | undefined {
+    const row = getDb()
+        .prepare("SELECT * FROM lots WHERE lot_number = ?")
+        .get(lotNumber) as LotRow | undefined
+    return row ? toLot(row) : undefined
+}
+
+/**
+ * Lots in the given status, oldest change first (e.g. the re-inspection queue)
+ */
+export function listLotsByStatus(status: LotStatus): LotInfo[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM lots WHERE status = ? ORDER BY updated_at")
+        .all(status) as LotRow[]
+    return rows.map(toLot)
+}
+
+/**
+ * Inserts or replaces a lot
+ */
+export function saveLot(lot: LotInfo): void {
+    const now = new Date().toISOString()
+    getDb().prepare(`
+        INSERT INTO lots (lot_number, status, part_number, order_number, customer, lot_heat_number,
+                          qty_required, standard, drawing_url, photo_url, production, created_at, updated_at)
+        VALUES (@lotNumber, @status, @partNumber, @orderNumber, @customer, @lotHeatNumber,
+                @qtyRequired, @standard, @drawingUrl, @photoUrl, @production, @now, @now)
+        ON CONFLICT (lot_number) DO UPDATE SET
+            status = excluded.status,
+            part_number = excluded.part_number,
+            order_number = excluded.order_number,
+            customer = excluded.customer,
+            lot_heat_number = excluded.lot_heat_number,
+            qty_required = excluded.qty_required,
+            standard = excluded.standard,
+            drawing_url = excluded.drawing_url,
+            photo_url = excluded.photo_url,
+            production = excluded.production,
+            updated_at = excluded.updated_at
+    `).run({
+        customer: null,
+        drawingUrl: null,
+        photoUrl: null,
+        ...lot,
+        production: lot.production ? JSON.stringify(lot.production) : null,
+        now,
+    })
+}
+
+/**
+ * Moves a lot from `from` to `to` and records the change in the audit trail.
+ * Rules and roles are checked by the caller (see lib/lotLifecycle); this only
+ * guards against the lot having changed status in the meantime.
+ */
+export function transitionLotStatus(
+    lotNumber: string,
+    from: LotStatus,
+    to: LotStatus,
+    actor: Actor,
+    production?: LotProduction
+): LotInfo {
+    const db = getDb()
+
+    return db.transaction(() => {
+        const current = findLot(lotNumber)
+        if (!current || current.status !== from) {
+            throw new Error(`Lot ${lotNumber} is no longer ${from}`)
+        }
+
+        db.prepare(`
+            UPDATE lots SET status = ?, production = COALESCE(?, production), updated_at = ? WHERE lot_number = ?
+        `).run(to, production ? JSON.stringify(production) : null, new Date().toISOString(), lotNumber)
+        appendAuditEntry({
+            actor,
+            action: LOT_ACTION_LABELS[to],
+            lotNumber,
+            before: { status: from, ...(production && { production: current.production ?? null }) },
+            after: { status: to, ...(production && { production }) },
+        })
+
+        return findLot(lotNumber) as LotInfo
+    }).immediate()
+}
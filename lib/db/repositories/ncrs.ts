@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Nonconformance Report (NCR) repository.
+ * NCR numbers are NCR-YY-NNNN, sequential per year. Every status change is kept in the history table.
+ * @module lib/db/repositories/ncrs
+ */
+
+import { getDb } from "@/lib/db/client"
+import type { NcrDisposition, NcrStatus, NcrStatusChange, NonconformanceReport } from "@/lib/data"
+
+interface NcrRow {
+    ncr_number: string
+    lot_number: string
+    part_number: string
+    revision: string
+    lot_heat_number: string
+    customer: string | null
+    findings: string
+    defect_codes: string
+    quantity_affected: number
+    inspector: string
+    description: string | null
+    status: NcrStatus
+    disposition: string | null
+    created_at: string
+    updated_at: string
+}
+
+interface NcrHistoryRow {
+    from_status: NcrStatus | null
+    to_status: NcrStatus
+    changed_by: string
+    note: string | null
+    changed_at: string
+}
+
+function listHistory(ncrNumber: string): NcrStatusChange[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM ncr_status_history WHERE ncr_number = ? ORDER BY id")
+        .all(ncrNumber) as NcrHistoryRow[]
+    return rows.map((row) => ({
+        from: row.from_status,
+        to: row.to_status,
+        changedBy: row.changed_by,
+        note: row.note ?? undefined,
+        changedAt: row.changed_at,
+    }))
+}
+
+function toNcr(row: NcrRow): NonconformanceReport {
+    return {
+        ncrNumber: row.ncr_number,
+        lotNumber: row.lot_number,
+        partNumber: row.part_number,
+        revision: row.revision,
+        lotHeatNumber: row.lot_heat_number,
+        customer: row.customer ?? undefined,
+        findings: JSON.parse(row.findings),
+        defectCodes: JSON.parse(row.defect_codes),
+        quantityAffected: row.quantity_affected,
+        inspector: row.inspector,
+        description: row.description ?? undefined,
+        status: row.status,
+        disposition: row.disposition ? JSON.parse(row.disposition) : undefined,
+        history: listHistory(row.ncr_number),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    }
+}
+
+function appendHistory(ncrNumber: string, change: NcrStatusChange): void {
+    getDb().prepare(`
+        INSERT INTO ncr_status_history (ncr_number, from_status, to_status, changed_by, note, changed_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+    `).run(ncrNumber, change.from, change.to, change.changedBy, change.note ?? null, change.changedAt)
+}
+
+// ==========================================
+// QUERIES
+// ==========================================
+
+export function findNcr(ncrNumber: string): NonconformanceReport | undefined {
+    const row = getDb().prepare("SELECT * FROM ncrs WHERE ncr_number = ?").get(ncrNumber) as NcrRow | undefined
+    return row ? toNcr(row) : undefined
+}
+
+export function listNcrs(): NonconformanceReport[] {
+    const rows = getDb().prepare("SELECT * FROM ncrs ORDER BY id DESC").all() as NcrRow[]
+    return rows.map(toNcr)
+}
+
+export function listNcrsByLot(lotNumber: string): NonconformanceReport[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM ncrs WHERE lot_number = ? ORDER BY id DESC")
+        .all(lotNumber) as NcrRow[]
+    return rows.map(toNcr)
+}
+
+// ==========================================
+// MUTATIONS
+// ==========================================
+
+/**
+ * Opens a new NCR and assigns the next number for the year
+ */
+export function createNcr(
+    draft: Omit<NonconformanceReport, "ncrNumber" | "status" | "history" | "createdAt" | "updatedAt">,
+    createdAt: Date = new Date()
+): NonconformanceReport {
+    const db = getDb()
+    const year = String(createdAt.getFullYear()).slice(-2)
+    const timestamp = createdAt.toISOString()
+
+    return db.transaction(() => {
+        const { count } = db
+            .prepare("SELECT COUNT(*) AS count FROM ncrs WHERE ncr_number LIKE ?")
+            .get(`NCR-${year}-%`) as { count: number }
+        const ncrNumber = `NCR-${year}-${String(count + 1).padStart(4, "0")}`
+
+        db.prepare(`
+            INSERT INTO ncrs (ncr_number, lot_number, part_number, revision, lot_heat_number, customer,
+                              findings, defect_codes, quantity_affected, inspector, description,
+                              status, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)
+        `).run(
+            ncrNumber,
+            draft.lotNumber,
+            draft.partNumber,
+            draft.revision,
+            draft.lotHeatNumber,
+            draft.customer ?? null,
+            JSON.stringify(draft.findings),
+            JSON.stringify(draft.defectCodes),
+            draft.quantityAffected,
+            draft.inspector,
+            draft.description ?? null,
+            timestamp,
+            timestamp
+        )
+        appendHistory(ncrNumber, { from: null, to: "open", changedBy: draft.inspector, changedAt: timestamp })
+
+        return findNcr(ncrNumber) as NonconformanceReport
+    }).immediate()
+}
+
+/**
+ * Moves an NCR to a new status and records the change.
+ * Throws if the NCR is no longer in `from` (changed by someone else meanwhile).
+ */
+export function updateNcrStatus(
+    ncrNumber: string,
+    from: NcrStatus,
+    to: NcrStatus,
+    changedBy: string,
+    note?: string
+): NonconformanceReport {
+    const db = getDb()
+    const changedAt = new Date().toISOString()
+
+    return db.transaction(() => {
+        const { changes } = db
+            .prepare("UPDATE ncrs SET status = ?, updated_at = ? WHERE ncr_number = ? AND status = ?")
+            .run(to, changedAt, ncrNumber, from)
+        if (changes !== 1) {
+            throw new Error(`${ncrNumber} is no longer ${from}`)
+        }
+        appendHistory(ncrNumber, { from, to, changedBy, note, changedAt })
+        return findNcr(ncrNumber) as NonconformanceReport
+    })()
+}
+
+/**
+ * Stores the MRB disposition and moves the NCR to dispositioned.
+ * Throws if the NCR is no longer in `from`.
+ */
+export function recordNcrDisposition(
+    ncrNumber: string,
+    from: NcrStatus,
+    disposition: NcrDisposition
+): NonconformanceReport {
+    const db = getDb()
+
+    return db.transaction(() => {
+        const { changes } = db.prepare(`
+            UPDATE ncrs SET status = 'dispositioned', disposition = ?, updated_at = ?
+            WHERE ncr_number = ? AND status = ?
+        `).run(JSON.stringify(disposition), disposition.decidedAt, ncrNumber, from)
+        if (changes !== 1) {
+            throw new Error(`${ncrNumber} is no longer ${from}`)
+        }
+        appendHistory(ncrNumber, {
+            from,
+            to: "dispositioned",
+            changedBy: disposition.approvedBy,
+            note: disposition.justification,
+            changedAt: disposition.decidedAt,
+        })
+        return findNcr(ncrNumber) as NonconformanceReport
+    })()
+}
@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Part configuration and revision repository.
+ * @module lib/db/repositories/parts
+ */
+
+import { getDb } from "@/lib/db/client"
+import type { PartConfig, PartRevision } from "@/lib/data"
+
+interface PartRow {
+    id: string
+    part_number: string
+    name: string
+    current_revision: string
+    fields: string
+    blueprint_url: string | null
+    photo_urls: string | null
+    certificate_template_key: string | null
+    created_at: string
+    updated_at: string
+}
+
+interface RevisionRow {
+    id: string
+    part_config_id: string
+    revision: string
+    fields: string
+    blueprint_url: string | null
+    change_note: string
+    created_at: string
+    created_by: string
+}
+
+function toPart(row: PartRow): PartConfig {
+    return {
+        id: row.id,
+        partNumber: row.part_number,
+        name: row.name,
+        currentRevision: row.current_revision,
+        fields: JSON.parse(row.fields),
+        blueprintUrl: row.blueprint_url ?? undefined,
+        photoUrls: row.photo_urls ? JSON.parse(row.photo_urls) : undefined,
+        certificateTemplateKey: row.certificate_template_key ?? undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    }
+}
+
+function toRevision(row: RevisionRow): PartRevision {
+    return {
+        id: row.id,
+        partConfigId: row.part_config_id,
+        revision: row.revision,
+        fields: JSON.parse(row.fields),
+        blueprintUrl: row.blueprint_url ?? undefined,
+        changeNote: row.change_note,
+        createdAt: row.created_at,
+        createdBy: row.created_by,
+    }
+}
+
+function partParams(part: PartConfig) {
+    return {
+        ...part,
+        fields: JSON.stringify(part.fields),
+        blueprintUrl: part.blueprintUrl ?? null,
+        photoUrls: part.photoUrls ? JSON.stringify(part.photoUrls) : null,
+        certificateTemplateKey: part.certificateTemplateKey ?? null,
+    }
+}
+
+// ==========================================
+// PARTS
+// ==========================================
+
+export function listParts(): PartConfig[] {
+    const rows = getDb().prepare("SELECT * FROM parts ORDER BY created_at").all() as PartRow[]
+    return rows.map(toPart)
+}
+
+export function findPartById(id: string): PartConfig | undefined {
+    const row = getDb().prepare("SELECT * FROM parts WHERE id = ?").get(id) as PartRow | undefined
+    return row ? toPart(row) : undefined
+}
+
+export function findPartByNumber(partNumber: string): PartConfig | undefined {
+    const row = getDb()
+        .prepare("SELECT * FROM parts WHERE part_number = ? COLLATE NOCASE")
+        .get(partNumber) as PartRow | undefined
+    return row ? toPart(row) : undefined
+}
+
+/**
+ * Inserts a part, or replaces it when `onlyIfNewer` is false or the incoming copy is newer
+ */
+export function savePart(part: PartConfig, onlyIfNewer = false): void {
+    getDb().prepare(`
+        INSERT INTO parts (id, part_number, name, current_revision, fields, blueprint_url,
+                           photo_urls, certificate_template_key, created_at, updated_at)
+        VALUES (@id, @partNumber, @name, @currentRevision, @fields, @blueprintUrl,
+                @photoUrls, @certificateTemplateKey, @createdAt, @updatedAt)
+        ON CONFLICT (id) DO UPDATE SET
+            part_number = excluded.part_number,
+            name = excluded.name,
+            current_revision = excluded.current_revision,
+            fields = excluded.fields,
+            blueprint_url = excluded.blueprint_url,
+            photo_urls = excluded.photo_urls,
+            certificate_template_key = excluded.certificate_template_key,
+            updated_at = excluded.updated_at
+        ${onlyIfNewer ? "WHERE excluded.updated_at > parts.updated_at" : ""}
+    `).run(partParams(part))
+}
+
+/**
+ * Merges partial updates into a stored part and returns the result
+ */
+export function updatePart(id: string, updates: Partial<PartConfig>): PartConfig | undefined {
+    const existing = findPartById(id)
+    if (!existing) return undefined
+
+    const updated: PartConfig = {
+        ...existing,
+        ...updates,
+        id,
+        updatedAt: updates.updatedAt ?? new Date().toISOString(),
+    }
+    savePart(updated)
+    return updated
+}
+
+/**
+ * Deletes a part and (through the foreign key) all of its revisions
+ */
+export function deletePart(id: string): void {
+    getDb().prepare("DELETE FROM parts WHERE id = ?").run(id)
+}
+
+// ==========================================
+// REVISIONS
+// ==========================================
+
+export function listRevisions(): PartRevision[] {
+    const rows = getDb().prepare("SELECT * FROM part_revisions ORDER BY created_at").all() as RevisionRow[]
+    return rows.map(toRevision)
+}
+
+export function listRevisionsByPart(partConfigId: string): PartRevision[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM part_revisions WHERE part_config_id = ? ORDER BY created_at DESC")
+        .all(partConfigId) as RevisionRow[]
+    return rows.map(toRevision)
+}
+
+/**
+ * Published revision the part is currently inspected against (its current revision)
+ */
+export function findActiveRevision(part: PartConfig): PartRevision | undefined {
+    const row = getDb()
+        .prepare("SELECT * FROM part_revisions WHERE part_config_id = ? AND revision = ? ORDER BY created_at DESC LIMIT 1")
+        .get(part.id, part.currentRevision) as RevisionRow | undefined
+    return row ? toRevision(row) : undefined
+}
+
+/**
+ * Inserts a revision; existing revisions are immutable and left untouched
+ */
+export function saveRevision(revision: PartRevision): void {
+    getDb().prepare(`
+        INSERT OR IGNORE INTO part_revisions (id, part_config_id, revision, fields, blueprint_url,
+                                              change_note, created_at, created_by)
+        VALUES (@id, @partConfigId, @revision, @fields, @blueprintUrl,
+                @changeNote, @createdAt, @createdBy)
+    `).run({
+        ...revision,
+        fields: JSON.stringify(revision.fields),
+        blueprintUrl: revision.blueprintUrl ?? null,
+    })
+}
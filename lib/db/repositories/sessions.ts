@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Kiosk session repository.
+ * A session is created when a user signs in with their PIN; its random token is the
+ * only thing the browser holds. Server-only (uses node:crypto).
+ * @module lib/db/repositories/sessions
+ */
+
+import { randomBytes } from "node:crypto"
+import { getDb } from "@/lib/db/client"
+import type { Actor, Role } from "@/lib/data"
+
+interface SessionRow {
+    token: string
+    user_name: string
+    role: Role
+    created_at: string
+    expires_at: string
+}
+
+/**
+ * Signed-in user of an unexpired session
+ */
+export function findSession(token: string, now: Date = new Date()): Actor | undefined {
+    const row = getDb()
+        .prepare("SELECT * FROM sessions WHERE token = ? AND expires_at > ?")
+        .get(token, now.toISOString()) as SessionRow | undefined
+    return row ? { name: row.user_name, role: row.role } : undefined
+}
+
+/**
+ * Opens a session for the user and returns its token. Expired sessions are purged.
+ */
+export function createSession(actor: Actor, expiresAt: Date, now: Date = new Date()): string {
+    const db = getDb()
+    const token = randomBytes(32).toString("hex")
+
+    db.transaction(() => {
+        db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(now.toISOString())
+        db.prepare(`
+            INSERT INTO sessions (token, user_name, role, created_at, expires_at)
+            VALUES (?, ?, ?, ?, ?)
+        `).run(token, actor.name, actor.role, now.toISOString(), expiresAt.toISOString())
+    })()
+    return token
+}
+
+export function deleteSession(token: string): void {
+    getDb().prepare("DELETE FROM sessions WHERE token = ?").run(token)
+}
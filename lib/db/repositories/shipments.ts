@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Partial shipment repository.
+ * @module lib/db/repositories/shipments
+ */
+
+import { getDb } from "@/lib/db/client"
+import type { PartialShipment } from "@/lib/data"
+
+interface ShipmentRow {
+    id: string
+    order_id: string
+    lot_number: string
+    quantity: number
+    timestamp: string
+    inspected_by: string
+}
+
+function toShipment(row: ShipmentRow): PartialShipment {
+    return {
+        id: row.id,
+        orderId: row.order_id,
+        lotNumber: row.lot_number,
+        quantity: row.quantity,
+        timestamp: row.timestamp,
+        inspectedBy: row.inspected_by,
+    }
+}
+
+export function listShipmentsByOrder(orderId: string): PartialShipment[] {
+    const rows = getDb()
+        .prepare("SELECT * FROM partial_shipments WHERE order_id = ? ORDER BY timestamp")
+        .all(orderId) as ShipmentRow[]
+    return rows.map(toShipment)
+}
+
+export function saveShipment(shipment: PartialShipment): void {
+    getDb().prepare(`
+        INSERT INTO partial_shipments (id, order_id, lot_number, quantity, timestamp, inspected_by)
+        VALUES (@id, @orderId, @lotNumber, @quantity, @timestamp, @inspectedBy)
+    `).run(shipment)
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Electronic signature repository.
+ * Signatures are never updated or deleted; each one is also written to the audit trail.
+ * @module lib/db/repositories/signatures
+ */
+
+import { getDb } from "@/lib/db/client"
+import type { ElectronicSignature, Role, SignatureMeaning, SignedRecordType } from "@/lib/data"
+import { SIGNATURE_MEANING_LABELS } from "@/lib/signature"
+import { computeSignedRecordHash } from "@/lib/signatureHash"
+import { appendAuditEntry } from "./audit"
+
+interface SignatureRow {
+    id: number
+    meaning: SignatureMeaning
+    signer_name: string
+    signer_role: Role
+    signed_at: string
+    record_type: SignedRecordType
+    record_id: string
+    record_hash: string
+}
+
+function toSignature(row: SignatureRow): ElectronicSignature {
+    return {
+        id: row.id,
+        meaning: row.meaning,
+        signerName: row.signer_name,
+        signerRole: row.signer_role,
+        signedAt: row.signed_at,
+        recordType: row.record_type,
+        recordId: row.record_id,
+        recordHash: row.record_hash,
+    }
+}
+
+// ==========================================
+// MUTATIONS
+// ==========================================
+
+/**
+ * Signs a record: stores the hash of its content with the signer and meaning.
+ * Call inside the transaction that stores the record.
+ */
+export function signRecord(
+    signature: Pick<ElectronicSignature, "meaning" | "signerName" | "signerRole" | "recordType" | "recordId">,
+    record: unknown,
+    lotNumber?: string,
+    signedAt: Date = new Date()
+): ElectronicSignature {
+    const db = getDb()
+    const recordHash = computeSignedRecordHash(record)
+
+    const result = db.prepare(`
+        INSERT INTO electronic_signatures (meaning, signer_name, signer_role, signed_at, record_type, record_id, record_hash)
+        VALUES (@meaning, @signerName, @signerRole, @signedAt, @recordType, @recordId, @recordHash)
+    `).run({ ...signature, signedAt: signedAt.toISOString(), recordHash })
+
+    appendAuditEntry({
+        actor: { name: signature.signerName, role: signature.signerRole },
+        action: `E-signature: ${SIGNATURE_MEANING_LABELS[signature.meaning]}`,
+        lotNumber,
+        after: { recordType: signature.recordType, recordId: signature.recordId, recordHash },
+    }, signedAt)
+
+    const row = db
+        .prepare("SELECT * FROM electronic_signatures WHERE id = ?")
+        .get(result.lastInsertRowid) as SignatureRow
+    return toSignature(row)
+}
@@ -0,0 +1,270 @@
+/**
+ * @fileoverview SQLite schema migrations.
+ * Each entry is applied once, in order, and tracked through `PRAGMA user_version`.
+ * @module lib/db/schema
+ */
+
+/**
+ * Ordered list of schema migrations. Never edit an applied entry; append a new one.
+ */
+export const MIGRATIONS: string[] = [
+    // 1 - Initial schema
+    `
+    CREATE TABLE lots (
+        lot_number      TEXT PRIMARY KEY,
+        status          TEXT NOT NULL DEFAULT 'open',
+        part_number     TEXT NOT NULL,
+        order_number    TEXT NOT NULL,
+        lot_heat_number TEXT NOT NULL,
+        qty_required    INTEGER NOT NULL,
+        standard        TEXT NOT NULL,
+        drawing_url     TEXT,
+        photo_url       TEXT,
+        created_at      TEXT NOT NULL,
+        updated_at      TEXT NOT NULL
+    );
+
+    CREATE TABLE parts (
+        id               TEXT PRIMARY KEY,
+        part_number      TEXT NOT NULL,
+        name             TEXT NOT NULL,
+        current_revision TEXT NOT NULL,
+        fields           TEXT NOT NULL,
+        blueprint_url    TEXT,
+        photo_urls       TEXT,
+        created_at       TEXT NOT NULL,
+        updated_at       TEXT NOT NULL
+    );
+    CREATE INDEX idx_parts_part_number ON parts (part_number COLLATE NOCASE);
+
+    CREATE TABLE part_revisions (
+        id             TEXT PRIMARY KEY,
+        part_config_id TEXT NOT NULL REFERENCES parts (id) ON DELETE CASCADE,
+        revision       TEXT NOT NULL,
+        fields         TEXT NOT NULL,
+        blueprint_url  TEXT,
+        change_note    TEXT NOT NULL,
+        created_at     TEXT NOT NULL,
+        created_by     TEXT NOT NULL
+    );
+    CREATE INDEX idx_part_revisions_part ON part_revisions (part_config_id);
+
+    CREATE TABLE inspection_values (
+        lot_number  TEXT NOT NULL REFERENCES lots (lot_number),
+        field_id    TEXT NOT NULL,
+        value       TEXT,
+        status      TEXT NOT NULL,
+        recorded_by TEXT NOT NULL,
+        recorded_at TEXT NOT NULL,
+        PRIMARY KEY (lot_number, field_id)
+    );
+
+    CREATE TABLE partial_shipments (
+        id           TEXT PRIMARY KEY,
+        order_id     TEXT NOT NULL,
+        lot_number   TEXT NOT NULL REFERENCES lots (lot_number),
+        quantity     INTEGER NOT NULL,
+        timestamp    TEXT NOT NULL,
+        inspected_by TEXT NOT NULL
+    );
+    CREATE INDEX idx_partial_shipments_order ON partial_shipments (order_id);
+
+    CREATE TABLE audit_log (
+        id         INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp  TEXT NOT NULL,
+        user       TEXT NOT NULL,
+        role       TEXT NOT NULL,
+        action     TEXT NOT NULL,
+        lot_number TEXT
+    );
+    CREATE INDEX idx_audit_log_lot ON audit_log (lot_number);
+    `,
+
+    // 2 - Customer on lots (required for certificates)
+    `
+    ALTER TABLE lots ADD COLUMN customer TEXT;
+    `,
+
+    // 3 - Certificate registry with daily sequences per process prefix
+    `
+    CREATE TABLE certificate_sequences (
+        prefix        TEXT NOT NULL,
+        issue_day     TEXT NOT NULL,
+        last_sequence INTEGER NOT NULL,
+        PRIMARY KEY (prefix, issue_day)
+    );
+
+    CREATE TABLE certificates (
+        cert_number TEXT PRIMARY KEY,
+        prefix      TEXT NOT NULL,
+        issue_day   TEXT NOT NULL,
+        sequence    INTEGER NOT NULL,
+        lot_number  TEXT NOT NULL,
+        inspector   TEXT NOT NULL,
+        issued_at   TEXT NOT NULL,
+        data        TEXT NOT NULL,
+        UNIQUE (prefix, issue_day, sequence)
+    );
+    CREATE INDEX idx_certificates_lot ON certificates (lot_number);
+    `,
+
+    // 4 - Versioned certificate templates and the template used by each part
+    `
+    CREATE TABLE certificate_templates (
+        id           TEXT PRIMARY KEY,
+        template_key TEXT NOT NULL,
+        version      INTEGER NOT NULL,
+        data         TEXT NOT NULL,
+        created_at   TEXT NOT NULL,
+        created_by   TEXT NOT NULL,
+        UNIQUE (template_key, version)
+    );
+
+    ALTER TABLE parts ADD COLUMN certificate_template_key TEXT;
+    `,
+
+    // 5 - Completed inspection records (source for workbook exports)
+    `
+    CREATE TABLE inspection_records (
+        id              INTEGER PRIMARY KEY AUTOINCREMENT,
+        lot_number      TEXT NOT NULL,
+        lot_heat_number TEXT NOT NULL,
+        part_number     TEXT NOT NULL,
+        revision        TEXT NOT NULL,
+        readings        TEXT NOT NULL,
+        finish_qty      INTEGER NOT NULL,
+        scrap_qty       INTEGER NOT NULL,
+        defect_code     TEXT,
+        inspector       TEXT NOT NULL,
+        verdict         TEXT NOT NULL,
+        recorded_at     TEXT NOT NULL
+    );
+    CREATE INDEX idx_inspection_records_lot ON inspection_records (lot_number);
+    CREATE INDEX idx_inspection_records_recorded_at ON inspection_records (recorded_at);
+    `,
+
+    // 6 - Nonconformance reports and their status history
+    `
+    CREATE TABLE ncrs (
+        id                INTEGER PRIMARY KEY AUTOINCREMENT,
+        ncr_number        TEXT NOT NULL UNIQUE,
+        lot_number        TEXT NOT NULL,
+        part_number       TEXT NOT NULL,
+        revision          TEXT NOT NULL,
+        lot_heat_number   TEXT NOT NULL,
+        customer          TEXT,
+        findings          TEXT NOT NULL,
+        defect_codes      TEXT NOT NULL,
+        quantity_affected INTEGER NOT NULL,
+        inspector         TEXT NOT NULL,
+        description       TEXT,
+        status            TEXT NOT NULL,
+        created_at        TEXT NOT NULL,
+        updated_at        TEXT NOT NULL
+    );
+    CREATE INDEX idx_ncrs_lot ON ncrs (lot_number);
+    CREATE INDEX idx_ncrs_status ON ncrs (status);
+
+    CREATE TABLE ncr_status_history (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        ncr_number  TEXT NOT NULL REFERENCES ncrs (ncr_number),
+        from_status TEXT,
+        to_status   TEXT NOT NULL,
+        changed_by  TEXT NOT NULL,
+        note        TEXT,
+        changed_at  TEXT NOT NULL
+    );
+    CREATE INDEX idx_ncr_status_history_ncr ON ncr_status_history (ncr_number);
+    `,
+
+    // 7 - MRB disposition on NCRs
+    `
+    ALTER TABLE ncrs ADD COLUMN disposition TEXT;
+    `,
+
+    // 8 - Inspection attempt number per lot (re-inspection after rework)
+    `
+    ALTER TABLE inspection_records ADD COLUMN attempt INTEGER NOT NULL DEFAULT 1;
+    UPDATE inspection_records SET attempt = (
+        SELECT COUNT(*) FROM inspection_records AS previous
+        WHERE previous.lot_number = inspection_records.lot_number AND previous.id <= inspection_records.id
+    );
+    `,
+
+    // 9 - Corrective and preventive actions (8D)
+    `
+    CREATE TABLE capas (
+        id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+        capa_number         TEXT NOT NULL UNIQUE,
+        title               TEXT NOT NULL,
+        source              TEXT NOT NULL,
+        ncr_number          TEXT,
+        defect_code         TEXT,
+        part_number         TEXT,
+        status              TEXT NOT NULL,
+        team                TEXT NOT NULL,
+        problem_description TEXT NOT NULL,
+        containment         TEXT NOT NULL,
+        root_cause          TEXT NOT NULL,
+        actions             TEXT NOT NULL,
+        preventive_actions  TEXT NOT NULL,
+        verification        TEXT,
+        created_by          TEXT NOT NULL,
+        created_at          TEXT NOT NULL,
+        updated_at          TEXT NOT NULL
+    );
+    CREATE INDEX idx_capas_ncr ON capas (ncr_number);
+    CREATE INDEX idx_capas_defect ON capas (defect_code);
+    `,
+
+    // 10 - Lot lifecycle states, operator production report and audit trail
+    `
+    UPDATE lots SET status = 'scanned' WHERE status = 'open';
+    UPDATE lots SET status = 'reworked' WHERE status = 'rework';
+    UPDATE lots SET status = 'on_hold'
+        WHERE status = 'rejected'
+        AND lot_number IN (SELECT lot_number FROM ncrs WHERE status = 'under_review');
+    ALTER TABLE lots ADD COLUMN production TEXT;
+
+    ALTER TABLE audit_log ADD COLUMN before TEXT;
+    ALTER TABLE audit_log ADD COLUMN after TEXT;
+    CREATE INDEX idx_audit_log_timestamp ON audit_log (timestamp);
+    `,
+
+    // 11 - Hash chain for the audit trail (existing entries stay unsealed)
+    `
+    ALTER TABLE audit_log ADD COLUMN prev_hash TEXT;
+    ALTER TABLE audit_log ADD COLUMN hash TEXT;
+    `,
+
+    // 12 - Electronic signatures on releases, rejections, MRB dispositions and revisions
+    `
+    CREATE TABLE electronic_signatures (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        meaning     TEXT NOT NULL,
+        signer_name TEXT NOT NULL,
+        signer_role TEXT NOT NULL,
+        signed_at   TEXT NOT NULL,
+        record_type TEXT NOT NULL,
+        record_id   TEXT NOT NULL,
+        record_hash TEXT NOT NULL
+    );
+    CREATE INDEX idx_electronic_signatures_record ON electronic_signatures (record_type, record_id);
+    `,
+
+    // 13 - Piece readings of characteristics inspected with a sampling plan
+    `
+    ALTER TABLE inspection_values ADD COLUMN samples TEXT;
+    `,
+
+    // 14 - Signed-in kiosk sessions (the server-side identity behind every action)
+    `
+    CREATE TABLE sessions (
+        token      TEXT PRIMARY KEY,
+        user_name  TEXT NOT NULL,
+        role       TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+    );
+    `,
+]
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview First-run seed for the SQLite database.
+ * Loads the demo lots, parts, revisions and certificate templates into a newly created database.
+ * @module lib/db/seed
+ */
+
+import type Database from "better-sqlite3"
+import {
+    INITIAL_CERTIFICATE_TEMPLATES,
+    INITIAL_LOTS,
+    INITIAL_PART_CONFIGS,
+    INITIAL_REVISIONS,
+} from "@/lib/data"
+
+/**
+ * Seeds demo data. Called once, right after the migrations create the database
+ * (`user_version` was 0); tables are still checked so a partial seed is never duplicated.
+ */
+export function seedDatabase(db: Database.Database): void {
+    const now = new Date().toISOString()
+
+    const lotCount = db.prepare("SELECT COUNT(*) AS count FROM lots").get() as { count: number }
+    if (lotCount.count === 0) {
+        const insertLot = db.prepare(`
+            INSERT INTO lots (lot_number, status, part_number, order_number, customer, lot_heat_number,
+                              qty_required, standard, drawing_url, photo_url, created_at, updated_at)
+            VALUES (@lotNumber, @status, @partNumber, @orderNumber, @customer, @lotHeatNumber,
+                    @qtyRequired, @standard, @drawingUrl, @photoUrl, @now, @now)
+        `)
+        db.transaction(() => {
+            for (const lot of INITIAL_LOTS) {
+                insertLot.run({ customer: null, drawingUrl: null, photoUrl: null, ...lot, now })
+            }
+        })()
+    }
+
+    const partCount = db.prepare("SELECT COUNT(*) AS count FROM parts").get() as { count: number }
+    if (partCount.count === 0) {
+        const insertPart = db.prepare(`
+            INSERT INTO parts (id, part_number, name, current_revision, fields, blueprint_url,
+                               photo_urls, certificate_template_key, created_at, updated_at)
+            VALUES (@id, @partNumber, @name, @currentRevision, @fields, @blueprintUrl,
+                    @photoUrls, @certificateTemplateKey, @createdAt, @updatedAt)
+        `)
+        const insertRevision = db.prepare(`
+            INSERT INTO part_revisions (id, part_config_id, revision, fields, blueprint_url,
+                                        change_note, created_at, created_by)
+            VALUES (@id, @partConfigId, @revision, @fields, @blueprintUrl,
+                    @changeNote, @createdAt, @createdBy)
+        `)
+        db.transaction(() => {
+            for (const part of INITIAL_PART_CONFIGS) {
+                insertPart.run({
+                    ...part,
+                    fields: JSON.stringify(part.fields),
+                    blueprintUrl: part.blueprintUrl ?? null,
+                    photoUrls: part.photoUrls ? JSON.stringify(part.photoUrls) : null,
+                    certificateTemplateKey: part.certificateTemplateKey ?? null,
+                })
+            }
+            for (const revision of INITIAL_REVISIONS) {
+                insertRevision.run({
+                    ...revision,
+                    fields: JSON.stringify(revision.fields),
+                    blueprintUrl: revision.blueprintUrl ?? null,
+                })
+            }
+        })()
+    }
+
+    const templateCount = db.prepare("SELECT COUNT(*) AS count FROM certificate_templates").get() as { count: number }
+    if (templateCount.count === 0) {
+        const insertTemplate = db.prepare(`
+            INSERT INTO certificate_templates (id, template_key, version, data, created_at, created_by)
+            VALUES (@id, @key, @version, @data, @createdAt, @createdBy)
+        `)
+        db.transaction(() => {
+            for (const template of INITIAL_CERTIFICATE_TEMPLATES) {
+                insertTemplate.run({ ...template, data: JSON.stringify(template) })
+            }
+        })()
+    }
+}
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Inspection records workbook (.xlsx) generator.
+ * Reproduces the plant's manual inspection workbook: one sheet per part number,
+ * one row per inspected lot and one column per characteristic.
+ * Server-only (runs inside the export route).
+ * @module lib/excel/InspectionWorkbook
+ */
+
+import ExcelJS from "exceljs"
+import { format } from "date-fns"
+import type { InspectionReading, InspectionRecord } from "@/lib/data"
+
+// ==========================================
+// COLUMNS
+// ==========================================
+
+/** Columns before the characteristic readings */
+const LEADING_COLUMNS = [
+    { header: "Date", width: 18 },
+    { header: "Lot", width: 14 },
+    { header: "Heat Number", width: 16 },
+    { header: "Part Number", width: 14 },
+    { header: "Revision", width: 10 },
+]
+
+/** Columns after the characteristic readings */
+const TRAILING_COLUMNS = [
+    { header: "Finish Qty", width: 11 },
+    { header: "Scrap Qty", width: 11 },
+    { header: "Defect Code", width: 12 },
+    { header: "Inspector", width: 20 },
+    { header: "Attempt", width: 9 },
+    { header: "Verdict", width: 12 },
+]
+
+const HEADER_FILL: ExcelJS.Fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF003399" } }
+const FAIL_FILL: ExcelJS.Fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFFFC7CE" } }
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+function toCellValue(reading: InspectionReading | undefined): string | number | null {
+    if (!reading || reading.value === null || reading.value === "") return null
+    if (typeof reading.value === "boolean") return reading.value ? "PASS" : "FAIL"
+    return reading.value
+}
+
+interface Characteristic {
+    name: string
+    unit?: string
+}
+
+/**
+ * Characteristics in order of first appearance (revisions may add fields).
+ * A field whose unit changed between revisions gets one column per unit,
+ * so a column never mixes inches and millimetres.
+ */
+function collectCharacteristics(records: InspectionRecord[]): Characteristic[] {
+    const characteristics: Characteristic[] = []
+    for (const record of records) {
+        for (const reading of record.readings) {
+            if (!characteristics.some((c) => matchesCharacteristic(c, reading))) {
+                characteristics.push({ name: reading.name, unit: reading.unit })
+            }
+        }
+    }
+    return characteristics
+}
+
+function matchesCharacteristic(characteristic: Characteristic, reading: InspectionReading): boolean {
+    return characteristic.name === reading.name && characteristic.unit === reading.unit
+}
+
+/**
+ * Excel sheet names are limited to 31 characters, cannot contain []:*?/\ and must be
+ * unique regardless of case; truncated names that collide get a " (2)", " (3)"... suffix
+ */
+function toSheetName(partNumber: string, taken: Set<string>): string {
+    const base = partNumber.replace(/[[\]:*?/\\]/g, "-") || "Sheet"
+    let name = base.slice(0, 31)
+    for (let copy = 2; taken.has(name.toLowerCase()); copy++) {
+        const suffix = ` (${copy})`
+        name = base.slice(0, 31 - suffix.length) + suffix
+    }
+    taken.add(name.toLowerCase())
+    return name
+}
+
+function addPartSheet(workbook: ExcelJS.Workbook, sheetName: string, records: InspectionRecord[]): void {
+    const sheet = workbook.addWorksheet(sheetName, {
+        views: [{ state: "frozen", ySplit: 1 }],
+    })
+    const characteristics = collectCharacteristics(records)
+
+    sheet.columns = [
+        ...LEADING_COLUMNS,
+        ...characteristics.map(({ name, unit }) => {
+            const header = unit ? `${name} (${unit})` : name
+            return { header, width: Math.max(12, header.length + 2) }
+        }),
+        ...TRAILING_COLUMNS,
+    ]
+
+    const headerRow = sheet.getRow(1)
+    headerRow.font = { bold: true, color: { argb: "FFFFFFFF" } }
+    headerRow.fill = HEADER_FILL
+    headerRow.alignment = { vertical: "middle", horizontal: "center", wrapText: true }
+
+    for (const record of records) {
+        const readings = characteristics.map((c) => record.readings.find((r) => matchesCharacteristic(c, r)))
+        const row = sheet.addRow([
+            format(new Date(record.recordedAt), "yyyy-MM-dd HH:mm"),
+            record.lotNumber,
+            record.lotHeatNumber,
+            record.partNumber,
+            record.revision,
+            ...readings.map(toCellValue),
+            record.finishQty,
+            record.scrapQty,
+            record.defectCode ?? "",
+            record.inspector,
+            record.attempt,
+            record.verdict.toUpperCase(),
+        ])
+
+        // Highlight failed readings like the manual workbook does
+        readings.forEach((reading, index) => {
+            if (reading?.status === "fail") {
+                row.getCell(LEADING_COLUMNS.length + index + 1).fill = FAIL_FILL
+            }
+        })
+    }
+}
+
+// ==========================================
+// GENERATOR
+// ==========================================
+
+/**
+ * Builds the inspection workbook and returns it as an .xlsx buffer
+ */
+export async function buildInspectionWorkbook(records: InspectionRecord[]): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook()
+    workbook.creator = "RBC Quality Control"
+    workbook.created = new Date()
+
+    const byPart = new Map<string, InspectionRecord[]>()
+    for (const record of records) {
+        byPart.set(record.partNumber, [...(byPart.get(record.partNumber) ?? []), record])
+    }
+
+    const sheetNames = new Set<string>()
+    if (byPart.size === 0) {
+        addPartSheet(workbook, toSheetName("Inspections", sheetNames), [])
+    }
+    for (const [partNumber, partRecords] of byPart) {
+        addPartSheet(workbook, toSheetName(partNumber, sheetNames), partRecords)
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer())
+}
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Inspection evaluation helpers shared by the inspector and operator views.
+ * @module lib/inspection
+ */
+
+import type {
+    CertificateRecord,
+    ElectronicSignature,
+    FieldDefinition,
+    InspectionReading,
+    InspectionRecord,
+    InspectionValue,
+    LotInfo,
+    NonconformanceReport,
+} from "@/lib/data"
+import { evaluateSamples, getFieldSamplingPlan } from "@/lib/sampling"
+import { describeNumericTolerance, isWithinTolerance } from "@/lib/tolerance"
+import { formatFieldNumber, withFieldUnit } from "@/lib/units"
+
+/**
+ * Aggregated result of an inspection against its field definitions
+ */
+export interface InspectionSummary {
+    passCount: number
+    failCount: number
+    /** Every required field has a reading */
+    allInspected: boolean
+    /** All required fields read and nothing failed */
+    allPass: boolean
+    hasFailures: boolean
+}
+
+/**
+ * Result of recording in-progress readings; holds every reading now on record for the lot
+ */
+export type InspectionValuesOutcome =
+    | { success: true; values: InspectionValue[] }
+    | { success: false; error: string }
+
+/**
+ * Result of recording a signed inspection verdict; a release carries the certificate it
+ * issued and a rejection the NCR it opened
+ */
+export type InspectionResultOutcome =
+    | {
+        success: true
+        record: InspectionRecord
+        lot: LotInfo
+        signature: ElectronicSignature
+        certificate?: CertificateRecord
+        ncr?: NonconformanceReport
+    }
+    | { success: false; error: string }
+
+/**
+ * Finds the recorded value for a field, if any
+ */
+export function getFieldValue(values: InspectionValue[], fieldId: string): InspectionValue | undefined {
+    return values.find(v => v.fieldId === fieldId)
+}
+
+/**
+ * Summarizes inspection values against the fields being inspected
+ */
+export function summarizeInspection(fields: FieldDefinition[], values: InspectionValue[]): InspectionSummary {
+    const fieldValues = fields.map(field => getFieldValue(values, field.id))
+    const passCount = fieldValues.filter(v => v?.status === "pass").length
+    const failCount = fieldValues.filter(v => v?.status === "fail").length
+    const allInspected = fields.length > 0 && fields.every((field, index) =>
+        !field.required || (fieldValues[index]?.status ?? "pending") !== "pending"
+    )
+    const hasFailures = failCount > 0
+
+    return {
+        passCount,
+        failCount,
+        allInspected,
+        allPass: allInspected && !hasFailures,
+        hasFailures,
+    }
+}
+
+/**
+ * Reading re-evaluated against its field: the status (and a sampled field's mean) is
+ * recomputed from the value or pieces, so the server never relies on a client-sent status.
+ * Sampled fields are decided by the plan's Ac/Re for the lot size.
+ */
+export function evaluateInspectionValue(field: FieldDefinition, value: InspectionValue, lotSize: number): InspectionValue {
+    const plan = getFieldSamplingPlan(field, lotSize)
+    if (plan) {
+        const { status, mean } = evaluateSamples(field, value.samples ?? [], plan)
+        return { ...value, value: mean, status }
+    }
+
+    const reading = value.value
+    let status: InspectionValue["status"] = "pending"
+    if (field.type === "numeric" && typeof reading === "number") {
+        status = isWithinTolerance(field, reading) ? "pass" : "fail"
+    } else if (field.type === "boolean" && typeof reading === "boolean") {
+        status = reading ? "pass" : "fail"
+    } else if (field.type === "select" && typeof reading === "string" && reading !== "") {
+        status = "pass"
+    }
+    return { ...value, status }
+}
+
+/**
+ * Recorded values of the fields, re-evaluated with evaluateInspectionValue
+ */
+export function evaluateInspectionValues(
+    fields: FieldDefinition[],
+    values: InspectionValue[],
+    lotSize: number
+): InspectionValue[] {
+    return fields.flatMap(field => {
+        const value = getFieldValue(values, field.id)
+        return value ? [evaluateInspectionValue(field, value, lotSize)] : []
+    })
+}
+
+/**
+ * Pairs each field with its reading for storage in an inspection record
+ */
+export function toInspectionReadings(fields: FieldDefinition[], values: InspectionValue[]): InspectionReading[] {
+    return fields.map(field => {
+        const value = getFieldValue(values, field.id)
+        return {
+            fieldId: field.id,
+            name: field.name,
+            value: value?.value ?? null,
+            status: value?.status ?? "pending",
+            ...(value?.samples && { samples: value.samples }),
+            ...(field.type === "numeric" && field.unit && { unit: field.unit }),
+        }
+    })
+}
+
+/**
+ * Printable tolerance of a field ("0.47 - 0.53", "0.5 ± 0.003", "Flatness Max 0.002",
+ * options for selects)
+ */
+export function formatTolerance(field: FieldDefinition): string {
+    if (field.type === "boolean") return "Visual"
+    if (field.type === "select") return field.options?.join(" / ") || "N/A"
+    return describeNumericTolerance(field) ?? "N/A"
+}
+
+/**
+ * Printable reading of a field in its specified unit; sampled fields print the piece
+ * range ("0.490 - 0.520 in (n=5, 0 NC)")
+ */
+export function formatReading(
+    field: FieldDefinition,
+    reading: Pick<InspectionValue, "value" | "samples"> | undefined
+): string {
+    const value = reading?.value
+    if (value === null || value === undefined || value === "") return "N/A"
+    if (field.type === "boolean") return value === true ? "Conforming" : "Nonconforming"
+
+    const pieces = reading?.samples?.filter((sample): sample is number => sample !== null) ?? []
+    if (pieces.length > 0) {
+        const nonconforming = pieces.filter((piece) => !isWithinTolerance(field, piece)).length
+        const range = `${formatFieldNumber(field, Math.min(...pieces))} - ${formatFieldNumber(field, Math.max(...pieces))}`
+        return `${withFieldUnit(field, range)} (n=${pieces.length}, ${nonconforming} NC)`
+    }
+    return typeof value === "number" ? withFieldUnit(field, formatFieldNumber(field, value)) : String(value)
+}
@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Manager dashboard KPIs computed from inspection records and lot releases.
+ * Shared by the server (computation) and the UI (filters and formatting).
+ * @module lib/kpi
+ */
+
+import { differenceInSeconds, eachDayOfInterval, format, parse, parseISO } from "date-fns"
+import type { InspectionRecord } from "@/lib/data"
+
+// ==========================================
+// SHIFTS
+// ==========================================
+
+export type Shift = "first" | "second" | "third"
+
+/**
+ * Plant shifts by local hour; the third shift runs past midnight
+ */
+export const SHIFTS: { value: Shift; label: string }[] = [
+    { value: "first", label: "1st Shift (06-14)" },
+    { value: "second", label: "2nd Shift (14-22)" },
+    { value: "third", label: "3rd Shift (22-06)" },
+]
+
+export function getShift(date: Date): Shift {
+    const hour = date.getHours()
+    if (hour >= 6 && hour < 14) return "first"
+    if (hour >= 14 && hour < 22) return "second"
+    return "third"
+}
+
+// ==========================================
+// TYPES
+// ==========================================
+
+/**
+ * Dashboard filters. Dates are yyyy-MM-dd and inclusive.
+ */
+export interface KpiFilter {
+    from: string
+    to: string
+    shift?: Shift
+    partNumber?: string
+}
+
+/**
+ * Lot release with the first scan that started its cycle
+ */
+export interface LotRelease {
+    lotNumber: string
+    partNumber: string
+    releasedAt: string
+    scannedAt: string | null
+}
+
+export interface DailyKpi {
+    date: string
+    released: number
+    firstAttempts: number
+    firstPassed: number
+    /** First pass yield in percent, null without first inspections that day */
+    fpy: number | null
+}
+
+export interface KpiReport {
+    lotsReleased: number
+    /** Average scan-to-release time in seconds, null without scanned releases */
+    avgCycleSeconds: number | null
+    /** First pass yield in percent over the range */
+    firstPassYield: number | null
+    firstAttempts: number
+    /** Defect code occurrences, most frequent first */
+    topDefects: { code: string; count: number }[]
+    daily: DailyKpi[]
+    /** Part numbers with activity in the range, for the part filter */
+    partNumbers: string[]
+}
+
+/**
+ * Pareto bar: a defect code with its running share of all defects
+ */
+export interface ParetoBar {
+    code: string
+    count: number
+    /** Share of all defects up to and including this code, in percent */
+    cumulativePercent: number
+}
+
+/**
+ * Inspection that recorded a defect code
+ */
+export interface DefectOccurrence {
+    recordId: number
+    lotNumber: string
+    partNumber: string
+    /** Operator who reported the lot's production */
+    operator: string
+    inspector: string
+    shift: Shift
+    attempt: number
+    recordedAt: string
+}
+
+export interface DefectBreakdown {
+    key: string
+    count: number
+}
+
+/**
+ * Lots, parts, operators and shifts behind one defect code
+ */
+export interface DefectDrillDown {
+    code: string
+    occurrences: DefectOccurrence[]
+    byPart: DefectBreakdown[]
+    byOperator: DefectBreakdown[]
+    byShift: DefectBreakdown[]
+}
+
+/** Drill-down label of lots without a production report */
+export const UNREPORTED_OPERATOR = "Not reported"
+
+/** Manual paper-based release time the kiosk replaced, in minutes */
+export const MANUAL_CYCLE_MINUTES = 40
+
+export const FPY_TARGET = 95
+
+// ==========================================
+// COMPUTATION
+// ==========================================
+
+function matchesFilter(timestamp: string, partNumber: string, filter: KpiFilter): boolean {
+    if (filter.partNumber && partNumber !== filter.partNumber) return false
+    return !filter.shift || getShift(parseISO(timestamp)) === filter.shift
+}
+
+function percent(part: number, total: number): number | null {
+    return total > 0 ? (part / total) * 100 : null
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string): DefectBreakdown[] {
+    const counts = new Map<string, number>()
+    for (const item of items) {
+        const key = keyOf(item)
+        counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+    return [...counts.entries()]
+        .map(([key, count]) => ({ key, count }))
+        .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+}
+
+/**
+ * Computes the KPIs for the records and releases of the filter's date range
+ */
+export function buildKpiReport(records: InspectionRecord[], releases: LotRelease[], filter: KpiFilter): KpiReport {
+    const partNumbers = [...new Set([...records.map((r) => r.partNumber), ...releases.map((r) => r.partNumber)])].sort()
+    const filteredRecords = records.filter((r) => matchesFilter(r.recordedAt, r.partNumber, filter))
+    const filteredReleases = releases.filter((r) => matchesFilter(r.releasedAt, r.partNumber, filter))
+
+    const days = eachDayOfInterval({
+        start: parse(filter.from, "yyyy-MM-dd", new Date()),
+        end: parse(filter.to, "yyyy-MM-dd", new Date()),
+    })
+    const daily = new Map<string, DailyKpi>(
+        days.map((day) => {
+            const date = format(day, "yyyy-MM-dd")
+            return [date, { date, released: 0, firstAttempts: 0, firstPassed: 0, fpy: null }]
+        })
+    )
+    const dayOf = (timestamp: string) => daily.get(format(parseISO(timestamp), "yyyy-MM-dd"))
+
+    const defectCounts = new Map<string, number>()
+    for (const record of filteredRecords) {
+        if (record.defectCode) {
+            defectCounts.set(record.defectCode, (defectCounts.get(record.defectCode) ?? 0) + 1)
+        }
+        const day = dayOf(record.recordedAt)
+        if (record.attempt === 1 && day) {
+            day.firstAttempts++
+            if (record.verdict === "released") day.firstPassed++
+        }
+    }
+
+    const cycleTimes: number[] = []
+    for (const release of filteredReleases) {
+        const day = dayOf(release.releasedAt)
+        if (day) day.released++
+        if (release.scannedAt) {
+            cycleTimes.push(differenceInSeconds(parseISO(release.releasedAt), parseISO(release.scannedAt)))
+        }
+    }
+
+    const dailyKpis = [...daily.values()].map((day) => ({ ...day, fpy: percent(day.firstPassed, day.firstAttempts) }))
+    const firstAttempts = dailyKpis.reduce((sum, day) => sum + day.firstAttempts, 0)
+    const firstPassed = dailyKpis.reduce((sum, day) => sum + day.firstPassed, 0)
+
+    return {
+        lotsReleased: filteredReleases.length,
+        avgCycleSeconds: cycleTimes.length > 0
+            ? cycleTimes.reduce((sum, seconds) => sum + seconds, 0) / cycleTimes.length
+            : null,
+        firstPassYield: percent(firstPassed, firstAttempts),
+        firstAttempts,
+        topDefects: [...defectCounts.entries()]
+            .map(([code, count]) => ({ code, count }))
+            .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code)),
+        daily: dailyKpis,
+        partNumbers,
+    }
+}
+
+/**
+ * Adds the cumulative percentage line to defect counts sorted most frequent first
+ */
+export function buildPareto(defects: { code: string; count: number }[]): ParetoBar[] {
+    const total = defects.reduce((sum, defect) => sum + defect.count, 0)
+    let running = 0
+    return defects.map((defect) => {
+        running += defect.count
+        return { ...defect, cumulativePercent: (running / total) * 100 }
+    })
+}
+
+/**
+ * Inspections behind one defect code in the filter's range, newest first.
+ * `operators` maps lot numbers to the operator who reported their production.
+ */
+export function buildDefectDrillDown(
+    records: InspectionRecord[],
+    operators: Map<string, string>,
+    code: string,
+    filter: KpiFilter
+): DefectDrillDown {
+    const occurrences: DefectOccurrence[] = records
+        .filter((r) => r.defectCode === code && matchesFilter(r.recordedAt, r.partNumber, filter))
+        .map((r) => ({
+            recordId: r.id,
+            lotNumber: r.lotNumber,
+            partNumber: r.partNumber,
+            operator: operators.get(r.lotNumber) ?? UNREPORTED_OPERATOR,
+            inspector: r.inspector,
+            shift: getShift(parseISO(r.recordedAt)),
+            attempt: r.attempt,
+            recordedAt: r.recordedAt,
+        }))
+        .reverse()
+
+    return {
+        code,
+        occurrences,
+        byPart: countBy(occurrences, (o) => o.partNumber),
+        byOperator: countBy(occurrences, (o) => o.operator),
+        byShift: countBy(occurrences, (o) => o.shift),
+    }
+}
+
+// ==========================================
+// FORMATTING
+// ==========================================
+
+/**
+ * Formats a duration as "4m 52s" (or "1h 05m" past an hour)
+ */
+export function formatCycleTime(seconds: number): string {
+    const total = Math.round(seconds)
+    const hours = Math.floor(total / 3600)
+    const minutes = Math.floor((total % 3600) / 60)
+    if (hours > 0) return `${hours}h ${String(minutes).padStart(2, "0")}m`
+    return `${minutes}m ${String(total % 60).padStart(2, "0")}s`
+}
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Lot lifecycle state machine shared by the server and the UI.
+ * Scanned -> Production Reported -> In Inspection -> Released / Rejected
+ * -> On Hold / Reworked -> Shipped, with the roles allowed to make each move.
+ * @module lib/lotLifecycle
+ */
+
+import type { LotInfo, LotStatus, Role } from "@/lib/data"
+
+// ==========================================
+// STATES
+// ==========================================
+
+export const LOT_STATUS_LABELS: Record<LotStatus, string> = {
+    scanned: "Scanned",
+    production_reported: "Production Reported",
+    in_inspection: "In Inspection",
+    released: "Released",
+    rejected: "Rejected",
+    on_hold: "On Hold",
+    reworked: "Reworked",
+    shipped: "Shipped",
+    scrapped: "Scrapped",
+    returned_to_supplier: "Returned to Supplier",
+}
+
+/**
+ * Audit trail action recorded when a lot enters each status
+ */
+export const LOT_ACTION_LABELS: Record<LotStatus, string> = {
+    scanned: "Lot registered",
+    production_reported: "Production reported",
+    in_inspection: "Inspection started",
+    released: "Lot released",
+    rejected: "Lot rejected",
+    on_hold: "Lot placed on hold for MRB",
+    reworked: "Lot sent to rework",
+    shipped: "Lot shipped",
+    scrapped: "Lot scrapped",
+    returned_to_supplier: "Lot returned to supplier",
+}
+
+/**
+ * Audit trail action recorded when a kiosk scans a lot (start of the cycle time)
+ */
+export const LOT_SCAN_ACTION = "Lot scanned"
+
+// ==========================================
+// TRANSITIONS
+// ==========================================
+
+/**
+ * Allowed moves from each status. The operator may correct the production
+ * report until inspection starts; a reworked lot goes back to inspection.
+ */
+export const LOT_TRANSITIONS: Record<LotStatus, LotStatus[]> = {
+    scanned: ["production_reported"],
+    production_reported: ["production_reported", "in_inspection"],
+    in_inspection: ["released", "rejected"],
+    rejected: ["on_hold"],
+    on_hold: ["released", "reworked", "scrapped", "returned_to_supplier"],
+    reworked: ["in_inspection"],
+    released: ["shipped"],
+    shipped: [],
+    scrapped: [],
+    returned_to_supplier: [],
+}
+
+/**
+ * Roles allowed to move a lot into each status
+ */
+export const LOT_STATUS_ROLES: Record<LotStatus, Role[]> = {
+    scanned: [],
+    production_reported: ["operator"],
+    in_inspection: ["inspector"],
+    released: ["inspector", "manager", "admin_engineer"],
+    rejected: ["inspector"],
+    on_hold: ["manager", "admin_engineer"],
+    reworked: ["manager", "admin_engineer"],
+    shipped: ["inspector", "manager"],
+    scrapped: ["manager", "admin_engineer"],
+    returned_to_supplier: ["manager", "admin_engineer"],
+}
+
+/**
+ * Statuses a lot only enters through an e-signed record: the inspection verdict
+ * (released, rejected) or the MRB disposition (released, reworked, scrapped, returned)
+ */
+export const SIGNED_LOT_STATUSES: LotStatus[] = ["released", "rejected", "reworked", "scrapped", "returned_to_supplier"]
+
+export function canTransitionLot(from: LotStatus, to: LotStatus): boolean {
+    return LOT_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Reason the role cannot move a lot from one status to another, if any
+ */
+export function getLotTransitionError(from: LotStatus, to: LotStatus, role: Role): string | undefined {
+    if (!canTransitionLot(from, to)) {
+        return `Lot is ${LOT_STATUS_LABELS[from]} and cannot move to ${LOT_STATUS_LABELS[to]}`
+    }
+    if (!LOT_STATUS_ROLES[to].includes(role)) {
+        return `Role ${role} cannot move a lot to ${LOT_STATUS_LABELS[to]}`
+    }
+    return undefined
+}
+
+/**
+ * Statuses in which the inspector can no longer record readings
+ */
+export function isLotInspectionClosed(status: LotStatus): boolean {
+    return status !== "in_inspection"
+}
+
+/**
+ * Result of a lot transition
+ */
+export type LotTransitionResult =
+    | { success: true; lot: LotInfo }
+    | { success: false; error: string }
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Lot number helpers shared by the kiosk and the lot lookup API.
+ * @module lib/lots
+ */
+
+import type { LotInfo } from "@/lib/data"
+import { VALID_LOT_PREFIXES } from "@/lib/data"
+
+// ==========================================
+// TYPES
+// ==========================================
+
+/**
+ * Error codes returned by the lot lookup API
+ */
+export type LotErrorCode = "INVALID_FORMAT" | "LOT_NOT_FOUND" | "LOT_RELEASED" | "LOT_SHIPPED" | "LOT_CLOSED" | "NETWORK_ERROR"
+
+/**
+ * Response body of `GET /api/lots/:lotNumber`
+ */
+export type LotLookupResponse =
+    | { lot: LotInfo }
+    | { error: { code: LotErrorCode; message: string } }
+
+/**
+ * Result of scanning a lot from the kiosk
+ */
+export interface ScanLotResult {
+    success: boolean
+    error?: string
+    code?: LotErrorCode
+}
+
+/**
+ * User-facing messages for each lot error code
+ */
+export const LOT_ERROR_MESSAGES: Record<LotErrorCode, string> = {
+    INVALID_FORMAT: "Formato de Lote Inválido",
+    LOT_NOT_FOUND: "Lote No Encontrado",
+    LOT_RELEASED: "Lote Ya Liberado",
+    LOT_SHIPPED: "Lote Ya Embarcado",
+    LOT_CLOSED: "Lote Cerrado por MRB",
+    NETWORK_ERROR: "Error de Conexión con el Servidor",
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * Normalizes scanner input (trims whitespace, uppercases)
+ */
+export function normalizeLotNumber(lotNumber: string): string {
+    return lotNumber.trim().toUpperCase()
+}
+
+/**
+ * Validates lot number format
+ */
+export function isValidLotFormat(lotNumber: string): boolean {
+    if (lotNumber.length < 6) return false
+    const prefix = lotNumber.substring(0, 3).toUpperCase()
+    return VALID_LOT_PREFIXES.includes(prefix) || /^[A-Z0-9]{6,}$/i.test(lotNumber)
+}
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Nonconformance Report (NCR) workflow rules shared by the server and the UI.
+ * @module lib/ncr
+ */
+
+import type {
+    CertificateRecord,
+    FieldDefinition,
+    InspectionValue,
+    LotStatus,
+    MrbDisposition,
+    NcrFinding,
+    NcrStatus,
+    NonconformanceReport,
+    Role,
+} from "@/lib/data"
+import { formatReading, formatTolerance, getFieldValue } from "@/lib/inspection"
+import { getFeatureDefectCode } from "@/lib/tolerance"
+
+// ==========================================
+// WORKFLOW
+// ==========================================
+
+/**
+ * Allowed status changes: open -> under review -> dispositioned -> closed
+ */
+export const NCR_TRANSITIONS: Record<NcrStatus, NcrStatus[]> = {
+    open: ["under_review"],
+    under_review: ["dispositioned"],
+    dispositioned: ["closed"],
+    closed: [],
+}
+
+export const NCR_STATUS_LABELS: Record<NcrStatus, string> = {
+    open: "Open",
+    under_review: "Under Review",
+    dispositioned: "Dispositioned",
+    closed: "Closed",
+}
+
+/**
+ * Label of the action that moves an NCR into each status
+ */
+export const NCR_ACTION_LABELS: Record<NcrStatus, string> = {
+    open: "Reopen",
+    under_review: "Start Review",
+    dispositioned: "Mark Dispositioned",
+    closed: "Close NCR",
+}
+
+// ==========================================
+// MATERIAL REVIEW BOARD
+// ==========================================
+
+/** Roles allowed to approve an MRB disposition */
+export const MRB_APPROVER_ROLES: Role[] = ["manager", "admin_engineer"]
+
+export const MRB_DISPOSITIONS: { value: MrbDisposition; label: string; description: string }[] = [
+    { value: "use_as_is", label: "Use As Is", description: "Accept the parts without changes; the lot is released." },
+    { value: "rework", label: "Rework", description: "Rework the parts; the lot returns to the inspector queue." },
+    { value: "sort_100", label: "Sort 100%", description: "Inspect every piece; the lot returns to the inspector queue." },
+    { value: "scrap", label: "Scrap", description: "Scrap the affected parts; the lot is closed." },
+    { value: "return_to_supplier", label: "Return to Supplier", description: "Send the material back; the lot is closed." },
+]
+
+/**
+ * Lot status that follows each disposition
+ */
+export const MRB_DISPOSITION_LOT_STATUS: Record<MrbDisposition, LotStatus> = {
+    use_as_is: "released",
+    rework: "reworked",
+    sort_100: "reworked",
+    scrap: "scrapped",
+    return_to_supplier: "returned_to_supplier",
+}
+
+export function canTransitionNcr(from: NcrStatus, to: NcrStatus): boolean {
+    return NCR_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Result of an NCR change; a use-as-is disposition carries the certificate of the released lot
+ */
+export type NcrTransitionResult =
+    | { success: true; ncr: NonconformanceReport; certificate?: CertificateRecord }
+    | { success: false; error: string }
+
+// ==========================================
+// FINDINGS
+// ==========================================
+
+/**
+ * Failing characteristics of an inspection, as recorded on the NCR
+ */
+export function buildNcrFindings(fields: FieldDefinition[], values: InspectionValue[]): NcrFinding[] {
+    return fields.flatMap((field) => {
+        const value = getFieldValue(values, field.id)
+        if (value?.status !== "fail") return []
+        return [{
+            fieldId: field.id,
+            characteristic: field.name,
+            tolerance: formatTolerance(field),
+            measured: formatReading(field, value),
+        }]
+    })
+}
+
+/**
+ * Defect codes recorded on the NCR: the one selected at the kiosk plus the codes of
+ * failing GD&T characteristics (a failed flatness adds Z27)
+ */
+export function buildNcrDefectCodes(
+    fields: FieldDefinition[],
+    values: InspectionValue[],
+    selectedDefect: string
+): string[] {
+    const featureCodes = fields.flatMap((field) => {
+        const code = getFeatureDefectCode(field)
+        return code && getFieldValue(values, field.id)?.status === "fail" ? [code] : []
+    })
+    return [...new Set([...(selectedDefect ? [selectedDefect] : []), ...featureCodes])]
+}
@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Process Capability Study PDF Generator
+ * Prints the Cp/Cpk/Pp/Ppk study of a characteristic with the part's current revision,
+ * the summary statistics and a histogram with the normal curve against the spec limits.
+ * @module lib/pdf/CapabilityReportPDFGenerator
+ */
+
+import jsPDF from "jspdf"
+import autoTable from "jspdf-autotable"
+import { format } from "date-fns"
+import {
+    CAPABILITY_PRELIMINARY_READINGS,
+    CAPABILITY_RATING_LABELS,
+    CAPABILITY_TARGET,
+    buildNormalCurve,
+    formatIndex,
+    formatMeasurement,
+    getCapabilityRating,
+    type CapabilityStudy,
+} from "@/lib/capability"
+import { PDF_COLORS, lastTableBottom } from "./pdfHelpers"
+
+/** Internal form code printed in the footer */
+const CAPABILITY_FORM_REVISION = "QS-P7-CAP Rev.01"
+
+const HISTOGRAM_HEIGHT = 70
+
+// ==========================================
+// PDF GENERATOR
+// ==========================================
+
+export function generateCapabilityReportPDF(study: CapabilityStudy): void {
+    const doc = new jsPDF({
+        orientation: "portrait",
+        unit: "mm",
+        format: "letter",
+    })
+
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pageHeight = doc.internal.pageSize.getHeight()
+    const margin = 15
+    const { darkBlue, black, green, red, labelFill } = PDF_COLORS
+    const formatDate = (iso: string | null | undefined) => (iso ? format(new Date(iso), "dd-MMM-yy") : "N/A")
+    const characteristic = study.unit ? `${study.fieldName} (${study.unit})` : study.fieldName
+
+    // =========== HEADER ===========
+
+    doc.setTextColor(...darkBlue)
+    doc.setFontSize(22)
+    doc.setFont("helvetica", "bold")
+    doc.text("RBC", margin, 22)
+    doc.setFontSize(6)
+    doc.text("DE MEXICO", margin, 26)
+
+    doc.setFontSize(13)
+    doc.text("PROCESS CAPABILITY STUDY", pageWidth / 2, 20, { align: "center" })
+    doc.setFontSize(8)
+    doc.setFont("helvetica", "normal")
+    doc.text(`${study.partNumber} · ${characteristic}`, pageWidth / 2, 25, { align: "center" })
+
+    doc.setTextColor(...black)
+    doc.setFontSize(8)
+    doc.text(`Printed ${format(new Date(), "dd-MMM-yy HH:mm")}`, pageWidth - margin, 20, { align: "right" })
+
+    doc.setDrawColor(...darkBlue)
+    doc.setLineWidth(0.4)
+    doc.line(margin, 30, pageWidth - margin, 30)
+
+    const sectionTitle = (title: string, y: number) => {
+        doc.setTextColor(...darkBlue)
+        doc.setFontSize(9)
+        doc.setFont("helvetica", "bold")
+        doc.text(title, margin, y)
+        doc.setTextColor(...black)
+    }
+
+    // =========== PART & CHARACTERISTIC ===========
+
+    sectionTitle("PART & CHARACTERISTIC", 37)
+    autoTable(doc, {
+        startY: 39,
+        margin: { left: margin, right: margin },
+        body: [
+            ["Part Number", study.partNumber, "Part Name", study.partName],
+            ["Current Revision", study.revision, "Revision Date", formatDate(study.revisionDate)],
+            ["Revision Note", { content: study.revisionNote || "N/A", colSpan: 3 }],
+            ["Characteristic", characteristic, "Tool", study.tool ?? "N/A"],
+            ["Tolerance", { content: study.tolerance ?? "N/A", colSpan: 3 }],
+            ["LSL", formatMeasurement(study.spec.min), "USL", formatMeasurement(study.spec.max)],
+            [
+                "Period",
+                `${formatDate(study.firstRecordedAt)} - ${formatDate(study.lastRecordedAt)}`,
+                "Lots / Readings",
+                `${study.lots} / ${study.readings}`,
+            ],
+            ["Recorded Under", { content: study.recordedRevisions.join(", ") || "N/A", colSpan: 3 }],
+        ],
+        theme: "grid",
+        styles: { fontSize: 8, cellPadding: 1.5, lineColor: [180, 180, 180], lineWidth: 0.1 },
+        columnStyles: {
+            0: { fontStyle: "bold", cellWidth: 35, fillColor: labelFill },
+            2: { fontStyle: "bold", cellWidth: 35, fillColor: labelFill },
+        },
+    })
+    let currentY = lastTableBottom(doc)
+
+    // =========== CAPABILITY INDICES ===========
+
+    sectionTitle("CAPABILITY INDICES", currentY + 8)
+    const indexRow = (label: string, basis: string, index: number | null) => {
+        const rating = getCapabilityRating(index)
+        return [label, basis, formatIndex(index), rating ? CAPABILITY_RATING_LABELS[rating] : "N/A"]
+    }
+    autoTable(doc, {
+        startY: currentY + 10,
+        margin: { left: margin, right: margin },
+        head: [["Index", "Sigma", "Value", `Rating (target >= ${CAPABILITY_TARGET})`]],
+        body: [
+            indexRow("Cp", `Within ${formatMeasurement(study.sigmaWithin)}`, study.cp),
+            indexRow("Cpk", `Within ${formatMeasurement(study.sigmaWithin)}`, study.cpk),
+            indexRow("Pp", `Overall ${formatMeasurement(study.sigmaOverall)}`, study.pp),
+            indexRow("Ppk", `Overall ${formatMeasurement(study.sigmaOverall)}`, study.ppk),
+        ],
+        theme: "grid",
+        styles: { fontSize: 8, cellPadding: 1.8, lineColor: darkBlue, lineWidth: 0.2 },
+        headStyles: { fillColor: darkBlue, textColor: [255, 255, 255], fontStyle: "bold" },
+        columnStyles: {
+            0: { fontStyle: "bold", cellWidth: 20 },
+            2: { halign: "right", font: "courier", fontStyle: "bold" },
+        },
+        didParseCell: (data) => {
+            if (data.section !== "body" || data.column.index !== 3) return
+            const rating = data.cell.raw
+            if (rating === CAPABILITY_RATING_LABELS.capable) data.cell.styles.textColor = green
+            if (rating === CAPABILITY_RATING_LABELS.not_capable) data.cell.styles.textColor = red
+        },
+    })
+    currentY = lastTableBottom(doc)
+
+    autoTable(doc, {
+        startY: currentY + 3,
+        margin: { left: margin, right: margin },
+        body: [[
+            "Mean", formatMeasurement(study.mean),
+            "Min", formatMeasurement(study.min),
+            "Max", formatMeasurement(study.max),
+        ]],
+        theme: "grid",
+        styles: { fontSize: 8, cellPadding: 1.5, lineColor: [180, 180, 180], lineWidth: 0.1, font: "courier" },
+        columnStyles: {
+            0: { font: "helvetica", fontStyle: "bold", fillColor: labelFill },
+            2: { font: "helvetica", fontStyle: "bold", fillColor: labelFill },
+            4: { font: "helvetica", fontStyle: "bold", fillColor: labelFill },
+        },
+    })
+    currentY = lastTableBottom(doc)
+
+    if (study.readings < CAPABILITY_PRELIMINARY_READINGS) {
+        doc.setFontSize(7)
+        doc.setFont("helvetica", "italic")
+        doc.setTextColor(...red)
+        doc.text(
+            `Preliminary study: fewer than ${CAPABILITY_PRELIMINARY_READINGS} readings on record.`,
+            margin,
+            currentY + 4
+        )
+        doc.setTextColor(...black)
+        currentY += 4
+    }
+
+    // =========== HISTOGRAM ===========
+
+    sectionTitle("HISTOGRAM & NORMAL CURVE", currentY + 8)
+    const chartTop = currentY + 12
+    const chartBottom = chartTop + HISTOGRAM_HEIGHT
+    const chartLeft = margin + 8
+    const chartRight = pageWidth - margin
+    const { histogram } = study
+
+    doc.setDrawColor(...black)
+    doc.setLineWidth(0.2)
+    doc.line(chartLeft, chartBottom, chartRight, chartBottom)
+    doc.line(chartLeft, chartTop, chartLeft, chartBottom)
+
+    if (histogram.length > 0) {
+        const curve = buildNormalCurve(study)
+        const xMin = histogram[0].start
+        const xMax = histogram[histogram.length - 1].end
+        const yMax = Math.max(...histogram.map((bin) => bin.count), ...curve.map((point) => point.expected), 1)
+        const toX = (value: number) => chartLeft + ((value - xMin) / (xMax - xMin || 1)) * (chartRight - chartLeft)
+        const toY = (count: number) => chartBottom - (count / yMax) * (HISTOGRAM_HEIGHT - 4)
+
+        doc.setFillColor(170, 190, 230)
+        doc.setDrawColor(...darkBlue)
+        for (const bin of histogram) {
+            if (bin.count === 0) continue
+            doc.rect(toX(bin.start), toY(bin.count), toX(bin.end) - toX(bin.start), chartBottom - toY(bin.count), "FD")
+        }
+
+        if (curve.length > 1) {
+            doc.setDrawColor(...green)
+            doc.setLineWidth(0.5)
+            const segments = curve.slice(1).map((point, index) => [
+                toX(point.x) - toX(curve[index].x),
+                toY(point.expected) - toY(curve[index].expected),
+            ])
+            doc.lines(segments, toX(curve[0].x), toY(curve[0].expected))
+        }
+
+        doc.setFontSize(7)
+        doc.setFont("helvetica", "bold")
+        const specLine = (value: number | undefined, label: string) => {
+            if (value === undefined) return
+            doc.setDrawColor(...red)
+            doc.setLineWidth(0.5)
+            doc.setLineDashPattern([1.5, 1], 0)
+            doc.line(toX(value), chartTop, toX(value), chartBottom)
+            doc.setLineDashPattern([], 0)
+            doc.setTextColor(...red)
+            doc.text(`${label} ${formatMeasurement(value)}`, toX(value), chartTop - 1, { align: "center" })
+        }
+        specLine(study.spec.min, "LSL")
+        specLine(study.spec.max, "USL")
+
+        doc.setTextColor(...black)
+        doc.setFont("helvetica", "normal")
+        doc.text(formatMeasurement(xMin), chartLeft, chartBottom + 4, { align: "center" })
+        doc.text(formatMeasurement(xMax), chartRight, chartBottom + 4, { align: "center" })
+        doc.text(String(Math.round(yMax)), chartLeft - 1, chartTop + 4, { align: "right" })
+        doc.text("0", chartLeft - 1, chartBottom, { align: "right" })
+    } else {
+        doc.setFontSize(8)
+        doc.text("No readings on record", (chartLeft + chartRight) / 2, (chartTop + chartBottom) / 2, { align: "center" })
+    }
+
+    // =========== FOOTER ===========
+
+    doc.setTextColor(...black)
+    doc.setFontSize(7)
+    doc.setFont("helvetica", "normal")
+    doc.text(
+        "Cp/Cpk: within-subgroup sigma (average range / d2, pooled SD for sampled subgroups). Pp/Ppk: overall sample SD.",
+        margin,
+        pageHeight - 16
+    )
+    doc.text(CAPABILITY_FORM_REVISION, pageWidth - margin, pageHeight - 10, { align: "right" })
+
+    const fieldSlug = study.fieldName.replace(/\s+/g, "_")
+    doc.save(`Capability_${study.partNumber}_${fieldSlug}_${study.revision.replace(/\s+/g, "")}.pdf`)
+}
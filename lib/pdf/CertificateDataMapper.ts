@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Builds Certificate of Conformance data from the scanned lot,
+ * the part's current revision, the authenticated inspector and the part's certificate template.
+ * @module lib/pdf/CertificateDataMapper
+ */
+
+import { format, parseISO } from "date-fns"
+import type {
+    CertificateTemplate,
+    ElectronicSignature,
+    FieldDefinition,
+    InspectionValue,
+    LotInfo,
+    PartConfig,
+    PartRevision,
+} from "@/lib/data"
+import { formatReading, formatTolerance } from "@/lib/inspection"
+import { getToleranceLimits } from "@/lib/tolerance"
+import { formatFieldNumber, withFieldUnit } from "@/lib/units"
+import type { CertificateData, CertificateResultRow } from "./CertificatePDFGenerator"
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface CertificateSource {
+    /** Scanned lot being released */
+    lot: LotInfo
+    /** Part configuration for the lot's part number */
+    part?: PartConfig
+    /** Active revision of the part */
+    revision?: PartRevision
+    /** Authenticated inspector name */
+    inspectorName?: string
+    /** Certificate template (process layout and prefix) for the part */
+    template: CertificateTemplate
+    /** Accepted (finished) quantity being released */
+    acceptedQty: number
+    /** Release date (defaults to now) */
+    date?: Date
+}
+
+/**
+ * Certificate data before the registry assigns its number
+ */
+export type CertificateDraft = Omit<CertificateData, "certNumber">
+
+export type CertificateBuildResult =
+    | { success: true; draft: CertificateDraft; prefix: string }
+    | { success: false; error: string; missingFields: string[] }
+
+// ==========================================
+// MAPPER
+// ==========================================
+
+/**
+ * Strips the "Rev " prefix used by part configs ("Rev B" -> "B")
+ */
+function toRevisionLetter(revision: string): string {
+    return revision.replace(/^Rev\s*/i, "").trim()
+}
+
+/**
+ * Builds the results table rows from the revision fields and the recorded readings.
+ * Fields without a recorded pass/fail reading are left out.
+ */
+export function buildInspectionResults(
+    fields: FieldDefinition[],
+    values: InspectionValue[]
+): CertificateResultRow[] {
+    return fields.flatMap((field) => {
+        const recorded = values.find((v) => v.fieldId === field.id)
+        if (!recorded || recorded.status === "pending") return []
+        const { min, max } = getToleranceLimits(field)
+        return [{
+            characteristic: field.name,
+            tool: field.tool ?? "N/A",
+            specification: formatTolerance(field),
+            min: min !== undefined ? withFieldUnit(field, formatFieldNumber(field, min)) : "N/A",
+            max: max !== undefined ? withFieldUnit(field, formatFieldNumber(field, max)) : "N/A",
+            measured: formatReading(field, recorded),
+            result: recorded.status === "pass" ? "PASS" : "FAIL",
+        }]
+    })
+}
+
+/**
+ * Maps lot, part and inspector data to a certificate draft.
+ * Fails with the list of missing fields instead of printing an incomplete certificate.
+ */
+export function buildCertificateData({
+    lot,
+    part,
+    revision,
+    inspectorName,
+    template,
+    acceptedQty,
+    date = new Date(),
+}: CertificateSource): CertificateBuildResult {
+    const required: Record<string, unknown> = {
+        "Customer": lot.customer?.trim(),
+        "Part Number": lot.partNumber.trim(),
+        "Part Configuration": part,
+        "Revision": revision?.revision,
+        "Lot Number": lot.lotNumber.trim(),
+        "Raw Material Heat Number": lot.lotHeatNumber.trim(),
+        "Quality Inspector": inspectorName?.trim(),
+        "Accepted Quantity": acceptedQty > 0 ? acceptedQty : undefined,
+    }
+
+    const missingFields = Object.entries(required)
+        .filter(([, value]) => value === undefined || value === "")
+        .map(([label]) => label)
+
+    if (missingFields.length > 0 || !part || !revision || !inspectorName || !lot.customer) {
+        return {
+            success: false,
+            error: `Missing certificate data: ${missingFields.join(", ")}`,
+            missingFields,
+        }
+    }
+
+    return {
+        success: true,
+        prefix: template.certPrefix,
+        draft: {
+            customer: lot.customer,
+            partNumber: lot.partNumber,
+            revision: toRevisionLetter(revision.revision),
+            drawingNumber: part.partNumber,
+            customerPartNumber: "N/A",
+            customerDwgRevision: "N/A",
+            lotNumber: lot.lotNumber,
+            productDescription: part.name.toUpperCase(),
+            rawMaterialHeatNumber: lot.lotHeatNumber,
+            quantity: acceptedQty,
+            processingDate: format(date, "d/M/yyyy"),
+            qualityInspector: inspectorName,
+            signatureDate: format(date, "dd-MMM-yy"),
+            templateId: template.id,
+        },
+    }
+}
+
+/**
+ * Stamps the release e-signature and the attempt the lot was accepted on onto a draft;
+ * the signer is printed as the quality inspector
+ */
+export function signCertificateDraft(
+    draft: CertificateDraft,
+    signature: ElectronicSignature,
+    inspectionAttempt: number
+): CertificateDraft {
+    return {
+        ...draft,
+        qualityInspector: signature.signerName,
+        signatureDate: format(parseISO(signature.signedAt), "dd-MMM-yy"),
+        signature: {
+            meaning: signature.meaning,
+            signerName: signature.signerName,
+            signerRole: signature.signerRole,
+            signedAt: signature.signedAt,
+            recordHash: signature.recordHash,
+        },
+        inspectionAttempt,
+    }
+}
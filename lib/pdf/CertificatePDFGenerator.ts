@@ -2,16 +2,43 @@
  * @fileoverview Certificate of Conformance PDF Generator
  * Creates a 1:1 visual replica of the official RBC certificate format
  * Styled to look like a scanned official document
+ * Header, rows, statement and footer come from a CertificateTemplate
+ * Optionally appends a page with the lot's measured inspection results
+ * Issued certificates carry a QR code pointing to the /verify page
+ * and the electronic signature of the release
  * @module lib/pdf/CertificatePDFGenerator
  */
 
 import jsPDF from "jspdf"
-import { format } from "date-fns"
+import autoTable from "jspdf-autotable"
+import QRCode from "qrcode"
+import { format, parseISO } from "date-fns"
+import {
+    INITIAL_CERTIFICATE_TEMPLATES,
+    type CertificateTemplate,
+    type CertificateTemplateRow,
+    type ElectronicSignature,
+} from "@/lib/data"
+import { SIGNATURE_MEANING_LABELS } from "@/lib/signature"
 
 // ==========================================
 // TYPES
 // ==========================================
 
+/**
+ * One measured characteristic printed on the results page
+ */
+export interface CertificateResultRow {
+    characteristic: string
+    tool: string
+    /** Drawing tolerance ("0.5 ± 0.003"); absent on certificates issued before it was recorded */
+    specification?: string
+    min: string
+    max: string
+    measured: string
+    result: "PASS" | "FAIL"
+}
+
 export interface CertificateData {
     certNumber: string
     customer: string
@@ -25,15 +52,28 @@ export interface CertificateData {
     rawMaterialHeatNumber: string
     quantity: number
     processingDate: string
-    specifications: string
-    method: string
+    specifications?: string
+    method?: string
     type?: string
     class?: string
     test?: string
     qualityInspector: string
     signatureDate: string
+    /** Electronic signature of the release; printed in the signature block */
+    signature?: Pick<ElectronicSignature, "meaning" | "signerName" | "signerRole" | "signedAt" | "recordHash">
+    /** Inspection attempt the lot was accepted on (greater than 1 after rework) */
+    inspectionAttempt?: number
+    /** Template the certificate was issued with (reprints use the same version) */
+    templateId?: string
+    /** Recorded inspection readings; when present a results page is appended */
+    results?: CertificateResultRow[]
+    /** Content hash assigned at issue; encoded in the verification QR code */
+    verificationHash?: string
 }
 
+/** Built-in Black Oxide layout, used when no template is given */
+export const DEFAULT_CERTIFICATE_TEMPLATE: CertificateTemplate = INITIAL_CERTIFICATE_TEMPLATES[0]
+
 // ==========================================
 // HARDCODED DEMO DATA
 // ==========================================
@@ -65,7 +105,46 @@ export const DEMO_CERTIFICATE_DATA: CertificateData = {
 // PDF GENERATOR - 1:1 REPLICA (FINE TUNED)
 // ==========================================
 
-export function generateCertificatePDF(data: CertificateData = DEMO_CERTIFICATE_DATA): void {
+/**
+ * URL of the verification page for an issued certificate
+ * @param baseUrl - Public base URL of the app (see getVerificationBaseUrl)
+ */
+export function getVerificationUrl(baseUrl: string, certNumber: string, hash: string): string {
+    return `${baseUrl}/verify/${encodeURIComponent(certNumber)}?h=${hash}`
+}
+
+/**
+ * Draws a QR code as vector squares (keeps the PDF sharp at any print size)
+ */
+function drawQRCode(doc: jsPDF, text: string, x: number, y: number, size: number): void {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" })
+    const cell = size / modules.size
+
+    doc.setFillColor(0, 0, 0)
+    for (let row = 0; row < modules.size; row++) {
+        for (let col = 0; col < modules.size; col++) {
+            if (modules.get(row, col)) {
+                doc.rect(x + col * cell, y + row * cell, cell, cell, "F")
+            }
+        }
+    }
+}
+
+/**
+ * Resolves the printed value of a template row
+ */
+function resolveRowValue(row: CertificateTemplateRow, data: CertificateData): string {
+    if (!row.field) return row.value || "N/A"
+    const value = data[row.field]
+    if (value === undefined || value === "") return "N/A"
+    return typeof value === "number" ? value.toLocaleString() : value
+}
+
+export function generateCertificatePDF(
+    data: CertificateData = DEMO_CERTIFICATE_DATA,
+    template: CertificateTemplate = DEFAULT_CERTIFICATE_TEMPLATE,
+    verificationBaseUrl?: string | null
+): void {
     const doc = new jsPDF({
         orientation: "portrait",
         unit: "mm",
@@ -86,13 +165,16 @@ export function generateCertificatePDF(data: CertificateData = DEMO_CERTIFICATE_
     const black: [number, number, number] = [0, 0, 0]
 
     // =========== DOUBLE BORDER ===========
-    // Outer thick border
-    doc.setDrawColor(...darkBlue)
-    doc.setLineWidth(0.8)
-    doc.rect(borderMargin, borderMargin, pageWidth - 2 * borderMargin, pageHeight - 2 * borderMargin)
-    // Inner thin border (offset by 1.5mm)
-    doc.setLineWidth(0.3)
-    doc.rect(borderMargin + 1.5, borderMargin + 1.5, pageWidth - 2 * borderMargin - 3, pageHeight - 2 * borderMargin - 3)
+    const drawBorder = () => {
+        // Outer thick border
+        doc.setDrawColor(...darkBlue)
+        doc.setLineWidth(0.8)
+        doc.rect(borderMargin, borderMargin, pageWidth - 2 * borderMargin, pageHeight - 2 * borderMargin)
+        // Inner thin border (offset by 1.5mm)
+        doc.setLineWidth(0.3)
+        doc.rect(borderMargin + 1.5, borderMargin + 1.5, pageWidth - 2 * borderMargin - 3, pageHeight - 2 * borderMargin - 3)
+    }
+    drawBorder()
 
     // =========== HEADER ===========
 
@@ -106,32 +188,41 @@ export function generateCertificatePDF(data: CertificateData = DEMO_CERTIFICATE_
     // "BO-XXXXXX-XX"
     doc.text(data.certNumber, pageWidth - 36, 20)
 
+    // Verification QR (Top Right, under the cert number), only when a public URL is configured
+    if (data.verificationHash && verificationBaseUrl) {
+        const qrSize = 17
+        drawQRCode(doc, getVerificationUrl(verificationBaseUrl, data.certNumber, data.verificationHash), pageWidth - contentMargin - qrSize, 23, qrSize)
+        doc.setFontSize(5)
+        doc.setFont("helvetica", "normal")
+        doc.text("Scan to verify", pageWidth - contentMargin - qrSize / 2, 42.5, { align: "center" })
+    }
+
     // RBC Logo (Top Left) - Simulated with Text
     doc.setTextColor(...darkBlue)
     doc.setFontSize(32)
     doc.setFont("helvetica", "bold")
-    doc.text("RBC", contentMargin, 28)
+    doc.text(template.companyName, contentMargin, 28)
 
     doc.setFontSize(7)
     doc.setFont("helvetica", "bold")
-    doc.text("DE MEXICO", contentMargin, 33)
+    doc.text(template.companyDivision, contentMargin, 33)
 
     doc.setFontSize(5)
     doc.setFont("helvetica", "normal")
-    doc.text("S. DE R.L. DE C.V.", contentMargin, 35.5)
+    doc.text(template.companyLegalName, contentMargin, 35.5)
 
     // Title (Center)
     doc.setTextColor(...darkBlue)
     doc.setFontSize(14)
     doc.setFont("helvetica", "bold")
-    doc.text("CERTIFICATE OF CONFORMANCE", pageWidth / 2, 28, { align: "center" })
+    doc.text(template.title, pageWidth / 2, 28, { align: "center" })
 
     doc.setFontSize(9)
     doc.setFont("helvetica", "normal")
-    doc.text("Internal Processing", pageWidth / 2, 33, { align: "center" })
+    doc.text(template.subtitle, pageWidth / 2, 33, { align: "center" })
 
     doc.setFont("helvetica", "bold")
-    doc.text("Black Oxide", pageWidth / 2, 37, { align: "center" })
+    doc.text(template.processName, pageWidth / 2, 37, { align: "center" })
 
     // =========== HORIZONTAL LINE ===========
     doc.setDrawColor(...darkBlue)
@@ -154,38 +245,15 @@ export function generateCertificatePDF(data: CertificateData = DEMO_CERTIFICATE_
         doc.text(value, valueX, y)
     }
 
-    drawKeyValue("Customer:", data.customer, currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("P/N:", data.partNumber, currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Rev:", data.revision, currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Drawing no. or PCN:", data.drawingNumber, currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Customer Part Number(if applicable):", data.customerPartNumber || "N/A", currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Customer Dwg Revision(if applicable)", data.customerDwgRevision || "N/A", currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Lot/WO:", data.lotNumber, currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Product Description:", data.productDescription, currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Raw Material Heat Number:", data.rawMaterialHeatNumber, currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Quantity", data.quantity.toLocaleString(), currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Processing Date:", data.processingDate, currentY)
-    currentY += lineSpacing + 8
+    template.infoRows.forEach((row) => {
+        drawKeyValue(row.label, resolveRowValue(row, data), currentY)
+        currentY += lineSpacing
+    })
+    if (data.inspectionAttempt !== undefined) {
+        drawKeyValue("Inspection:", `Accepted on attempt ${data.inspectionAttempt}`, currentY)
+        currentY += lineSpacing
+    }
+    currentY += 8
 
     // =========== CERTIFICATION STATEMENT ===========
 
@@ -194,11 +262,9 @@ export function generateCertificatePDF(data: CertificateData = DEMO_CERTIFICATE_
     doc.setLineWidth(0.2)
     doc.line(contentMargin, currentY - 5, pageWidth - contentMargin, currentY - 5)
 
-    const statement = "We hereby certify that the product/s described above were processed in accordance with the specification(s) and drawing requirements stated below, and conforms to all purchase order requirements."
-
     doc.setFontSize(8)
     doc.setFont("helvetica", "italic")
-    const splitStatement = doc.splitTextToSize(statement, pageWidth - 2 * contentMargin - 5)
+    const splitStatement = doc.splitTextToSize(template.statement, pageWidth - 2 * contentMargin - 5)
     doc.text(splitStatement, pageWidth / 2, currentY + 2, { align: "center" })
 
     currentY += 15
@@ -209,20 +275,11 @@ export function generateCertificatePDF(data: CertificateData = DEMO_CERTIFICATE_
     doc.line(contentMargin, currentY, pageWidth - contentMargin, currentY)
     currentY += 10
 
-    // Specs layout
-    drawKeyValue("Specifications:", data.specifications, currentY)
-    currentY += lineSpacing + 4
-
-    drawKeyValue("Method:", data.method, currentY)
-    currentY += lineSpacing + 4
-
-    drawKeyValue("Type:", data.type || "N/A", currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Class:", data.class || "N/A", currentY)
-    currentY += lineSpacing
-
-    drawKeyValue("Test:", data.test || "N/A", currentY)
+    // Process rows (specification, method, type, class, test...)
+    template.processRows.forEach((row) => {
+        drawKeyValue(row.label, resolveRowValue(row, data), currentY)
+        currentY += lineSpacing + 2
+    })
 
     // =========== SIGNATURE SECTION ===========
 
@@ -239,10 +296,29 @@ export function generateCertificatePDF(data: CertificateData = DEMO_CERTIFICATE_
     doc.setLineWidth(0.5)
     doc.line(labelX + 32, sigY + 5, labelX + 32 + sigLineLength, sigY + 5)
 
-    // Simulated Signature (Italic Times font)
-    doc.setFontSize(12)
-    doc.setFont("times", "italic")
-    doc.text(data.qualityInspector, labelX + 40, sigY + 2)
+    if (data.signature) {
+        // Electronic signature block: signer on the line, meaning and record hash below it
+        doc.setFontSize(10)
+        doc.setFont("helvetica", "bold")
+        doc.text(data.signature.signerName, labelX + 34, sigY + 3)
+        doc.setFontSize(6.5)
+        doc.setFont("helvetica", "normal")
+        doc.text(
+            `Electronically signed - ${SIGNATURE_MEANING_LABELS[data.signature.meaning]}`,
+            labelX + 32,
+            sigY + 8.5
+        )
+        doc.text(
+            `${format(parseISO(data.signature.signedAt), "yyyy-MM-dd HH:mm:ss")} - Record SHA-256 ${data.signature.recordHash.slice(0, 16)}`,
+            labelX + 32,
+            sigY + 11.5
+        )
+    } else {
+        // Certificates issued before e-signatures reprint with the inspector's name
+        doc.setFontSize(12)
+        doc.setFont("times", "italic")
+        doc.text(data.qualityInspector, labelX + 40, sigY + 2)
+    }
 
     // Right: Date
     const dateLabelX = pageWidth - contentMargin - 50
@@ -268,29 +344,88 @@ export function generateCertificatePDF(data: CertificateData = DEMO_CERTIFICATE_
     doc.setFontSize(6)
     doc.setFont("helvetica", "normal")
 
-    const disclaimer = [
-        "Cuando sea impreso, este documento no es controlado a menos que sea identificado por Control de documentos.",
-        "When printed, this document is not controlled unless it is identified by Document Control."
-    ]
-    doc.text(disclaimer[0], pageWidth / 2, footerY, { align: "center" })
-    doc.text(disclaimer[1], pageWidth / 2, footerY + 3, { align: "center" })
+    template.disclaimerLines.forEach((line, index) => {
+        doc.text(line, pageWidth / 2, footerY + index * 3, { align: "center" })
+    })
 
     // Address
-    const addressY = footerY + 9
-    const address = [
-        "Avenida 16 de Septiembre Parque Industrial Reynosa C.P. 88780",
-        "Planta 1 Lote 11, Planta 2 Lote 3, Planta 3 Lote 14",
-        "Planta 4 Ave. Mike Allen #1320 esq. Ave. 16 de Septiembre C.P. 88787"
-    ]
-    doc.text(address[0], pageWidth / 2, addressY, { align: "center" })
-    doc.text(address[1], pageWidth / 2, addressY + 3, { align: "center" })
-    doc.text(address[2], pageWidth / 2, addressY + 6, { align: "center" })
+    const addressY = footerY + template.disclaimerLines.length * 3 + 3
+    template.addressLines.forEach((line, index) => {
+        doc.text(line, pageWidth / 2, addressY + index * 3, { align: "center" })
+    })
 
     // Revision Control (Bottom RIGHT)
     doc.setFontSize(8)
     doc.setFont("helvetica", "bold")
     // Align right near the border margin
-    doc.text("QS-P6-FP Rev.06", pageWidth - borderMargin - 8, pageHeight - borderMargin - 5, { align: "right" })
+    doc.text(template.formRevision, pageWidth - borderMargin - 8, pageHeight - borderMargin - 5, { align: "right" })
+
+    // =========== INSPECTION RESULTS PAGE ===========
+
+    if (data.results && data.results.length > 0) {
+        doc.addPage()
+        drawBorder()
+
+        doc.setTextColor(...black)
+        doc.setFontSize(10)
+        doc.setFont("helvetica", "normal")
+        doc.text("Cert. No.", pageWidth - 55, 20)
+        doc.setFont("helvetica", "bold")
+        doc.text(data.certNumber, pageWidth - 36, 20)
+
+        doc.setTextColor(...darkBlue)
+        doc.setFontSize(14)
+        doc.text("INSPECTION RESULTS", pageWidth / 2, 28, { align: "center" })
+        doc.setFontSize(9)
+        doc.setFont("helvetica", "normal")
+        doc.text(template.processName, pageWidth / 2, 33, { align: "center" })
+
+        doc.setLineWidth(0.4)
+        doc.line(contentMargin, 40, pageWidth - contentMargin, 40)
+
+        doc.setTextColor(...black)
+        drawKeyValue("P/N:", `${data.partNumber}  Rev ${data.revision}`, 48)
+        drawKeyValue("Lot/WO:", data.lotNumber, 48 + lineSpacing)
+
+        autoTable(doc, {
+            startY: 48 + lineSpacing * 2,
+            margin: { left: contentMargin, right: contentMargin, bottom: borderMargin + 15 },
+            head: [["#", "Characteristic", "Tool", "Specification", "Min", "Max", "Measured", "Result"]],
+            body: data.results.map((row, index) => [
+                String(index + 1),
+                row.characteristic,
+                row.tool,
+                row.specification ?? "N/A",
+                row.min,
+                row.max,
+                row.measured,
+                row.result,
+            ]),
+            theme: "grid",
+            styles: { fontSize: 8, cellPadding: 1.8, lineColor: darkBlue, lineWidth: 0.2 },
+            headStyles: { fillColor: darkBlue, textColor: [255, 255, 255], fontStyle: "bold" },
+            columnStyles: {
+                0: { halign: "center", cellWidth: 8 },
+                4: { halign: "right", font: "courier" },
+                5: { halign: "right", font: "courier" },
+                6: { halign: "right", font: "courier" },
+                7: { halign: "center", fontStyle: "bold" },
+            },
+            didDrawPage: (hook) => {
+                // Long tables continue on bordered pages
+                if (hook.pageNumber > 1) drawBorder()
+            },
+            didParseCell: (hook) => {
+                if (hook.section === "body" && hook.column.index === 7) {
+                    hook.cell.styles.textColor = hook.cell.raw === "PASS" ? [0, 128, 0] : [200, 0, 0]
+                }
+            },
+        })
+
+        doc.setFontSize(8)
+        doc.setFont("helvetica", "bold")
+        doc.text(template.formRevision, pageWidth - borderMargin - 8, pageHeight - borderMargin - 5, { align: "right" })
+    }
 
     // =========== SAVE PDF ===========
 
@@ -0,0 +1,288 @@
+/**
+ * @fileoverview First Piece Inspection (FPI) Report PDF Generator
+ * Internal form printed when a lot is released or rejected: lot context,
+ * operator production data, every characteristic reading with its tolerance,
+ * the verdict with its inspection attempt and the operator's and inspector's names.
+ * @module lib/pdf/FPIReportPDFGenerator
+ */
+
+import jsPDF from "jspdf"
+import autoTable from "jspdf-autotable"
+import { format, parseISO } from "date-fns"
+import { DEFECT_CODES } from "@/lib/data"
+import type { FieldDefinition, InspectionRecord, InspectionVerdict, LotInfo } from "@/lib/data"
+import { formatReading, formatTolerance } from "@/lib/inspection"
+import { PDF_COLORS, lastTableBottom } from "./pdfHelpers"
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface FPIReading {
+    characteristic: string
+    tool: string
+    tolerance: string
+    measured: string
+    result: "PASS" | "FAIL" | "PENDING"
+}
+
+export interface FPIReportData {
+    reportDate: string
+    lotNumber: string
+    orderNumber: string
+    customer: string
+    partNumber: string
+    partName: string
+    revision: string
+    lotHeatNumber: string
+    standard: string
+    qtyRequired: number
+    finishQty: number
+    scrapQty: number
+    defectCode: string
+    defectDescription: string
+    readings: FPIReading[]
+    verdict: InspectionVerdict
+    /** Inspection attempt of the lot (greater than 1 after rework) */
+    attempt: number
+    /** Certificate issued on release */
+    certNumber?: string
+    operatorName: string
+    inspectorName: string
+}
+
+export interface FPIReportSource {
+    lot: LotInfo
+    partName?: string
+    /** Fields of the revision the record was inspected against (tolerances and tools) */
+    fields: FieldDefinition[]
+    /** Stored inspection record: readings, quantities, verdict, attempt and signing inspector */
+    record: InspectionRecord
+    certNumber?: string
+    operatorName?: string
+}
+
+/** Internal form code printed in the footer */
+const FPI_FORM_REVISION = "QS-P6-FPI Rev.01"
+
+// ==========================================
+// MAPPER
+// ==========================================
+
+/**
+ * Maps the lot and its stored inspection record to the FPI report, so the printed
+ * form matches what was signed
+ */
+export function buildFPIReportData({
+    lot,
+    partName,
+    fields,
+    record,
+    certNumber,
+    operatorName,
+}: FPIReportSource): FPIReportData {
+    const defectCode = record.defectCode ?? undefined
+    return {
+        reportDate: format(parseISO(record.recordedAt), "dd-MMM-yy HH:mm"),
+        lotNumber: lot.lotNumber,
+        orderNumber: lot.orderNumber,
+        customer: lot.customer ?? "N/A",
+        partNumber: record.partNumber,
+        partName: partName ?? "N/A",
+        revision: record.revision,
+        lotHeatNumber: record.lotHeatNumber,
+        standard: lot.standard,
+        qtyRequired: lot.qtyRequired,
+        finishQty: record.finishQty,
+        scrapQty: record.scrapQty,
+        defectCode: defectCode || "N/A",
+        defectDescription: DEFECT_CODES.find((d) => d.code === defectCode)?.description ?? "",
+        readings: record.readings.map((reading) => {
+            const field = fields.find((f) => f.id === reading.fieldId)
+            return {
+                characteristic: reading.name,
+                tool: field?.tool ?? "N/A",
+                tolerance: field ? formatTolerance(field) : "N/A",
+                measured: field ? formatReading(field, reading) : String(reading.value ?? "N/A"),
+                result: reading.status === "pass" ? "PASS" : reading.status === "fail" ? "FAIL" : "PENDING",
+            }
+        }),
+        verdict: record.verdict,
+        attempt: record.attempt,
+        certNumber,
+        operatorName: operatorName?.trim() || "N/A",
+        inspectorName: record.inspector,
+    }
+}
+
+// ==========================================
+// PDF GENERATOR
+// ==========================================
+
+export function generateFPIReportPDF(data: FPIReportData): void {
+    const doc = new jsPDF({
+        orientation: "portrait",
+        unit: "mm",
+        format: "letter",
+    })
+
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pageHeight = doc.internal.pageSize.getHeight()
+    const margin = 15
+
+    const { darkBlue, black, green, red, labelFill } = PDF_COLORS
+
+    // =========== HEADER ===========
+
+    doc.setTextColor(...darkBlue)
+    doc.setFontSize(22)
+    doc.setFont("helvetica", "bold")
+    doc.text("RBC", margin, 22)
+    doc.setFontSize(6)
+    doc.text("DE MEXICO", margin, 26)
+
+    doc.setFontSize(13)
+    doc.text("FIRST PIECE INSPECTION REPORT", pageWidth / 2, 20, { align: "center" })
+    doc.setFontSize(8)
+    doc.setFont("helvetica", "normal")
+    doc.text("Internal Quality Record", pageWidth / 2, 25, { align: "center" })
+
+    doc.setTextColor(...black)
+    doc.setFontSize(8)
+    doc.text(`Date: ${data.reportDate}`, pageWidth - margin, 20, { align: "right" })
+    if (data.certNumber) {
+        doc.text(`Cert. No. ${data.certNumber}`, pageWidth - margin, 25, { align: "right" })
+    }
+
+    doc.setDrawColor(...darkBlue)
+    doc.setLineWidth(0.4)
+    doc.line(margin, 30, pageWidth - margin, 30)
+
+    const sectionTitle = (title: string, y: number) => {
+        doc.setTextColor(...darkBlue)
+        doc.setFontSize(9)
+        doc.setFont("helvetica", "bold")
+        doc.text(title, margin, y)
+        doc.setTextColor(...black)
+    }
+
+    const keyValueTable = (rows: string[][], startY: number) => {
+        autoTable(doc, {
+            startY,
+            margin: { left: margin, right: margin },
+            body: rows,
+            theme: "grid",
+            styles: { fontSize: 8, cellPadding: 1.5, lineColor: [180, 180, 180], lineWidth: 0.1 },
+            columnStyles: {
+                0: { fontStyle: "bold", cellWidth: 35, fillColor: labelFill },
+                2: { fontStyle: "bold", cellWidth: 35, fillColor: labelFill },
+            },
+        })
+        return lastTableBottom(doc)
+    }
+
+    // =========== LOT INFORMATION ===========
+
+    sectionTitle("LOT INFORMATION", 37)
+    let currentY = keyValueTable([
+        ["Lot/WO", data.lotNumber, "Order", data.orderNumber],
+        ["Part Number", data.partNumber, "Revision", data.revision],
+        ["Description", data.partName, "Customer", data.customer],
+        ["Heat Number", data.lotHeatNumber, "Standard", data.standard],
+    ], 39)
+
+    // =========== PRODUCTION DATA ===========
+
+    sectionTitle("PRODUCTION DATA (OPERATOR)", currentY + 8)
+    currentY = keyValueTable([
+        ["Qty Required", data.qtyRequired.toLocaleString(), "Finish Qty", data.finishQty.toLocaleString()],
+        ["Scrap Qty", data.scrapQty.toLocaleString(), "Defect Code", `${data.defectCode} ${data.defectDescription}`.trim()],
+        ["Attempt", String(data.attempt), "", ""],
+    ], currentY + 10)
+
+    // =========== INSPECTION RESULTS ===========
+
+    sectionTitle("DIMENSIONAL / VISUAL INSPECTION", currentY + 8)
+    autoTable(doc, {
+        startY: currentY + 10,
+        margin: { left: margin, right: margin, bottom: 45 },
+        head: [["#", "Characteristic", "Tool", "Tolerance", "Measured", "Result"]],
+        body: data.readings.map((reading, index) => [
+            String(index + 1),
+            reading.characteristic,
+            reading.tool,
+            reading.tolerance,
+            reading.measured,
+            reading.result,
+        ]),
+        theme: "grid",
+        styles: { fontSize: 8, cellPadding: 1.8, lineColor: darkBlue, lineWidth: 0.2 },
+        headStyles: { fillColor: darkBlue, textColor: [255, 255, 255], fontStyle: "bold" },
+        columnStyles: {
+            0: { halign: "center", cellWidth: 8 },
+            3: { font: "courier" },
+            4: { halign: "right", font: "courier" },
+            5: { halign: "center", fontStyle: "bold" },
+        },
+        didParseCell: (hook) => {
+            if (hook.section === "body" && hook.column.index === 5) {
+                hook.cell.styles.textColor = hook.cell.raw === "PASS" ? green : hook.cell.raw === "FAIL" ? red : black
+            }
+        },
+    })
+    currentY = lastTableBottom(doc) + 10
+
+    // =========== VERDICT ===========
+
+    // Keep the verdict and signatures together on a fresh page when the table runs long
+    if (currentY + 12 > pageHeight - 45) {
+        doc.addPage()
+        currentY = 20
+    }
+
+    const released = data.verdict === "released"
+    const verdictColor = released ? green : red
+    const attemptNote = data.attempt > 1 ? ` ON ATTEMPT ${data.attempt}` : ""
+    doc.setDrawColor(...verdictColor)
+    doc.setLineWidth(0.6)
+    doc.rect(margin, currentY, pageWidth - 2 * margin, 12)
+    doc.setTextColor(...verdictColor)
+    doc.setFontSize(12)
+    doc.setFont("helvetica", "bold")
+    doc.text(
+        released
+            ? `VERDICT: ACCEPTED${attemptNote} - LOT RELEASED`
+            : `VERDICT: REJECTED${attemptNote} - LOT ON HOLD`,
+        pageWidth / 2,
+        currentY + 8,
+        { align: "center" }
+    )
+
+    // =========== SIGNATURES ===========
+
+    const sigY = pageHeight - 35
+    const sigWidth = 70
+    doc.setTextColor(...black)
+    doc.setDrawColor(...black)
+    doc.setLineWidth(0.4)
+
+    const signature = (label: string, name: string, x: number) => {
+        doc.setFontSize(11)
+        doc.setFont("times", "italic")
+        doc.text(name, x + sigWidth / 2, sigY - 2, { align: "center" })
+        doc.line(x, sigY, x + sigWidth, sigY)
+        doc.setFontSize(8)
+        doc.setFont("helvetica", "bold")
+        doc.text(label, x + sigWidth / 2, sigY + 4, { align: "center" })
+    }
+    signature("Operator", data.operatorName, margin + 5)
+    signature("Quality Inspector", data.inspectorName, pageWidth - margin - 5 - sigWidth)
+
+    // =========== FOOTER ===========
+
+    doc.setFontSize(7)
+    doc.setFont("helvetica", "bold")
+    doc.text(FPI_FORM_REVISION, pageWidth - margin, pageHeight - 10, { align: "right" })
+
+    doc.save(`FPI_${data.lotNumber}.pdf`)
+}
@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Nonconformance Report (NCR) PDF Generator
+ * Prints an NCR with its lot context, failing characteristics, defect codes,
+ * quantity affected, MRB disposition and status history.
+ * @module lib/pdf/NCRReportPDFGenerator
+ */
+
+import jsPDF from "jspdf"
+import autoTable from "jspdf-autotable"
+import { format } from "date-fns"
+import { DEFECT_CODES } from "@/lib/data"
+import type { NonconformanceReport } from "@/lib/data"
+import { MRB_DISPOSITIONS, NCR_STATUS_LABELS } from "@/lib/ncr"
+import { PDF_COLORS, lastTableBottom } from "./pdfHelpers"
+
+/** Internal form code printed in the footer */
+const NCR_FORM_REVISION = "QS-P8-NCR Rev.01"
+
+// ==========================================
+// PDF GENERATOR
+// ==========================================
+
+export function generateNCRReportPDF(ncr: NonconformanceReport): void {
+    const doc = new jsPDF({
+        orientation: "portrait",
+        unit: "mm",
+        format: "letter",
+    })
+
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pageHeight = doc.internal.pageSize.getHeight()
+    const margin = 15
+    const { darkBlue, black, red, labelFill } = PDF_COLORS
+
+    // =========== HEADER ===========
+
+    doc.setTextColor(...darkBlue)
+    doc.setFontSize(22)
+    doc.setFont("helvetica", "bold")
+    doc.text("RBC", margin, 22)
+    doc.setFontSize(6)
+    doc.text("DE MEXICO", margin, 26)
+
+    doc.setTextColor(...red)
+    doc.setFontSize(13)
+    doc.text("NONCONFORMANCE REPORT", pageWidth / 2, 20, { align: "center" })
+    doc.setTextColor(...darkBlue)
+    doc.setFontSize(8)
+    doc.setFont("helvetica", "normal")
+    doc.text("Internal Quality Record", pageWidth / 2, 25, { align: "center" })
+
+    doc.setTextColor(...black)
+    doc.setFontSize(10)
+    doc.setFont("helvetica", "bold")
+    doc.text(ncr.ncrNumber, pageWidth - margin, 20, { align: "right" })
+    doc.setFontSize(8)
+    doc.setFont("helvetica", "normal")
+    doc.text(`Status: ${NCR_STATUS_LABELS[ncr.status]}`, pageWidth - margin, 25, { align: "right" })
+
+    doc.setDrawColor(...darkBlue)
+    doc.setLineWidth(0.4)
+    doc.line(margin, 30, pageWidth - margin, 30)
+
+    const sectionTitle = (title: string, y: number) => {
+        doc.setTextColor(...darkBlue)
+        doc.setFontSize(9)
+        doc.setFont("helvetica", "bold")
+        doc.text(title, margin, y)
+        doc.setTextColor(...black)
+    }
+
+    // =========== LOT INFORMATION ===========
+
+    sectionTitle("LOT INFORMATION", 37)
+    autoTable(doc, {
+        startY: 39,
+        margin: { left: margin, right: margin },
+        body: [
+            ["Lot/WO", ncr.lotNumber, "Opened", format(new Date(ncr.createdAt), "dd-MMM-yy HH:mm")],
+            ["Part Number", ncr.partNumber, "Revision", ncr.revision],
+            ["Heat Number", ncr.lotHeatNumber, "Customer", ncr.customer ?? "N/A"],
+            ["Qty Affected", ncr.quantityAffected.toLocaleString(), "Inspector", ncr.inspector],
+        ],
+        theme: "grid",
+        styles: { fontSize: 8, cellPadding: 1.5, lineColor: [180, 180, 180], lineWidth: 0.1 },
+        columnStyles: {
+            0: { fontStyle: "bold", cellWidth: 35, fillColor: labelFill },
+            2: { fontStyle: "bold", cellWidth: 35, fillColor: labelFill },
+        },
+    })
+    let currentY = lastTableBottom(doc)
+
+    // =========== NONCONFORMANCE ===========
+
+    sectionTitle("DEFECT CODES", currentY + 8)
+    autoTable(doc, {
+        startY: currentY + 10,
+        margin: { left: margin, right: margin },
+        head: [["Code", "Description"]],
+        body: ncr.defectCodes.length > 0
+            ? ncr.defectCodes.map((code) => [code, DEFECT_CODES.find((d) => d.code === code)?.description ?? ""])
+            : [["N/A", "No defect code reported"]],
+        theme: "grid",
+        styles: { fontSize: 8, cellPadding: 1.5 },
+        headStyles: { fillColor: darkBlue, textColor: [255, 255, 255] },
+        columnStyles: { 0: { font: "courier", fontStyle: "bold", cellWidth: 20 } },
+    })
+    currentY = lastTableBottom(doc)
+
+    sectionTitle("FAILING CHARACTERISTICS", currentY + 8)
+    autoTable(doc, {
+        startY: currentY + 10,
+        margin: { left: margin, right: margin },
+        head: [["#", "Characteristic", "Tolerance", "Measured"]],
+        body: ncr.findings.length > 0
+            ? ncr.findings.map((finding, index) => [
+                String(index + 1),
+                finding.characteristic,
+                finding.tolerance,
+                finding.measured,
+            ])
+            : [["-", "No dimensional failure recorded", "", ""]],
+        theme: "grid",
+        styles: { fontSize: 8, cellPadding: 1.8, lineColor: darkBlue, lineWidth: 0.2 },
+        headStyles: { fillColor: darkBlue, textColor: [255, 255, 255], fontStyle: "bold" },
+        columnStyles: {
+            0: { halign: "center", cellWidth: 8 },
+            2: { font: "courier" },
+            3: { halign: "right", font: "courier", textColor: red, fontStyle: "bold" },
+        },
+    })
+    currentY = lastTableBottom(doc)
+
+    if (ncr.description) {
+        sectionTitle("DESCRIPTION", currentY + 8)
+        doc.setFontSize(8)
+        doc.setFont("helvetica", "normal")
+        const lines = doc.splitTextToSize(ncr.description, pageWidth - 2 * margin)
+        doc.text(lines, margin, currentY + 13)
+        currentY += 13 + lines.length * 4
+    }
+
+    // =========== MRB DISPOSITION ===========
+
+    if (ncr.disposition) {
+        const { disposition } = ncr
+        sectionTitle("MRB DISPOSITION", currentY + 8)
+        autoTable(doc, {
+            startY: currentY + 10,
+            margin: { left: margin, right: margin },
+            body: [
+                [
+                    "Disposition",
+                    MRB_DISPOSITIONS.find((option) => option.value === disposition.disposition)?.label ?? disposition.disposition,
+                    "Decided",
+                    format(new Date(disposition.decidedAt), "dd-MMM-yy HH:mm"),
+                ],
+                ["Approved By", disposition.approvedBy, "Role", disposition.approverRole],
+                ["Justification", { content: disposition.justification, colSpan: 3 }],
+            ],
+            theme: "grid",
+            styles: { fontSize: 8, cellPadding: 1.5, lineColor: [180, 180, 180], lineWidth: 0.1 },
+            columnStyles: {
+                0: { fontStyle: "bold", cellWidth: 35, fillColor: labelFill },
+                2: { fontStyle: "bold", cellWidth: 35, fillColor: labelFill },
+            },
+        })
+        currentY = lastTableBottom(doc)
+    }
+
+    // =========== STATUS HISTORY ===========
+
+    sectionTitle("STATUS HISTORY", currentY + 8)
+    autoTable(doc, {
+        startY: currentY + 10,
+        margin: { left: margin, right: margin, bottom: 40 },
+        head: [["Date", "Status", "By", "Note"]],
+        body: ncr.history.map((change) => [
+            format(new Date(change.changedAt), "dd-MMM-yy HH:mm"),
+            NCR_STATUS_LABELS[change.to],
+            change.changedBy,
+            change.note ?? "",
+        ]),
+        theme: "grid",
+        styles: { fontSize: 8, cellPadding: 1.5 },
+        headStyles: { fillColor: darkBlue, textColor: [255, 255, 255] },
+        columnStyles: { 0: { cellWidth: 30 }, 1: { cellWidth: 28 }, 2: { cellWidth: 35 } },
+    })
+
+    // =========== SIGNATURES ===========
+
+    const sigY = pageHeight - 30
+    const sigWidth = 70
+    doc.setTextColor(...black)
+    doc.setDrawColor(...black)
+    doc.setLineWidth(0.4)
+    doc.setFontSize(8)
+    doc.setFont("helvetica", "bold")
+
+    doc.line(margin + 5, sigY, margin + 5 + sigWidth, sigY)
+    doc.text("Quality Inspector", margin + 5 + sigWidth / 2, sigY + 4, { align: "center" })
+    doc.line(pageWidth - margin - 5 - sigWidth, sigY, pageWidth - margin - 5, sigY)
+    doc.text("Quality Manager", pageWidth - margin - 5 - sigWidth / 2, sigY + 4, { align: "center" })
+
+    // =========== FOOTER ===========
+
+    doc.setFontSize(7)
+    doc.text(NCR_FORM_REVISION, pageWidth - margin, pageHeight - 10, { align: "right" })
+
+    doc.save(`${ncr.ncrNumber}.pdf`)
+}
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Shared helpers for the internal PDF reports (FPI, NCR).
+ * @module lib/pdf/pdfHelpers
+ */
+
+import type jsPDF from "jspdf"
+
+export type RGB = [number, number, number]
+
+/** Report palette (RBC blue matches the certificate) */
+export const PDF_COLORS: Record<"darkBlue" | "black" | "green" | "red" | "labelFill", RGB> = {
+    darkBlue: [0, 51, 153],
+    black: [0, 0, 0],
+    green: [0, 128, 0],
+    red: [200, 0, 0],
+    labelFill: [240, 243, 250],
+}
+
+/**
+ * Bottom of the last table drawn (jspdf-autotable sets it at runtime but does not type it)
+ */
+export function lastTableBottom(doc: jsPDF): number {
+    return (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY
+}
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Sampling plans for multi-piece inspection of a characteristic.
+ * A fixed sample size, or ANSI/ASQ Z1.4 single sampling (normal inspection,
+ * general inspection level II) by lot size and AQL, with its Ac/Re decision.
+ * @module lib/sampling
+ */
+
+import type { FieldDefinition, InspectionValue, SamplingPlan } from "@/lib/data"
+import { isWithinTolerance } from "@/lib/tolerance"
+
+// ==========================================
+// TYPES
+// ==========================================
+
+/**
+ * Sampling plan applied to a lot: how many pieces to measure and the acceptance numbers
+ */
+export interface ResolvedSamplingPlan {
+    sampleSize: number
+    /** Accept with this many nonconforming pieces or fewer */
+    acceptNumber: number
+    /** Reject with this many nonconforming pieces or more */
+    rejectNumber: number
+    /** Z1.4 sample size code letter (AQL plans only) */
+    codeLetter?: string
+    /** The lot is smaller than the sample: every piece is measured */
+    isFullInspection: boolean
+}
+
+export interface SampleEvaluation {
+    status: InspectionValue["status"]
+    /** Pieces measured so far */
+    measured: number
+    nonconforming: number
+    /** Mean of the pieces measured so far, null before the first */
+    mean: number | null
+}
+
+// ==========================================
+// ANSI/ASQ Z1.4 TABLES
+// ==========================================
+
+/** AQL columns offered in the part configuration (percent nonconforming) */
+export const AQL_LEVELS = [0.065, 0.1, 0.15, 0.25, 0.4, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5] as const
+
+export type AqlLevel = (typeof AQL_LEVELS)[number]
+
+/**
+ * Table I, general inspection level II: upper lot size of each code letter
+ */
+const LOT_SIZE_CODE_LETTERS: { maxLotSize: number; letter: string }[] = [
+    { maxLotSize: 8, letter: "A" },
+    { maxLotSize: 15, letter: "B" },
+    { maxLotSize: 25, letter: "C" },
+    { maxLotSize: 50, letter: "D" },
+    { maxLotSize: 90, letter: "E" },
+    { maxLotSize: 150, letter: "F" },
+    { maxLotSize: 280, letter: "G" },
+    { maxLotSize: 500, letter: "H" },
+    { maxLotSize: 1200, letter: "J" },
+    { maxLotSize: 3200, letter: "K" },
+    { maxLotSize: 10000, letter: "L" },
+    { maxLotSize: 35000, letter: "M" },
+    { maxLotSize: 150000, letter: "N" },
+    { maxLotSize: 500000, letter: "P" },
+    { maxLotSize: Infinity, letter: "Q" },
+]
+
+/** Table II-A: code letters in order with their sample sizes */
+const CODE_LETTERS = ["A", "B", "C", "D", "E", "F", "G", "H", "J", "K", "L", "M", "N", "P", "Q", "R"]
+const SAMPLE_SIZES = [2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000]
+
+/**
+ * Table II-A column, read down from the first Ac 0 plan: "up" and "down" are the
+ * table's arrows (use the first plan above or below), and the last plan repeats below
+ */
+const ACCEPT_SEQUENCE: (number | "up" | "down")[] = [0, "up", "down", 1, 2, 3, 5, 7, 10, 14, 21]
+
+/**
+ * Code letter index where each AQL column's first plan (Ac 0, Re 1) sits
+ */
+const FIRST_PLAN_INDEX: Record<AqlLevel, number> = {
+    0.065: 10,
+    0.1: 9,
+    0.15: 8,
+    0.25: 7,
+    0.4: 6,
+    0.65: 5,
+    1.0: 4,
+    1.5: 3,
+    2.5: 2,
+    4.0: 1,
+    6.5: 0,
+}
+
+function getCodeLetterIndex(lotSize: number): number {
+    const { letter } = LOT_SIZE_CODE_LETTERS.find((entry) => lotSize <= entry.maxLotSize)!
+    return CODE_LETTERS.indexOf(letter)
+}
+
+/**
+ * Single normal sampling plan for a code letter and AQL, following the table's arrows
+ */
+function lookupAqlPlan(letterIndex: number, aql: AqlLevel): { letterIndex: number; acceptNumber: number } {
+    const first = FIRST_PLAN_INDEX[aql]
+    const offset = Math.min(Math.max(letterIndex - first, 0), ACCEPT_SEQUENCE.length - 1)
+    const entry = ACCEPT_SEQUENCE[offset]
+
+    if (entry === "up") return { letterIndex: first + offset - 1, acceptNumber: ACCEPT_SEQUENCE[offset - 1] as number }
+    if (entry === "down") return { letterIndex: first + offset + 1, acceptNumber: ACCEPT_SEQUENCE[offset + 1] as number }
+    return { letterIndex: first + offset, acceptNumber: entry }
+}
+
+// ==========================================
+// PLAN RESOLUTION & EVALUATION
+// ==========================================
+
+/**
+ * Pieces to measure and Ac/Re for a plan and lot size
+ */
+export function resolveSamplingPlan(plan: SamplingPlan, lotSize: number): ResolvedSamplingPlan {
+    const lot = Math.max(1, Math.floor(lotSize))
+
+    if (plan.type === "fixed") {
+        const sampleSize = Math.min(plan.sampleSize, lot)
+        return {
+            sampleSize,
+            acceptNumber: plan.acceptNumber,
+            rejectNumber: plan.acceptNumber + 1,
+            isFullInspection: sampleSize < plan.sampleSize,
+        }
+    }
+
+    const { letterIndex, acceptNumber } = lookupAqlPlan(getCodeLetterIndex(lot), plan.aql)
+    const tableSize = SAMPLE_SIZES[letterIndex]
+    return {
+        // Z1.4: when the sample size equals or exceeds the lot size, inspect every piece
+        sampleSize: Math.min(tableSize, lot),
+        acceptNumber,
+        rejectNumber: acceptNumber + 1,
+        codeLetter: CODE_LETTERS[letterIndex],
+        isFullInspection: tableSize >= lot,
+    }
+}
+
+/**
+ * Resolved plan of a sampled numeric field, or undefined for a single reading
+ */
+export function getFieldSamplingPlan(field: FieldDefinition, lotSize: number): ResolvedSamplingPlan | undefined {
+    if (field.type !== "numeric" || !field.sampling) return undefined
+    return resolveSamplingPlan(field.sampling, lotSize)
+}
+
+/**
+ * Accept/reject decision for the pieces measured so far. Rejects as soon as the
+ * nonconforming count reaches Re; accepts once every piece is measured within Ac.
+ */
+export function evaluateSamples(
+    field: FieldDefinition,
+    samples: (number | null)[],
+    plan: ResolvedSamplingPlan
+): SampleEvaluation {
+    const measured = samples.slice(0, plan.sampleSize).filter((value): value is number => value !== null)
+    const nonconforming = measured.filter((value) => !isWithinTolerance(field, value)).length
+    const mean = measured.length > 0 ? measured.reduce((sum, value) => sum + value, 0) / measured.length : null
+
+    let status: InspectionValue["status"] = "pending"
+    if (nonconforming >= plan.rejectNumber) status = "fail"
+    else if (measured.length === plan.sampleSize) status = "pass"
+
+    return { status, measured: measured.length, nonconforming, mean }
+}
+
+// ==========================================
+// FORMATTING
+// ==========================================
+
+/**
+ * Plan as configured ("n=5, Ac 0" or "AQL 1.0 (Z1.4 II)")
+ */
+export function describeSamplingPlan(plan: SamplingPlan): string {
+    return plan.type === "fixed"
+        ? `n=${plan.sampleSize}, Ac ${plan.acceptNumber}`
+        : `AQL ${plan.aql} (Z1.4 II)`
+}
+
+/**
+ * Plan as applied to a lot ("Code K · n=125 · Ac 3 / Re 4")
+ */
+export function describeResolvedPlan(plan: ResolvedSamplingPlan): string {
+    const letter = plan.codeLetter ? `Code ${plan.codeLetter} · ` : ""
+    const size = plan.isFullInspection ? `100% (${plan.sampleSize} pcs)` : `n=${plan.sampleSize}`
+    return `${letter}${size} · Ac ${plan.acceptNumber} / Re ${plan.rejectNumber}`
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Server-side session of the signed-in kiosk user.
+ * The session token lives in an httpOnly cookie; server actions and routes take the
+ * acting user from it instead of trusting names or roles sent by the client.
+ * Server-only (uses next/headers).
+ * @module lib/session
+ */
+
+import { cookies } from "next/headers"
+import type { Actor } from "@/lib/data"
+import { createSession, deleteSession, findSession } from "@/lib/db/repositories/sessions"
+
+const SESSION_COOKIE = "rbc_qc_session"
+
+/** A session lasts one shift */
+const SESSION_HOURS = 12
+
+/** Error of actions that need a signed-in user */
+export const SIGN_IN_REQUIRED_ERROR = "Sign in to perform this action"
+
+/**
+ * Actor of kiosk activity with nobody signed in (operators do not sign in)
+ */
+export const KIOSK_ACTOR: Actor = { name: "Kiosk", role: "operator" }
+
+/**
+ * User signed in on this kiosk, if any
+ */
+export async function getSessionActor(): Promise<Actor | undefined> {
+    const token = (await cookies()).get(SESSION_COOKIE)?.value
+    return token ? findSession(token) : undefined
+}
+
+/**
+ * Signs the user in on this kiosk, replacing any previous session
+ */
+export async function startSession(actor: Actor): Promise<void> {
+    await endSession()
+    const expiresAt = new Date(Date.now() + SESSION_HOURS * 60 * 60 * 1000)
+    const token = createSession(actor, expiresAt)
+    const cookieStore = await cookies()
+    cookieStore.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: "strict",
+        path: "/",
+        expires: expiresAt,
+    })
+}
+
+export async function endSession(): Promise<void> {
+    const cookieStore = await cookies()
+    const token = cookieStore.get(SESSION_COOKIE)?.value
+    if (token) deleteSession(token)
+    cookieStore.delete(SESSION_COOKIE)
+}
+
+/**
+ * Result of signing in with a PIN
+ */
+export type SignInResult =
+    | { success: true; user: Actor }
+    | { success: false; error: string }
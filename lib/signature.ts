@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Electronic signature rules shared by the server and the UI.
+ * Critical actions are signed by re-entering a PIN; the meaning states what the signer attests to.
+ * @module lib/signature
+ */
+
+import { MOCK_CREDENTIALS } from "@/lib/data"
+import type { ElectronicSignature, PartRevision, Role, SignatureMeaning, UserCredential } from "@/lib/data"
+import { MRB_APPROVER_ROLES } from "@/lib/ncr"
+
+export const SIGNATURE_MEANING_LABELS: Record<SignatureMeaning, string> = {
+    release: "Approved for release",
+    rejection: "Rejected as nonconforming",
+    mrb_disposition: "MRB disposition approved",
+    revision_approval: "Revision approved for production",
+}
+
+/**
+ * Roles allowed to sign with each meaning
+ */
+export const SIGNATURE_MEANING_ROLES: Record<SignatureMeaning, Role[]> = {
+    release: ["inspector", "manager", "admin_engineer"],
+    rejection: ["inspector"],
+    mrb_disposition: MRB_APPROVER_ROLES,
+    revision_approval: ["admin_engineer"],
+}
+
+/**
+ * User the PIN belongs to, if they may sign with the given meaning
+ */
+export function findSigner(pin: string, meaning: SignatureMeaning): UserCredential | undefined {
+    return MOCK_CREDENTIALS.find(
+        (credential) => credential.pin === pin && SIGNATURE_MEANING_ROLES[meaning].includes(credential.role)
+    )
+}
+
+export function getSignerError(meaning: SignatureMeaning): string {
+    return `Invalid PIN or the user cannot sign "${SIGNATURE_MEANING_LABELS[meaning]}"`
+}
+
+/**
+ * Result of publishing a signed part revision
+ */
+export type RevisionPublishResult =
+    | { success: true; revision: PartRevision; signature: ElectronicSignature }
+    | { success: false; error: string }
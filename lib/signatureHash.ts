@@ -0,0 +1,16 @@
+/**
+ * @fileoverview Hash of the record an electronic signature applies to.
+ * Recomputing it from the stored record shows whether the record changed after signing.
+ * Server-only (uses node:crypto).
+ * @module lib/signatureHash
+ */
+
+import { createHash } from "node:crypto"
+import { canonicalize } from "@/lib/certificateHash"
+
+/**
+ * SHA-256 of the canonical JSON of the signed record
+ */
+export function computeSignedRecordHash(record: unknown): string {
+    return createHash("sha256").update(canonicalize(record)).digest("hex")
+}
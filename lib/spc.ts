@@ -0,0 +1,282 @@
+/**
+ * @fileoverview Statistical Process Control for numeric part characteristics.
+ * Builds X-bar/R or individuals/moving-range charts from stored inspection readings
+ * and flags Western Electric rule violations back to the lots that caused them.
+ * @module lib/spc
+ */
+
+import type { FieldDefinition, InspectionRecord } from "@/lib/data"
+import { getToleranceLimits, type ToleranceLimits } from "@/lib/tolerance"
+import { convertMeasurement, type MeasurementUnit } from "@/lib/units"
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export type SpcChartType = "xbar_r" | "imr"
+
+export type WesternElectricRule = 1 | 2 | 3 | 4
+
+/**
+ * One charted subgroup: the readings of a characteristic in one inspection record
+ */
+export interface SpcPoint {
+    recordId: number
+    lotNumber: string
+    recordedAt: string
+    values: number[]
+    /** Subgroup mean (the reading itself for individuals) */
+    mean: number
+    /** Subgroup range, or moving range to the previous point for individuals (null on the first point) */
+    range: number | null
+}
+
+export interface SpcLimits {
+    center: number
+    ucl: number
+    lcl: number
+    /** Process sigma of the plotted statistic, used for the rule zones */
+    sigma: number
+    rangeCenter: number
+    rangeUcl: number
+    rangeLcl: number
+}
+
+export interface SpcViolation {
+    rule: WesternElectricRule
+    chart: "x" | "range"
+    pointIndex: number
+    recordId: number
+    lotNumber: string
+}
+
+export interface SpcChart {
+    partNumber: string
+    fieldId: string
+    fieldName: string
+    /** Specified unit of the readings and limits */
+    unit?: MeasurementUnit
+    chartType: SpcChartType
+    subgroupSize: number
+    spec: ToleranceLimits
+    points: SpcPoint[]
+    /** Null until there are enough points to estimate limits */
+    limits: SpcLimits | null
+    violations: SpcViolation[]
+}
+
+export type SpcChartResult =
+    | { success: true; chart: SpcChart }
+    | { success: false; error: string }
+
+// ==========================================
+// CONSTANTS
+// ==========================================
+
+/** Inspection records of a part used as history for the limits */
+export const SPC_HISTORY_LIMIT = 100
+
+/** Points needed before control limits are computed */
+export const SPC_MIN_POINTS = 3
+
+export const WESTERN_ELECTRIC_RULES: Record<WesternElectricRule, string> = {
+    1: "1 point beyond 3σ",
+    2: "2 of 3 points beyond 2σ on one side",
+    3: "4 of 5 points beyond 1σ on one side",
+    4: "8 points in a row on one side of the center line",
+}
+
+/**
+ * Control chart constants by subgroup size (n = 2..10)
+ */
+const XBAR_R_CONSTANTS: Record<number, { a2: number; d3: number; d4: number; d2: number }> = {
+    2: { a2: 1.880, d3: 0, d4: 3.267, d2: 1.128 },
+    3: { a2: 1.023, d3: 0, d4: 2.574, d2: 1.693 },
+    4: { a2: 0.729, d3: 0, d4: 2.282, d2: 2.059 },
+    5: { a2: 0.577, d3: 0, d4: 2.114, d2: 2.326 },
+    6: { a2: 0.483, d3: 0, d4: 2.004, d2: 2.534 },
+    7: { a2: 0.419, d3: 0.076, d4: 1.924, d2: 2.704 },
+    8: { a2: 0.373, d3: 0.136, d4: 1.864, d2: 2.847 },
+    9: { a2: 0.337, d3: 0.184, d4: 1.816, d2: 2.970 },
+    10: { a2: 0.308, d3: 0.223, d4: 1.777, d2: 3.078 },
+}
+
+/** d2 for moving ranges of two consecutive individuals */
+const IMR_D2 = 1.128
+const IMR_D4 = 3.267
+
+// ==========================================
+// COMPUTATION
+// ==========================================
+
+function average(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+/**
+ * Numeric readings of a characteristic in one record (every measured piece for sampled fields),
+ * in the field's current unit: readings stored in another unit are converted, and unit
+ * readings of a field that is now unitless are left out
+ */
+export function getSubgroupValues(record: InspectionRecord, field: FieldDefinition): number[] {
+    const reading = record.readings.find((r) => r.fieldId === field.id)
+    if (!reading) return []
+    if (reading.unit && !field.unit) return []
+
+    const values = reading.samples
+        ? reading.samples.filter((sample): sample is number => sample !== null)
+        : typeof reading.value === "number" ? [reading.value] : []
+    const from = reading.unit
+    const to = field.unit
+    return from && to ? values.map((value) => convertMeasurement(value, from, to)) : values
+}
+
+function computeLimits(points: SpcPoint[], chartType: SpcChartType, subgroupSize: number): SpcLimits | null {
+    const ranges = points.flatMap((p) => (p.range === null ? [] : [p.range]))
+    if (points.length < SPC_MIN_POINTS || ranges.length === 0) return null
+
+    const center = average(points.map((p) => p.mean))
+    const rangeCenter = average(ranges)
+
+    if (chartType === "xbar_r") {
+        const { a2, d3, d4 } = XBAR_R_CONSTANTS[subgroupSize]
+        return {
+            center,
+            ucl: center + a2 * rangeCenter,
+            lcl: center - a2 * rangeCenter,
+            sigma: (a2 * rangeCenter) / 3,
+            rangeCenter,
+            rangeUcl: d4 * rangeCenter,
+            rangeLcl: d3 * rangeCenter,
+        }
+    }
+
+    const sigma = rangeCenter / IMR_D2
+    return {
+        center,
+        ucl: center + 3 * sigma,
+        lcl: center - 3 * sigma,
+        sigma,
+        rangeCenter,
+        rangeUcl: IMR_D4 * rangeCenter,
+        rangeLcl: 0,
+    }
+}
+
+/**
+ * Pooled standard deviation of the readings within each subgroup, unbiased with c4.
+ * Null when no subgroup has two readings.
+ */
+function pooledWithinSigma(points: SpcPoint[]): number | null {
+    let sumSquares = 0
+    let degrees = 0
+    for (const { values } of points) {
+        if (values.length < 2) continue
+        const mean = average(values)
+        sumSquares += values.reduce((sum, value) => sum + (value - mean) ** 2, 0)
+        degrees += values.length - 1
+    }
+    if (degrees === 0) return null
+    const c4 = (4 * degrees) / (4 * degrees + 1)
+    return Math.sqrt(sumSquares / degrees) / c4
+}
+
+/**
+ * Short-term (within-subgroup) process sigma: the average range over d2 for X-bar/R
+ * and true individuals. Sampled subgroups charted as individuals (mixed or over 10
+ * pieces) pool the spread within each sample instead, since the moving range of
+ * their means only reflects sigma / √n.
+ */
+export function estimateWithinSigma(chart: SpcChart): number | null {
+    if (!chart.limits) return null
+    if (chart.chartType === "xbar_r") {
+        return chart.limits.rangeCenter / XBAR_R_CONSTANTS[chart.subgroupSize].d2
+    }
+    if (chart.points.some((point) => point.values.length > 1)) {
+        return pooledWithinSigma(chart.points)
+    }
+    return chart.limits.rangeCenter / IMR_D2
+}
+
+/**
+ * Western Electric rules on the plotted means; each violation is flagged on the point that completes the pattern
+ */
+export function findWesternElectricViolations(points: SpcPoint[], limits: SpcLimits): SpcViolation[] {
+    const violations: SpcViolation[] = []
+    const { center, sigma } = limits
+    // Identical readings have no spread to zone against
+    if (sigma <= 0) return violations
+    const zone = (value: number) => (value - center) / sigma
+
+    const flag = (rule: WesternElectricRule, chart: SpcViolation["chart"], index: number) => {
+        violations.push({ rule, chart, pointIndex: index, recordId: points[index].recordId, lotNumber: points[index].lotNumber })
+    }
+
+    // Count of points in the window ending at `index` beyond `sigmas` on the same side as the last point
+    const countBeyond = (index: number, size: number, sigmas: number) => {
+        const side = Math.sign(zone(points[index].mean))
+        return points
+            .slice(Math.max(0, index - size + 1), index + 1)
+            .filter((p) => Math.sign(zone(p.mean)) === side && Math.abs(zone(p.mean)) > sigmas)
+            .length
+    }
+
+    points.forEach((point, index) => {
+        const z = zone(point.mean)
+        if (Math.abs(z) > 3) flag(1, "x", index)
+        if (Math.abs(z) > 2 && index >= 2 && countBeyond(index, 3, 2) >= 2) flag(2, "x", index)
+        if (Math.abs(z) > 1 && index >= 4 && countBeyond(index, 5, 1) >= 4) flag(3, "x", index)
+        if (z !== 0 && index >= 7 && countBeyond(index, 8, 0) === 8) flag(4, "x", index)
+
+        if (point.range !== null && (point.range > limits.rangeUcl || point.range < limits.rangeLcl)) {
+            flag(1, "range", index)
+        }
+    })
+
+    return violations
+}
+
+/**
+ * Builds the control chart of a numeric characteristic from its inspection records (oldest first).
+ * Uses X-bar/R when every subgroup has the same size between 2 and 10, otherwise individuals/moving range.
+ */
+export function buildSpcChart(partNumber: string, field: FieldDefinition, records: InspectionRecord[]): SpcChart {
+    const subgroups = records
+        .map((record) => ({ record, values: getSubgroupValues(record, field) }))
+        .filter((s) => s.values.length > 0)
+
+    const sizes = new Set(subgroups.map((s) => s.values.length))
+    const subgroupSize = sizes.size === 1 ? [...sizes][0] : 1
+    const chartType: SpcChartType = XBAR_R_CONSTANTS[subgroupSize] ? "xbar_r" : "imr"
+
+    const points: SpcPoint[] = []
+    for (const { record, values } of subgroups) {
+        const mean = average(values)
+        const previous = points[points.length - 1]
+        points.push({
+            recordId: record.id,
+            lotNumber: record.lotNumber,
+            recordedAt: record.recordedAt,
+            values,
+            mean,
+            range: chartType === "xbar_r"
+                ? Math.max(...values) - Math.min(...values)
+                : previous ? Math.abs(mean - previous.mean) : null,
+        })
+    }
+
+    const limits = computeLimits(points, chartType, subgroupSize)
+
+    return {
+        partNumber,
+        fieldId: field.id,
+        fieldName: field.name,
+        unit: field.unit,
+        chartType,
+        subgroupSize: chartType === "xbar_r" ? subgroupSize : 1,
+        spec: getToleranceLimits(field),
+        points,
+        limits,
+        violations: limits ? findWesternElectricViolations(points, limits) : [],
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Tolerance model of numeric characteristics.
+ * Resolves nominal ± tolerance, unilateral, max-only (GD&T) and min-only specs
+ * to the spec limits used for pass/fail, SPC and capability.
+ * @module lib/tolerance
+ */
+
+import type { FieldDefinition, GeometricCharacteristic } from "@/lib/data"
+import { formatFieldNumber, withFieldUnit } from "@/lib/units"
+
+// ==========================================
+// TYPES
+// ==========================================
+
+/**
+ * Lower and upper spec limits; an absent side is unbounded
+ */
+export interface ToleranceLimits {
+    min?: number
+    max?: number
+}
+
+// ==========================================
+// GD&T CHARACTERISTICS
+// ==========================================
+
+/**
+ * GD&T characteristics with the defect code recorded when they fall out of spec
+ */
+export const GEOMETRIC_CHARACTERISTICS: Record<GeometricCharacteristic, { label: string; defectCode: string }> = {
+    parallelism: { label: "Parallelism", defectCode: "Z22" },
+    true_position: { label: "True Position", defectCode: "Z23" },
+    concentricity: { label: "Concentricity", defectCode: "Z24" },
+    roundness: { label: "Roundness", defectCode: "Z25" },
+    runout: { label: "Runout", defectCode: "Z26" },
+    flatness: { label: "Flatness", defectCode: "Z27" },
+}
+
+/**
+ * Defect code of a field's GD&T characteristic, if it has one
+ */
+export function getFeatureDefectCode(field: FieldDefinition): string | undefined {
+    const feature = field.tolerance?.style === "max_only" ? field.tolerance.feature : undefined
+    return feature ? GEOMETRIC_CHARACTERISTICS[feature].defectCode : undefined
+}
+
+// ==========================================
+// LIMITS & EVALUATION
+// ==========================================
+
+/** Drops floating point noise from nominal ± tolerance sums (0.5 + 0.003) */
+export function roundLimit(value: number): number {
+    return parseFloat(value.toPrecision(12))
+}
+
+/**
+ * Spec limits of a numeric field; fields without a tolerance use their min/max
+ */
+export function getToleranceLimits(field: FieldDefinition): ToleranceLimits {
+    const tolerance = field.tolerance
+    if (!tolerance) return { min: field.min, max: field.max }
+
+    switch (tolerance.style) {
+        case "bilateral":
+            return {
+                min: roundLimit(tolerance.nominal - tolerance.minus),
+                max: roundLimit(tolerance.nominal + tolerance.plus),
+            }
+        case "unilateral":
+            return tolerance.direction === "plus"
+                ? { min: tolerance.nominal, max: roundLimit(tolerance.nominal + tolerance.tolerance) }
+                : { min: roundLimit(tolerance.nominal - tolerance.tolerance), max: tolerance.nominal }
+        case "max_only":
+            return { max: tolerance.max }
+        case "min_only":
+            return { min: tolerance.min }
+    }
+}
+
+export function isWithinTolerance(field: FieldDefinition, value: number): boolean {
+    const { min, max } = getToleranceLimits(field)
+    if (min !== undefined && value < min) return false
+    if (max !== undefined && value > max) return false
+    return true
+}
+
+// ==========================================
+// FORMATTING
+// ==========================================
+
+/**
+ * Tolerance as written on the drawing, in the field's unit and precision
+ * ("0.500 ± 0.003 in", "0.500 +0.005 / -0 in", "Flatness Max 0.002 in");
+ * undefined when the field has no limits
+ */
+export function describeNumericTolerance(field: FieldDefinition): string | undefined {
+    const text = describeToleranceValues(field)
+    return text === undefined ? undefined : withFieldUnit(field, text)
+}
+
+function describeToleranceValues(field: FieldDefinition): string | undefined {
+    const n = (value: number) => formatFieldNumber(field, value)
+    const tolerance = field.tolerance
+    if (!tolerance) {
+        if (field.min !== undefined && field.max !== undefined) return `${n(field.min)} - ${n(field.max)}`
+        if (field.max !== undefined) return `Max ${n(field.max)}`
+        if (field.min !== undefined) return `Min ${n(field.min)}`
+        return undefined
+    }
+
+    switch (tolerance.style) {
+        case "bilateral":
+            return tolerance.plus === tolerance.minus
+                ? `${n(tolerance.nominal)} ± ${n(tolerance.plus)}`
+                : `${n(tolerance.nominal)} +${n(tolerance.plus)} / -${n(tolerance.minus)}`
+        case "unilateral":
+            return tolerance.direction === "plus"
+                ? `${n(tolerance.nominal)} +${n(tolerance.tolerance)} / -0`
+                : `${n(tolerance.nominal)} +0 / -${n(tolerance.tolerance)}`
+        case "max_only":
+            return tolerance.feature
+                ? `${GEOMETRIC_CHARACTERISTICS[tolerance.feature].label} Max ${n(tolerance.max)}`
+                : `Max ${n(tolerance.max)}`
+        case "min_only":
+            return `Min ${n(tolerance.min)}`
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Units of measure of numeric characteristics.
+ * Readings are stored and reported in the unit the field is specified in;
+ * a kiosk may enter them in its preferred unit and have them converted.
+ * @module lib/units
+ */
+
+import type { FieldDefinition } from "@/lib/data"
+
+// ==========================================
+// UNITS
+// ==========================================
+
+export const MEASUREMENT_UNITS = ["in", "mm"] as const
+
+export type MeasurementUnit = (typeof MEASUREMENT_UNITS)[number]
+
+export const MEASUREMENT_UNIT_LABELS: Record<MeasurementUnit, string> = {
+    in: "Inches (in)",
+    mm: "Millimetres (mm)",
+}
+
+const MM_PER_INCH = 25.4
+
+/** Decimals used for fields that do not declare a precision */
+export const DEFAULT_PRECISION = 3
+
+// ==========================================
+// CONVERSION
+// ==========================================
+
+export function convertMeasurement(value: number, from: MeasurementUnit, to: MeasurementUnit): number {
+    if (from === to) return value
+    const converted = from === "in" ? value * MM_PER_INCH : value / MM_PER_INCH
+    // Drop floating point noise so 12.7 mm -> in -> mm reads back as 12.7
+    return parseFloat(converted.toPrecision(12))
+}
+
+/**
+ * Unit a field's readings are entered in at a kiosk: its preferred unit when the
+ * field declares one, otherwise the field's own (angles and unitless fields are never converted)
+ */
+export function getEntryUnit(field: FieldDefinition, preferredUnit: MeasurementUnit | null): MeasurementUnit | undefined {
+    if (!field.unit) return undefined
+    return preferredUnit ?? field.unit
+}
+
+/**
+ * Entered value converted to the field's specified unit, ready for evaluation and storage.
+ * A converted value is rounded to the field's precision, as if it had been read in that unit.
+ */
+export function toSpecifiedUnit(field: FieldDefinition, value: number, preferredUnit: MeasurementUnit | null): number {
+    const entryUnit = getEntryUnit(field, preferredUnit)
+    if (!entryUnit || !field.unit || entryUnit === field.unit) return value
+    return roundToFieldPrecision(field, convertMeasurement(value, entryUnit, field.unit))
+}
+
+/**
+ * Stored value (specified unit) converted to the kiosk's entry unit for display in inputs
+ */
+export function toEntryUnit(field: FieldDefinition, value: number, preferredUnit: MeasurementUnit | null): number {
+    const entryUnit = getEntryUnit(field, preferredUnit)
+    return entryUnit && field.unit ? convertMeasurement(value, field.unit, entryUnit) : value
+}
+
+// ==========================================
+// FORMATTING
+// ==========================================
+
+/**
+ * Decimals of a field's readings and limits: its declared precision, else DEFAULT_PRECISION
+ */
+export function getFieldPrecision(field: FieldDefinition): number {
+    return field.precision ?? DEFAULT_PRECISION
+}
+
+export function roundToFieldPrecision(field: FieldDefinition, value: number): number {
+    return parseFloat(value.toFixed(getFieldPrecision(field)))
+}
+
+/**
+ * Number at the field's precision ("0.500")
+ */
+export function formatFieldNumber(field: FieldDefinition, value: number): string {
+    return value.toFixed(getFieldPrecision(field))
+}
+
+/**
+ * Appends the field's specified unit, if any ("0.500 in")
+ */
+export function withFieldUnit(field: FieldDefinition, text: string): string {
+    return field.unit ? `${text} ${field.unit}` : text
+}